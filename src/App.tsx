@@ -1,20 +1,50 @@
 import React from 'react';
-import { Mic, GraduationCap, Plus } from 'lucide-react';
+import { Mic, GraduationCap, Plus, Timer, BarChart3, Layers, Archive, Tags, Clock } from 'lucide-react';
 import { useIELTSQuestions } from './hooks/useIELTSQuestions';
+import { useAuth } from './hooks/useAuth';
+import { useProfile } from './hooks/useProfile';
 import { useRecordingHistory } from './hooks/useRecordingHistory';
+import { useRecordingQueue } from './hooks/useRecordingQueue';
+import { useSpacedRepetition } from './hooks/useSpacedRepetition';
+import { useTimingProfiles } from './hooks/useTimingProfiles';
+import { getFollowUpQuestions } from './lib/questionSets';
+import { getQuestionTiming } from './lib/timing';
 import { QuestionDisplay } from './components/QuestionDisplay';
 import { QuestionSearch } from './components/QuestionSearch';
 import { SampleAnswer } from './components/SampleAnswer';
 import { AudioRecorder } from './components/AudioRecorder';
 import { RecordingHistory } from './components/RecordingHistory';
+import { RecordingQueuePanel } from './components/RecordingQueuePanel';
+import { ReviewPanel } from './components/ReviewPanel';
+import { PracticeSessionBuilder } from './components/PracticeSessionBuilder';
 import { NavigationControls } from './components/NavigationControls';
 import { BulkQuestionEntry } from './components/BulkQuestionEntry';
+import { MockExam } from './components/MockExam';
+import { ProgressDashboard } from './components/ProgressDashboard';
+import { RecordingHistoryBrowser } from './components/RecordingHistoryBrowser';
+import { QuestionSetManager } from './components/QuestionSetManager';
+import { FollowUpPrompt } from './components/FollowUpPrompt';
+import { BackupManager } from './components/BackupManager';
+import { CategoryManager } from './components/CategoryManager';
+import { TimingSettings } from './components/TimingSettings';
+import { AuthMenu } from './components/AuthMenu';
+import { ClaimRecordingsBanner } from './components/ClaimRecordingsBanner';
 import { LoadingSpinner } from './components/LoadingSpinner';
 import { ErrorMessage } from './components/ErrorMessage';
 import { UserRecording } from './types';
 
+type AppView = 'practice' | 'bulk-entry' | 'mock-exam' | 'dashboard' | 'history' | 'question-sets' | 'backup' | 'categories' | 'timing';
+
 function App() {
-  const [showBulkEntry, setShowBulkEntry] = React.useState(false);
+  const [view, setView] = React.useState<AppView>('practice');
+  // Question ids of a filtered practice session; takes precedence over the due queue
+  const [sessionQueue, setSessionQueue] = React.useState<string[] | null>(null);
+  // Part 3 questions linked to the cue card just answered, offered as the next step
+  const [followUpIds, setFollowUpIds] = React.useState<string[]>([]);
+
+  const auth = useAuth();
+  const { canEditQuestions } = useProfile(auth.user?.id ?? null);
+  const timing = useTimingProfiles();
   
   const {
     questions,
@@ -26,29 +56,122 @@ function App() {
     jumpToQuestion,
     nextQuestion,
     previousQuestion,
+    queueProgress,
+    setQueue,
+    jumpToQueuePosition,
     refetch,
     updateCurrentQuestion,
     handleQuestionDeleted,
   } = useIELTSQuestions();
 
+  const srs = useSpacedRepetition(auth.user?.id ?? null, questions);
+
+  React.useEffect(() => {
+    setQueue(sessionQueue ?? (srs.queueEnabled ? srs.dueQueue : null));
+  }, [sessionQueue, srs.queueEnabled, srs.dueQueue, setQueue]);
+
   const {
     recordings,
     loading: recordingsLoading,
     error: recordingsError,
     addRecording,
-  } = useRecordingHistory(currentQuestion?.id || '');
+    updateRecording,
+    refetch: refetchRecordings,
+  } = useRecordingHistory(currentQuestion?.id || '', auth.user?.id ?? null);
+
+  React.useEffect(() => {
+    setFollowUpIds([]);
+  }, [currentQuestion?.id]);
+
+  const offerFollowUps = () => {
+    if (currentQuestion?.part !== 2) return;
+    setFollowUpIds(getFollowUpQuestions(currentQuestion, questions).map(q => q.id));
+  };
 
   const handleRecordingComplete = (recording: UserRecording) => {
     console.log('Recording completed:', recording);
     addRecording(recording);
+    offerFollowUps();
+  };
+
+  const recordingQueue = useRecordingQueue((recording) => {
+    // Queued uploads may finish after the learner has moved to another question
+    if (recording.question_id === currentQuestion?.id) {
+      addRecording(recording);
+    }
+  });
+
+  const handleToggleDueQueue = (enabled: boolean) => {
+    srs.setQueueEnabled(enabled);
+    const firstDue = questions.find(q => q.id === srs.dueQueue[0]);
+    if (enabled && firstDue && !srs.dueQueue.includes(currentQuestion?.id ?? '')) {
+      jumpToQuestion(firstDue.serial_number);
+    }
+  };
+
+  const handleRateQuestion = async (quality: number) => {
+    if (!currentQuestion) return;
+    await srs.rateQuestion(currentQuestion.id, quality);
+    // A reviewed question leaves today's queue, so move on to the next one due
+    if (srs.queueEnabled && !sessionQueue) {
+      nextQuestion();
+    }
+  };
+
+  const handleStartSession = (questionIds: string[]) => {
+    setSessionQueue(questionIds);
+    const first = questions.find(q => q.id === questionIds[0]);
+    if (first) {
+      jumpToQuestion(first.serial_number);
+    }
+  };
+
+  const handleQueueRecording = (...args: Parameters<typeof recordingQueue.enqueueRecording>) => {
+    offerFollowUps();
+    return recordingQueue.enqueueRecording(...args);
   };
 
   const handleNavigationStart = () => {
     // This will trigger the AudioRecorder to reset via the question.id change
     // The actual navigation will happen after the reset
   };
-  if (showBulkEntry) {
-    return <BulkQuestionEntry onBack={() => setShowBulkEntry(false)} />;
+  if (view === 'bulk-entry' && canEditQuestions) {
+    return <BulkQuestionEntry timingProfiles={timing.profiles} onBack={() => setView('practice')} />;
+  }
+
+  if (view === 'question-sets' && canEditQuestions) {
+    return (
+      <QuestionSetManager
+        questions={questions}
+        onBack={() => setView('practice')}
+        onQuestionsChanged={refetch}
+      />
+    );
+  }
+
+  if (view === 'categories' && canEditQuestions) {
+    return (
+      <CategoryManager
+        questions={questions}
+        onBack={() => setView('practice')}
+        onQuestionsChanged={refetch}
+      />
+    );
+  }
+
+  if (view === 'timing' && canEditQuestions) {
+    // The form takes its initial values from the profiles, so wait for the saved ones
+    if (timing.loading) {
+      return <LoadingSpinner />;
+    }
+
+    return (
+      <TimingSettings
+        profiles={timing.profiles}
+        onSave={timing.updateProfiles}
+        onBack={() => setView('practice')}
+      />
+    );
   }
 
   if (loading) {
@@ -59,15 +182,67 @@ function App() {
     return <ErrorMessage message={error} onRetry={refetch} />;
   }
 
+  if (view === 'mock-exam') {
+    return <MockExam questions={questions} timingProfiles={timing.profiles} onBack={() => setView('practice')} />;
+  }
+
+  if (view === 'dashboard') {
+    return (
+      <ProgressDashboard
+        questions={questions}
+        timingProfiles={timing.profiles}
+        userId={auth.user?.id ?? null}
+        onBack={() => setView('practice')}
+        onSelectQuestion={(serialNumber) => {
+          jumpToQuestion(serialNumber);
+          setView('practice');
+        }}
+      />
+    );
+  }
+
+  if (view === 'history') {
+    return (
+      <RecordingHistoryBrowser
+        questions={questions}
+        timingProfiles={timing.profiles}
+        userId={auth.user?.id ?? null}
+        initialQuestionId={currentQuestion?.id ?? null}
+        onBack={() => {
+          // Recordings may have been deleted or relabelled
+          refetchRecordings();
+          setView('practice');
+        }}
+      />
+    );
+  }
+
+  if (view === 'backup') {
+    return (
+      <BackupManager
+        userId={auth.user?.id ?? null}
+        canEditQuestions={canEditQuestions}
+        onBack={() => setView('practice')}
+        onRestored={() => {
+          refetch();
+          refetchRecordings();
+        }}
+      />
+    );
+  }
+
   if (!currentQuestion) {
     return (
       <ErrorMessage 
         message="No questions available. Please check your database connection." 
         onRetry={refetch}
+        action={{ label: 'Restore from a backup', onClick: () => setView('backup') }}
       />
     );
   }
 
+  const currentTiming = getQuestionTiming(currentQuestion, timing.profiles);
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -101,17 +276,90 @@ function App() {
               />
               
               <button
-                onClick={() => setShowBulkEntry(true)}
-                className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium transition-colors"
+                onClick={() => setView('dashboard')}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-300 hover:bg-gray-50 text-gray-700 rounded-lg font-medium transition-colors"
               >
-                <Plus className="w-4 h-4" />
-                Add Questions
+                <BarChart3 className="w-4 h-4" />
+                Progress
               </button>
+
+              <button
+                onClick={() => setView('backup')}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-300 hover:bg-gray-50 text-gray-700 rounded-lg font-medium transition-colors"
+                title="Backup & restore"
+              >
+                <Archive className="w-4 h-4" />
+                Backup
+              </button>
+
+              <button
+                onClick={() => setView('mock-exam')}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+              >
+                <Timer className="w-4 h-4" />
+                Mock Exam
+              </button>
+
+              {canEditQuestions && (
+                <button
+                  onClick={() => setView('question-sets')}
+                  className="flex items-center gap-2 px-4 py-2 border border-gray-300 hover:bg-gray-50 text-gray-700 rounded-lg font-medium transition-colors"
+                >
+                  <Layers className="w-4 h-4" />
+                  Question Sets
+                </button>
+              )}
+
+              {canEditQuestions && (
+                <button
+                  onClick={() => setView('categories')}
+                  className="flex items-center gap-2 px-4 py-2 border border-gray-300 hover:bg-gray-50 text-gray-700 rounded-lg font-medium transition-colors"
+                >
+                  <Tags className="w-4 h-4" />
+                  Categories
+                </button>
+              )}
+
+              {canEditQuestions && (
+                <button
+                  onClick={() => setView('timing')}
+                  className="flex items-center gap-2 px-4 py-2 border border-gray-300 hover:bg-gray-50 text-gray-700 rounded-lg font-medium transition-colors"
+                >
+                  <Clock className="w-4 h-4" />
+                  Timing
+                </button>
+              )}
+
+              {canEditQuestions && (
+                <button
+                  onClick={() => setView('bulk-entry')}
+                  className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium transition-colors"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add Questions
+                </button>
+              )}
+
+              <AuthMenu
+                user={auth.user}
+                isGuest={auth.isGuest}
+                onSignIn={auth.signInWithPassword}
+                onSignUp={auth.signUpWithPassword}
+                onSendMagicLink={auth.sendMagicLink}
+                onSignOut={auth.signOut}
+              />
             </div>
           </div>
         </div>
       </header>
 
+      {auth.canClaimGuestRecordings && (
+        <ClaimRecordingsBanner
+          onClaim={auth.claimGuestRecordings}
+          onClaimed={refetchRecordings}
+        />
+      )}
+
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -119,19 +367,32 @@ function App() {
           <div className="lg:col-span-2 space-y-8">
             <QuestionDisplay
               question={currentQuestion}
+              timing={currentTiming}
               currentIndex={currentQuestionIndex}
               totalQuestions={totalQuestions}
               onQuestionDeleted={handleQuestionDeleted}
+              canDelete={canEditQuestions}
             />
             
             <SampleAnswer 
               question={currentQuestion} 
+              timingProfiles={timing.profiles}
               onQuestionUpdate={updateCurrentQuestion}
+              canEdit={canEditQuestions}
             />
           </div>
 
           {/* Right Column - Recording and Navigation */}
           <div className="space-y-8">
+            <PracticeSessionBuilder
+              questions={questions}
+              userId={auth.user?.id ?? null}
+              reviews={srs.reviews}
+              activeSessionSize={sessionQueue?.length ?? null}
+              onStart={handleStartSession}
+              onEnd={() => setSessionQueue(null)}
+            />
+
              <NavigationControls
               currentIndex={currentQuestionIndex}
               totalQuestions={totalQuestions}
@@ -139,20 +400,57 @@ function App() {
               onPrevious={previousQuestion}
               onJumpToQuestion={jumpToQuestion}
               onNavigationStart={handleNavigationStart}
+              queue={queueProgress && { label: sessionQueue ? 'Session' : 'Due today', ...queueProgress }}
+              onJumpToQueuePosition={jumpToQueuePosition}
             />
             <AudioRecorder
               question={currentQuestion}
+              timing={currentTiming}
               onRecordingComplete={handleRecordingComplete}
               onQuestionChange={() => {
                 // Recording has been reset for new question
                 console.log('Recording reset for question:', currentQuestion.serial_number);
               }}
+              onQueueRecording={handleQueueRecording}
+            />
+
+            {followUpIds.length > 0 && (
+              <FollowUpPrompt
+                count={followUpIds.length}
+                onContinue={() => handleStartSession(followUpIds)}
+                onDismiss={() => setFollowUpIds([])}
+              />
+            )}
+
+            <ReviewPanel
+              review={srs.reviews[currentQuestion.id] ?? null}
+              latestRecordingId={recordings[0]?.id ?? null}
+              dueCount={srs.dueQueue.length}
+              queueEnabled={srs.queueEnabled}
+              onToggleQueue={handleToggleDueQueue}
+              onRate={handleRateQuestion}
+            />
+
+            <RecordingQueuePanel
+              items={recordingQueue.items}
+              pendingCount={recordingQueue.pendingCount}
+              failedCount={recordingQueue.failedCount}
+              syncedCount={recordingQueue.syncedCount}
+              error={recordingQueue.error}
+              onRetry={recordingQueue.retryRecording}
+              onDiscard={recordingQueue.discardRecording}
+              onClearSynced={recordingQueue.clearSynced}
             />
             
             <RecordingHistory
               recordings={recordings}
               loading={recordingsLoading}
               error={recordingsError}
+              question={currentQuestion}
+              timingProfiles={timing.profiles}
+              userId={auth.user?.id ?? null}
+              onRecordingUpdated={updateRecording}
+              onViewAll={() => setView('history')}
             />
             
            
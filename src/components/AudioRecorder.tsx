@@ -1,46 +1,80 @@
-import React, { useEffect } from 'react';
-import { Mic, MicOff, Play, Pause, Trash2, Upload, Download } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Mic, MicOff, Play, Pause, Trash2, Upload, Download, Hourglass, NotebookPen, CloudOff, AlertTriangle } from 'lucide-react';
 import { useAudioRecorder } from '../hooks/useAudioRecorder';
-import { supabase } from '../lib/supabase';
+import { useHesitationAnalysis } from '../hooks/useHesitationAnalysis';
+import { useWaveform } from '../hooks/useWaveform';
+import { saveRecording, SaveRecordingParams } from '../lib/recordings';
+import { getTimingStatus, TimingProfile } from '../lib/timing';
+import { AudioSegment } from '../lib/waveform';
+import { estimateWavSize, getAudioExtension, isWidelyPlayable, transcodeToWav } from '../lib/audioFormat';
+import { PreparationPad } from './PreparationPad';
+import { HesitationTimeline } from './HesitationTimeline';
+import { Waveform } from './Waveform';
 import { IELTSQuestion, UserRecording } from '../types';
 
 interface AudioRecorderProps {
   question: IELTSQuestion;
-  maxDuration?: number;
+  timing: TimingProfile;
   onRecordingComplete?: (recording: UserRecording) => void;
   onQuestionChange?: () => void;
+  onQueueRecording?: (params: SaveRecordingParams, error: string | null) => Promise<void>;
 }
 
 export const AudioRecorder: React.FC<AudioRecorderProps> = ({
   question,
-  maxDuration,
+  timing,
   onRecordingComplete,
   onQuestionChange,
+  onQueueRecording,
 }) => {
   const {
     recordingState,
     audioLevel,
     startRecording,
     stopRecording,
+    pauseRecording,
+    resumeRecording,
     clearRecording,
     forceReset,
     getAudioBlob,
     setIsUploading,
   } = useAudioRecorder();
 
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [prepNotes, setPrepNotes] = useState('');
+  const [queuedNotice, setQueuedNotice] = useState(false);
+  const [playbackTime, setPlaybackTime] = useState(0);
+  const [loop, setLoop] = useState<AudioSegment | null>(null);
+  // Off by default: a trimmed take is re-encoded as WAV, several times the size of an AAC or MP3 take
+  const [trimSilence, setTrimSilence] = useState(false);
+  const playbackRef = useRef<HTMLAudioElement>(null);
+
+  const hesitation = useHesitationAnalysis(recordingState.audioUrl);
+  const waveform = useWaveform(recordingState.audioUrl);
+  const trimRange = trimSilence ? waveform.speechRange : null;
+  const isLongTurn = question.part === 2;
+
   // Reset recording when question changes
   useEffect(() => {
     forceReset();
     onQuestionChange?.();
   }, [ onQuestionChange]);
-  const timeLimit = maxDuration || question.time_limit;
 
-  // Auto-stop recording when time limit reached
+  // Part 2 notes belong to a single cue card
   useEffect(() => {
-    if (recordingState.isRecording && recordingState.duration >= timeLimit) {
-      stopRecording();
-    }
-  }, [recordingState.duration, recordingState.isRecording, timeLimit, stopRecording]);
+    setIsPreparing(false);
+    setPrepNotes('');
+    setQueuedNotice(false);
+  }, [question.id]);
+
+  // A loop only makes sense on the take it was set on
+  useEffect(() => {
+    setLoop(null);
+  }, [recordingState.audioUrl]);
+
+  // Answers can run past the maximum; the recorder flags it instead of cutting off
+  const timingStatus = getTimingStatus(recordingState.duration, timing);
+  const hasTake = recordingState.isRecording || !!recordingState.audioUrl;
 
   const formatTime = (seconds: number) => {
     const minutes = Math.floor(seconds / 60);
@@ -48,11 +82,33 @@ export const AudioRecorder: React.FC<AudioRecorderProps> = ({
     return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
   };
 
+  const formatSize = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+  // What an untrimmed take uploads as: WebM and Ogg are converted to WAV as well
+  const getUntrimmedSize = () => {
+    const audioBlob = getAudioBlob();
+    if (audioBlob && isWidelyPlayable(audioBlob.type)) return audioBlob.size;
+    return estimateWavSize(waveform.duration);
+  };
+
   const getTimeRemaining = () => {
-    return Math.max(0, timeLimit - recordingState.duration);
+    return timing.max - recordingState.duration;
+  };
+
+  const getStatusColor = () => {
+    switch (timingStatus) {
+      case 'under-minimum': return 'bg-blue-400';
+      case 'on-track': return 'bg-green-500';
+      case 'past-target': return 'bg-amber-500';
+      case 'over-time': return 'bg-red-500';
+    }
   };
 
+  // Position along the bar, which spans up to the maximum
+  const barPosition = (seconds: number) => `${Math.min((seconds / timing.max) * 100, 100)}%`;
+
   const handleStartRecording = async () => {
+    setQueuedNotice(false);
     try {
       await startRecording();
     } catch (error) {
@@ -60,44 +116,78 @@ export const AudioRecorder: React.FC<AudioRecorderProps> = ({
     }
   };
 
+  const handlePreparationComplete = () => {
+    setIsPreparing(false);
+    handleStartRecording();
+  };
+
+  const seekPlayback = (time: number) => {
+    if (!playbackRef.current) return;
+    playbackRef.current.currentTime = time;
+    playbackRef.current.play();
+  };
+
+  const handlePlaybackTimeUpdate = (e: React.SyntheticEvent<HTMLAudioElement>) => {
+    const audio = e.currentTarget;
+    if (loop && audio.currentTime >= loop.end) {
+      audio.currentTime = loop.start;
+    }
+    setPlaybackTime(audio.currentTime);
+  };
+
+  const handleLoopChange = (next: AudioSegment | null) => {
+    setLoop(next);
+    if (next) seekPlayback(next.start);
+  };
+
+  // Cuts the silence before and after the answer; the untrimmed take is kept if that fails
+  const trimRecording = async (audioBlob: Blob) => {
+    if (!trimRange) return { blob: audioBlob, duration: recordingState.duration };
+
+    try {
+      return {
+        blob: await transcodeToWav(audioBlob, trimRange.start, trimRange.end),
+        duration: Math.max(1, Math.round(trimRange.end - trimRange.start)),
+      };
+    } catch (error) {
+      console.error('Error trimming recording:', error);
+      return { blob: audioBlob, duration: recordingState.duration };
+    }
+  };
+
   const handleSaveRecording = async () => {
     const audioBlob = getAudioBlob();
     if (!audioBlob) return;
 
+    setIsUploading(true);
+    const { blob, duration } = await trimRecording(audioBlob);
+
+    const params: SaveRecordingParams = {
+      questionId: question.id,
+      serialNumber: question.serial_number,
+      blob,
+      duration,
+      prepNotes: isLongTurn && prepNotes.trim() ? prepNotes.trim() : null,
+    };
+
+    // Keep the take on this device and let the queue upload it later
+    const queueRecording = async (reason: string | null) => {
+      if (!onQueueRecording) return false;
+      try {
+        await onQueueRecording(params, reason);
+        clearRecording();
+        setQueuedNotice(true);
+        return true;
+      } catch (queueError) {
+        console.error('Error queueing recording:', queueError);
+        return false;
+      }
+    };
+
     try {
-      setIsUploading(true);
-      
-      // Generate unique filename
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-      const filename = `recording-${question.serial_number}-${timestamp}.webm`;
-      
-      // Upload to Supabase Storage
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from('recordings')
-        .upload(filename, audioBlob, {
-          contentType: 'audio/webm',
-        });
-
-      if (uploadError) throw uploadError;
-
-      // Get public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('recordings')
-        .getPublicUrl(uploadData.path);
-
-      // Save recording metadata to database
-      const { data: recordingData, error: dbError } = await supabase
-        .from('user_recordings')
-        .insert({
-          user_id: null, // Allow anonymous users
-          question_id: question.id,
-          audio_url: publicUrl,
-          duration: recordingState.duration,
-        })
-        .select()
-        .single();
-
-      if (dbError) throw dbError;
+      if (!navigator.onLine && await queueRecording('You were offline')) return;
+
+      const recordingData = await saveRecording(params);
 
       if (recordingData) {
         onRecordingComplete?.(recordingData);
@@ -107,7 +197,9 @@ export const AudioRecorder: React.FC<AudioRecorderProps> = ({
        
     } catch (error) {
       console.error('Error saving recording:', error);
-      alert('Failed to save recording. Please try again.');
+      if (!await queueRecording(error instanceof Error ? error.message : 'Upload failed')) {
+        alert('Failed to save recording. Please try again.');
+      }
     } finally {
       setIsUploading(false);
     }
@@ -117,7 +209,7 @@ export const AudioRecorder: React.FC<AudioRecorderProps> = ({
     if (recordingState.audioUrl) {
       const a = document.createElement('a');
       a.href = recordingState.audioUrl;
-      a.download = `ielts-recording-q${question.serial_number}.webm`;
+      a.download = `ielts-recording-q${question.serial_number}.${getAudioExtension(getAudioBlob()?.type ?? '')}`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -158,10 +250,21 @@ export const AudioRecorder: React.FC<AudioRecorderProps> = ({
             <div className="w-px h-8 bg-gray-300" />
             
             <div className="text-center">
-              <div className={`text-2xl font-mono font-bold ${getTimeRemaining() < 30 ? 'text-red-600' : 'text-gray-600'}`}>
-                {formatTime(getTimeRemaining())}
-              </div>
-              <div className="text-sm text-gray-600">Remaining</div>
+              {timingStatus === 'over-time' ? (
+                <>
+                  <div className="text-2xl font-mono font-bold text-red-600">
+                    +{formatTime(-getTimeRemaining())}
+                  </div>
+                  <div className="text-sm text-red-600">Over time</div>
+                </>
+              ) : (
+                <>
+                  <div className={`text-2xl font-mono font-bold ${timingStatus === 'past-target' ? 'text-amber-600' : 'text-gray-600'}`}>
+                    {formatTime(getTimeRemaining())}
+                  </div>
+                  <div className="text-sm text-gray-600">Remaining</div>
+                </>
+              )}
             </div>
           </div>
         </div>
@@ -169,38 +272,95 @@ export const AudioRecorder: React.FC<AudioRecorderProps> = ({
         {/* Progress Bar */}
         <div className="space-y-2">
           <div className="flex justify-between text-sm text-gray-600">
-            <span>Progress</span>
-            <span>{Math.round((recordingState.duration / timeLimit) * 100)}%</span>
+            <span>Min {formatTime(timing.min)} · Target {formatTime(timing.target)}</span>
+            <span>Max {formatTime(timing.max)}</span>
           </div>
-          <div className="w-full bg-gray-200 rounded-full h-2">
+          <div className="relative w-full bg-gray-200 rounded-full h-2">
             <div 
-              className={`h-2 rounded-full transition-all duration-300 ${
-                recordingState.duration >= timeLimit ? 'bg-red-500' : 'bg-blue-600'
-              }`}
-              style={{ width: `${Math.min((recordingState.duration / timeLimit) * 100, 100)}%` }}
+              className={`h-2 rounded-full transition-all duration-300 ${getStatusColor()}`}
+              style={{ width: barPosition(recordingState.duration) }}
             />
+            <div className="absolute -top-1 w-0.5 h-4 bg-gray-400" style={{ left: barPosition(timing.min) }} title="Minimum" />
+            <div className="absolute -top-1 w-0.5 h-4 bg-gray-700" style={{ left: barPosition(timing.target) }} title="Target" />
           </div>
+
+          {/* Timing Feedback */}
+          {hasTake && timingStatus === 'under-minimum' && (
+            recordingState.isRecording ? (
+              <p className="text-sm text-blue-700">Keep going: aim for at least {formatTime(timing.min)}.</p>
+            ) : (
+              <div className="flex items-center gap-2 bg-amber-50 border border-amber-200 text-amber-800 rounded-lg p-3 text-sm">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                This answer is {formatTime(recordingState.duration)}, short of the {formatTime(timing.min)} minimum for Part {question.part}.
+              </div>
+            )
+          )}
+          {hasTake && timingStatus === 'past-target' && recordingState.isRecording && (
+            <p className="text-sm text-amber-700">Past the target length: start wrapping up.</p>
+          )}
+          {hasTake && timingStatus === 'over-time' && (
+            <div className="flex items-center gap-2 bg-red-50 border border-red-200 text-red-800 rounded-lg p-3 text-sm">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              Over the {formatTime(timing.max)} maximum by {formatTime(-getTimeRemaining())}. In the exam the examiner would stop you here.
+            </div>
+          )}
         </div>
 
+        {/* Part 2 Preparation */}
+        {isPreparing && (
+          <PreparationPad
+            notes={prepNotes}
+            onNotesChange={setPrepNotes}
+            onComplete={handlePreparationComplete}
+          />
+        )}
+
+        {/* Preparation Notes */}
+        {isLongTurn && !isPreparing && prepNotes.trim() && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+            <div className="flex items-center gap-2 text-sm font-medium text-amber-900 mb-2">
+              <NotebookPen className="w-4 h-4" />
+              Your notes
+            </div>
+            <p className="text-sm text-amber-900 whitespace-pre-wrap">{prepNotes}</p>
+          </div>
+        )}
+
         {/* Recording Controls */}
         <div className="flex justify-center gap-4">
-          {!recordingState.isRecording ? (
+          {isPreparing ? null : isLongTurn && !recordingState.isRecording && !recordingState.audioUrl ? (
+            <button
+              onClick={() => setIsPreparing(true)}
+              className="flex items-center gap-3 px-6 py-3 bg-amber-500 hover:bg-amber-600 text-white rounded-lg font-semibold transition-colors"
+            >
+              <Hourglass className="w-5 h-5" />
+              Start 1-Minute Preparation
+            </button>
+          ) : !recordingState.isRecording ? (
             <button
               onClick={handleStartRecording}
-              disabled={recordingState.duration >= timeLimit}
-              className="flex items-center gap-3 px-6 py-3 bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white rounded-lg font-semibold transition-colors"
+              className="flex items-center gap-3 px-6 py-3 bg-red-600 hover:bg-red-700 text-white rounded-lg font-semibold transition-colors"
             >
               <Mic className="w-5 h-5" />
               Start Recording
             </button>
           ) : (
-            <button
-              onClick={stopRecording}
-              className="flex items-center gap-3 px-6 py-3 bg-gray-600 hover:bg-gray-700 text-white rounded-lg font-semibold transition-colors"
-            >
-              <MicOff className="w-5 h-5" />
-              Stop Recording
-            </button>
+            <>
+              <button
+                onClick={recordingState.isPaused ? resumeRecording : pauseRecording}
+                className="flex items-center gap-2 px-4 py-3 border border-gray-300 hover:bg-gray-50 text-gray-700 rounded-lg font-semibold transition-colors"
+              >
+                {recordingState.isPaused ? <Play className="w-5 h-5" /> : <Pause className="w-5 h-5" />}
+                {recordingState.isPaused ? 'Resume' : 'Pause'}
+              </button>
+              <button
+                onClick={stopRecording}
+                className="flex items-center gap-3 px-6 py-3 bg-gray-600 hover:bg-gray-700 text-white rounded-lg font-semibold transition-colors"
+              >
+                <MicOff className="w-5 h-5" />
+                Stop Recording
+              </button>
+            </>
           )}
 
           {recordingState.audioUrl && (
@@ -219,10 +379,57 @@ export const AudioRecorder: React.FC<AudioRecorderProps> = ({
           <div className="border-t border-gray-200 pt-6">
             <div className="flex flex-col items-center gap-4">
               <audio
+                ref={playbackRef}
                 controls
                 src={recordingState.audioUrl}
+                onTimeUpdate={handlePlaybackTimeUpdate}
                 className="w-full max-w-md"
               />
+
+              <div className="w-full max-w-md">
+                <Waveform
+                  peaks={waveform.peaks}
+                  duration={waveform.duration}
+                  currentTime={playbackTime}
+                  loading={waveform.loading}
+                  error={waveform.error}
+                  loop={loop}
+                  onLoopChange={handleLoopChange}
+                  keep={trimRange}
+                  onSeek={seekPlayback}
+                />
+              </div>
+
+              <div className="w-full max-w-md">
+                <HesitationTimeline
+                  events={hesitation.events}
+                  duration={hesitation.duration}
+                  currentTime={playbackTime}
+                  analysing={hesitation.analysing}
+                  error={hesitation.error}
+                  onSeek={seekPlayback}
+                />
+              </div>
+
+              {waveform.speechRange && (
+                <div className="text-center">
+                  <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={trimSilence}
+                      onChange={(e) => setTrimSilence(e.target.checked)}
+                      className="rounded border-gray-300"
+                    />
+                    Trim silence before saving ({waveform.speechRange.start.toFixed(1)}s at the start,{' '}
+                    {(waveform.duration - waveform.speechRange.end).toFixed(1)}s at the end)
+                  </label>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Trimmed takes are saved as WAV: about{' '}
+                    {formatSize(estimateWavSize(waveform.speechRange.end - waveform.speechRange.start))} instead of{' '}
+                    {formatSize(getUntrimmedSize())}.
+                  </p>
+                </div>
+              )}
               
               <div className="flex gap-3">
                 <button
@@ -246,13 +453,28 @@ export const AudioRecorder: React.FC<AudioRecorderProps> = ({
           </div>
         )}
 
+        {/* Upload Queue Notice */}
+        {queuedNotice && (
+          <div className="flex items-center gap-2 bg-amber-50 border border-amber-200 text-amber-800 rounded-lg p-3 text-sm">
+            <CloudOff className="w-4 h-4 flex-shrink-0" />
+            Couldn't upload just now, so the take is saved on this device. It will upload automatically when it can.
+          </div>
+        )}
+
         {/* Recording Status */}
         {recordingState.isRecording && (
           <div className="text-center">
-            <div className="inline-flex items-center gap-2 px-3 py-1 bg-red-100 text-red-800 rounded-full text-sm font-medium">
-              <div className="w-2 h-2 bg-red-600 rounded-full animate-pulse" />
-              Recording in progress...
-            </div>
+            {recordingState.isPaused ? (
+              <div className="inline-flex items-center gap-2 px-3 py-1 bg-amber-100 text-amber-800 rounded-full text-sm font-medium">
+                <div className="w-2 h-2 bg-amber-500 rounded-full" />
+                Recording paused
+              </div>
+            ) : (
+              <div className="inline-flex items-center gap-2 px-3 py-1 bg-red-100 text-red-800 rounded-full text-sm font-medium">
+                <div className="w-2 h-2 bg-red-600 rounded-full animate-pulse" />
+                Recording in progress...
+              </div>
+            )}
           </div>
         )}
       </div>
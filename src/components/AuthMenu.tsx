@@ -0,0 +1,173 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { LogIn, LogOut, Mail, UserCircle, X } from 'lucide-react';
+import { User } from '@supabase/supabase-js';
+
+interface AuthMenuProps {
+  user: User | null;
+  isGuest: boolean;
+  onSignIn: (email: string, password: string) => Promise<void>;
+  onSignUp: (email: string, password: string) => Promise<void>;
+  onSendMagicLink: (email: string) => Promise<void>;
+  onSignOut: () => Promise<void>;
+}
+
+export const AuthMenu: React.FC<AuthMenuProps> = ({
+  user,
+  isGuest,
+  onSignIn,
+  onSignUp,
+  onSendMagicLink,
+  onSignOut,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Handle click outside to close the panel
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const runAction = async (action: () => Promise<void>, successText?: string) => {
+    try {
+      setIsSubmitting(true);
+      setMessage(null);
+      await action();
+      if (successText) {
+        setMessage({ type: 'success', text: successText });
+      } else {
+        setIsOpen(false);
+        setPassword('');
+      }
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Something went wrong',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isGuest && user) {
+    return (
+      <div className="flex items-center gap-2">
+        <div className="hidden md:flex items-center gap-2 text-sm text-gray-600">
+          <UserCircle className="w-5 h-5" />
+          <span className="max-w-[12rem] truncate">{user.email}</span>
+        </div>
+        <button
+          onClick={() => runAction(onSignOut)}
+          disabled={isSubmitting}
+          className="flex items-center gap-2 px-3 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg text-sm font-medium transition-colors"
+          title="Sign out"
+        >
+          <LogOut className="w-4 h-4" />
+          Sign out
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-4 py-2 border border-gray-300 hover:bg-gray-50 text-gray-700 rounded-lg font-medium transition-colors"
+      >
+        <LogIn className="w-4 h-4" />
+        Sign in
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-80 bg-white border border-gray-200 rounded-xl shadow-lg z-50 p-5">
+          <div className="flex items-center justify-between mb-1">
+            <h3 className="font-semibold text-gray-900">Sign in to keep your recordings</h3>
+            <button
+              onClick={() => setIsOpen(false)}
+              className="p-1 text-gray-400 hover:text-gray-600 rounded"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <p className="text-sm text-gray-500 mb-4">
+            You are practising as a guest. Sign in to see your recordings on any device.
+          </p>
+
+          <div className="space-y-3">
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Email"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+            />
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && email && password && runAction(() => onSignIn(email, password))}
+              placeholder="Password"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+            />
+
+            <div className="flex gap-2">
+              <button
+                onClick={() => runAction(() => onSignIn(email, password))}
+                disabled={isSubmitting || !email || !password}
+                className="flex-1 px-3 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg text-sm font-medium transition-colors"
+              >
+                Sign in
+              </button>
+              <button
+                onClick={() => runAction(
+                  () => onSignUp(email, password),
+                  'Account created. Check your email to confirm it.'
+                )}
+                disabled={isSubmitting || !email || !password}
+                className="flex-1 px-3 py-2 border border-gray-300 hover:bg-gray-50 disabled:opacity-50 text-gray-700 rounded-lg text-sm font-medium transition-colors"
+              >
+                Create account
+              </button>
+            </div>
+
+            <div className="flex items-center gap-3 text-xs text-gray-400">
+              <div className="flex-1 h-px bg-gray-200" />
+              or
+              <div className="flex-1 h-px bg-gray-200" />
+            </div>
+
+            <button
+              onClick={() => runAction(
+                () => onSendMagicLink(email),
+                'Check your inbox for a sign-in link.'
+              )}
+              disabled={isSubmitting || !email}
+              className="w-full flex items-center justify-center gap-2 px-3 py-2 border border-gray-300 hover:bg-gray-50 disabled:opacity-50 text-gray-700 rounded-lg text-sm font-medium transition-colors"
+            >
+              <Mail className="w-4 h-4" />
+              Email me a magic link
+            </button>
+
+            {message && (
+              <p className={`text-sm ${message.type === 'error' ? 'text-red-600' : 'text-green-700'}`}>
+                {message.text}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
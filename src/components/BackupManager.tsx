@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { ArrowLeft, Download, Upload, CheckCircle, AlertCircle, Archive } from 'lucide-react';
+import { createBackup, restoreBackup, RestoreSummary } from '../lib/backup';
+
+interface BackupManagerProps {
+  userId: string | null;
+  canEditQuestions: boolean;
+  onBack: () => void;
+  onRestored: () => void;
+}
+
+export const BackupManager: React.FC<BackupManagerProps> = ({
+  userId,
+  canEditQuestions,
+  onBack,
+  onRestored,
+}) => {
+  const [includeRecordings, setIncludeRecordings] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [summary, setSummary] = useState<RestoreSummary | null>(null);
+
+  const handleExport = async () => {
+    try {
+      setIsExporting(true);
+      const archive = await createBackup(includeRecordings ? userId : null, setProgress);
+
+      const url = URL.createObjectURL(archive);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `ielts-backup-${new Date().toISOString().slice(0, 10)}.zip`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      alert('Failed to create backup. Please try again.');
+    } finally {
+      setIsExporting(false);
+      setProgress(null);
+    }
+  };
+
+  const handleRestore = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setIsRestoring(true);
+      setSummary(null);
+      setSummary(await restoreBackup(file, canEditQuestions, setProgress));
+      onRestored();
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      alert(`Failed to restore backup: ${error instanceof Error ? error.message : 'Unknown error occurred'}`);
+    } finally {
+      setIsRestoring(false);
+      setProgress(null);
+    }
+  };
+
+  const isBusy = isExporting || isRestoring;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={onBack}
+              disabled={isBusy}
+              className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 disabled:opacity-50 rounded-lg transition-colors"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back to Practice
+            </button>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Backup & Restore</h1>
+              <p className="text-gray-600">Take the question bank and your recordings with you</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-100">
+          <h3 className="font-semibold text-gray-900 mb-2">Export</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            Downloads a ZIP with every question as JSON (ready for the bulk importer) and as CSV, plus your recordings
+            and a manifest describing them.
+          </p>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={includeRecordings && !!userId}
+                onChange={(e) => setIncludeRecordings(e.target.checked)}
+                disabled={!userId || isBusy}
+                className="rounded border-gray-300"
+              />
+              Include my recordings
+            </label>
+            <button
+              onClick={handleExport}
+              disabled={isBusy}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg font-medium transition-colors"
+            >
+              <Download className="w-4 h-4" />
+              {isExporting ? 'Exporting...' : 'Download Backup'}
+            </button>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-100">
+          <h3 className="font-semibold text-gray-900 mb-2">Restore</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            Restores a backup into this project. Questions that already exist are reused, and recordings that were
+            restored before are skipped, so it is safe to run again.
+            {!canEditQuestions && ' Only editors can restore questions that are missing here.'}
+          </p>
+          <div className="flex justify-end">
+            <label
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors ${
+                isBusy ? 'bg-gray-400 text-white cursor-not-allowed' : 'bg-green-600 hover:bg-green-700 text-white cursor-pointer'
+              }`}
+            >
+              <Upload className="w-4 h-4" />
+              {isRestoring ? 'Restoring...' : 'Choose Backup File'}
+              <input type="file" accept=".zip" onChange={handleRestore} disabled={isBusy} className="hidden" />
+            </label>
+          </div>
+        </div>
+
+        {progress && (
+          <div className="flex items-center gap-3 bg-blue-50 border border-blue-200 rounded-xl p-4 text-sm text-blue-900">
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+            {progress}
+          </div>
+        )}
+
+        {summary && (
+          <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-100">
+            <h3 className="flex items-center gap-2 font-semibold text-gray-900 mb-4">
+              <Archive className="w-5 h-5 text-gray-500" />
+              Restore Results
+            </h3>
+            <div className="p-4 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800 mb-4">
+              <div className="flex items-center gap-2 font-medium mb-1">
+                <CheckCircle className="w-5 h-5" />
+                Restore finished
+              </div>
+              <p>
+                {summary.questionsCreated} questions added, {summary.questionsMatched} already present ·{' '}
+                {summary.recordingsRestored} recordings restored, {summary.recordingsSkipped} skipped
+              </p>
+            </div>
+            {summary.errors.length > 0 && (
+              <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+                <div className="flex items-center gap-2 text-red-800 mb-2">
+                  <AlertCircle className="w-5 h-5" />
+                  <span className="font-medium">Some items were not restored:</span>
+                </div>
+                <div className="space-y-1">
+                  {summary.errors.map((error, index) => (
+                    <div key={index} className="text-sm text-red-700">• {error}</div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import React from 'react';
+import { RecordingAssessment } from '../types';
+
+interface BandScorePanelProps {
+  assessment: RecordingAssessment;
+}
+
+const CRITERIA: Array<{ key: 'fluency_coherence' | 'lexical_resource' | 'grammatical_range' | 'pronunciation'; label: string }> = [
+  { key: 'fluency_coherence', label: 'Fluency & Coherence' },
+  { key: 'lexical_resource', label: 'Lexical Resource' },
+  { key: 'grammatical_range', label: 'Grammatical Range & Accuracy' },
+  { key: 'pronunciation', label: 'Pronunciation' },
+];
+
+const getBandColor = (band: number) => {
+  if (band >= 7) return 'bg-green-100 text-green-800';
+  if (band >= 5.5) return 'bg-blue-100 text-blue-800';
+  return 'bg-amber-100 text-amber-800';
+};
+
+export const BandScorePanel: React.FC<BandScorePanelProps> = ({ assessment }) => {
+  return (
+    <div className="space-y-3">
+      {CRITERIA.map(({ key, label }) => (
+        <div key={key}>
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-sm font-medium text-gray-900">{label}</span>
+            <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${getBandColor(assessment[key].band)}`}>
+              {assessment[key].band.toFixed(1)}
+            </span>
+          </div>
+          <ul className="text-xs text-gray-600 space-y-0.5 list-disc pl-4">
+            {assessment[key].evidence.map((line, index) => (
+              <li key={index}>{line}</li>
+            ))}
+          </ul>
+        </div>
+      ))}
+      <p className="text-xs text-gray-400 italic">
+        Automatic estimate from the transcript. An examiner's score may differ.
+      </p>
+    </div>
+  );
+};
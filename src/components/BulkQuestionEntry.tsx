@@ -1,21 +1,63 @@
-import React, { useState } from 'react';
-import { Upload, FileText, CheckCircle, AlertCircle, ArrowLeft, Plus, Edit3 } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { Upload, FileText, CheckCircle, AlertCircle, ArrowLeft, Plus, Edit3, Eye } from 'lucide-react';
 import { supabase } from '../lib/supabase';
-
-interface QuestionData {
-  part: string;
-  q_a: Array<{
-    q: string;
-    a: string;
-  }>;
-}
+import { createQuestionSet, deleteQuestionSet } from '../lib/questionSets';
+import { parseCueCard } from '../lib/cueCard';
+import { classifyQuestion } from '../lib/categories';
+import { useCategories } from '../hooks/useCategories';
+import { TimingProfiles } from '../lib/timing';
+import {
+  ColumnMapping,
+  detectImportFormat,
+  guessColumnMapping,
+  IMPORT_FORMATS,
+  ImportFormat,
+  ImportRow,
+  ParsedImport,
+  parseDelimited,
+  parseJsonImport,
+  parseMarkdownImport,
+  rowsFromTable,
+} from '../lib/questionImport';
+import {
+  checkImportRows,
+  defaultResolution,
+  fetchExistingQuestions,
+  ImportCheck,
+  ImportResolution,
+  ImportRowResult,
+} from '../lib/importValidation';
+import { acceptedVocabulary, suggestKeyVocabulary, VocabularySuggestion } from '../lib/vocabularyExtractor';
+import { ImportColumnMapper } from './ImportColumnMapper';
+import { ImportPreviewTable } from './ImportPreviewTable';
+import { ImportResults } from './ImportResults';
+import { VocabularySuggestions } from './VocabularySuggestions';
 
 interface BulkQuestionEntryProps {
+  timingProfiles: TimingProfiles;
   onBack: () => void;
 }
 
-export const BulkQuestionEntry: React.FC<BulkQuestionEntryProps> = ({ onBack }) => {
-  const [jsonInput, setJsonInput] = useState('');
+export const BulkQuestionEntry: React.FC<BulkQuestionEntryProps> = ({ timingProfiles, onBack }) => {
+  const { categories } = useCategories();
+  const [importText, setImportText] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  // null follows autodetection
+  const [formatOverride, setFormatOverride] = useState<ImportFormat | null>(null);
+  const [hasHeader, setHasHeader] = useState(true);
+  // null uses the mapping guessed from the header row
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping | null>(null);
+  const [defaultPart, setDefaultPart] = useState('');
+  // Dry-run of the current import: parsed rows, their checks and what to do with each
+  const [preview, setPreview] = useState<{
+    set: ParsedImport['set'];
+    checks: ImportCheck[];
+    resolutions: Record<number, ImportResolution>;
+    // Vocabulary suggestions and the editor's decisions for rows without their own vocabulary
+    suggestions: Record<number, VocabularySuggestion[]>;
+    vocabularyDecisions: Record<number, Record<string, boolean>>;
+  } | null>(null);
+  const [importResults, setImportResults] = useState<ImportRowResult[] | null>(null);
   const [activeTab, setActiveTab] = useState<'single' | 'bulk'>('single');
   const [isProcessing, setIsProcessing] = useState(false);
   
@@ -25,6 +67,8 @@ export const BulkQuestionEntry: React.FC<BulkQuestionEntryProps> = ({ onBack })
     question: '',
     answer: ''
   });
+  const [vocabularyDecisions, setVocabularyDecisions] = useState<Record<string, boolean>>({});
+  const vocabularySuggestions = useMemo(() => suggestKeyVocabulary(singleQuestion.answer), [singleQuestion.answer]);
   
   const [results, setResults] = useState<{
     success: number;
@@ -32,38 +76,11 @@ export const BulkQuestionEntry: React.FC<BulkQuestionEntryProps> = ({ onBack })
     insertedQuestions: Array<{ serial_number: number; question: string }>;
   } | null>(null);
 
-  const extractKeyVocabulary = (answer: string): string[] => {
-    // Simple extraction of potential key vocabulary
-    const words = answer.toLowerCase().match(/\b\w{4,}\b/g) || [];
-    const uniqueWords = [...new Set(words)];
-    return uniqueWords.slice(0, 8); // Limit to 8 key words
-  };
-
-  const getTimeLimit = (part: number): number => {
-    switch (part) {
-      case 1: return 90; // 1.5 minutes
-      case 2: return 120; // 2 minutes
-      case 3: return 150; // 2.5 minutes
-      default: return 120;
-    }
-  };
-
-  const getCategoryFromQuestion = (question: string, part: number): string => {
-    const lowerQ = question.toLowerCase();
-    
-    if (part === 1) {
-      if (lowerQ.includes('hometown') || lowerQ.includes('where')) return 'Hometown';
-      if (lowerQ.includes('work') || lowerQ.includes('job')) return 'Work/Study';
-      if (lowerQ.includes('family')) return 'Family';
-      if (lowerQ.includes('hobby') || lowerQ.includes('free time')) return 'Hobbies';
-      if (lowerQ.includes('food')) return 'Food';
-      if (lowerQ.includes('travel')) return 'Travel';
-      return 'General';
-    } else if (part === 2) {
-      return 'Long Turn';
-    } else {
-      return 'Discussion';
-    }
+  // Part 2 questions are stored with their cue card split into topic and prompts
+  const getCueCardFields = (question: string, part: number) => {
+    if (part !== 2) return { cue_card_topic: null, cue_card_prompts: [] };
+    const { topic, prompts } = parseCueCard(question.trim());
+    return { cue_card_topic: topic, cue_card_prompts: prompts };
   };
 
   const getNextSerialNumber = async (): Promise<number> => {
@@ -98,11 +115,13 @@ export const BulkQuestionEntry: React.FC<BulkQuestionEntryProps> = ({ onBack })
       const questionData = {
         serial_number: currentSerialNumber,
         part: part,
-        category: getCategoryFromQuestion(singleQuestion.question, part),
+        category: classifyQuestion(singleQuestion.question, categories, singleQuestion.answer).category,
         question: singleQuestion.question.trim(),
         sample_answer: singleQuestion.answer.trim(),
-        key_vocabulary: extractKeyVocabulary(singleQuestion.answer),
-        time_limit: getTimeLimit(part)
+        key_vocabulary: acceptedVocabulary(vocabularySuggestions, vocabularyDecisions),
+        // Timing follows the part's profile until an editor overrides it
+        time_limit: null,
+        ...getCueCardFields(singleQuestion.question, part),
       };
 
       const { data: insertedData, error } = await supabase
@@ -127,6 +146,7 @@ export const BulkQuestionEntry: React.FC<BulkQuestionEntryProps> = ({ onBack })
         question: '',
         answer: ''
       });
+      setVocabularyDecisions({});
 
     } catch (error) {
       console.error('Error adding question:', error);
@@ -140,72 +160,210 @@ export const BulkQuestionEntry: React.FC<BulkQuestionEntryProps> = ({ onBack })
     }
   };
 
-  const handleSubmit = async () => {
-    if (!jsonInput.trim()) {
+  const detectedFormat = detectImportFormat(importText, fileName);
+  const importFormat = formatOverride ?? detectedFormat;
+  const isTabular = importFormat === 'csv' || importFormat === 'tsv';
+
+  const table = useMemo(
+    () => isTabular ? parseDelimited(importText, importFormat === 'csv' ? ',' : '\t') : [],
+    [importText, importFormat, isTabular]
+  );
+  const headers = table[0] ?? [];
+  const mapping = columnMapping ?? guessColumnMapping(hasHeader ? headers : []);
+  const isMappingComplete = mapping.question !== null && mapping.answer !== null;
+
+  // Any change to the source means the preview no longer matches it
+  const changeImport = (apply: () => void) => {
+    apply();
+    setPreview(null);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      changeImport(() => {
+        setImportText(text);
+        setFileName(file.name);
+        setFormatOverride(null);
+        setColumnMapping(null);
+      });
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      alert('Failed to read the file. Please try again.');
+    }
+  };
+
+  const rowCategory = (row: ImportRow) => row.category ?? classifyQuestion(row.question, categories, row.answer).category;
+  const rowKeyVocabulary = (row: ImportRow) =>
+    row.keyVocabulary ?? acceptedVocabulary(preview?.suggestions[row.line] ?? [], preview?.vocabularyDecisions[row.line] ?? {});
+  const rowTimeLimit = (row: ImportRow) =>
+    row.timeLimit ?? (row.part === 1 || row.part === 2 || row.part === 3 ? timingProfiles[row.part].max : 0);
+
+  const handlePreview = async () => {
+    setResults(null);
+    setImportResults(null);
+    setIsProcessing(true);
+
+    try {
+      const parsed: ParsedImport = importFormat === 'json'
+        ? parseJsonImport(importText)
+        : {
+          rows: importFormat === 'markdown'
+            ? parseMarkdownImport(importText)
+            : rowsFromTable(table, mapping, hasHeader),
+          set: null,
+        };
+
+      if (parsed.rows.length === 0) {
+        throw new Error('No questions found. Check the format and column mapping.');
+      }
+
+      const fallbackPart = defaultPart ? parseInt(defaultPart) : null;
+      const rows = parsed.rows.map(row => ({ ...row, part: row.part ?? fallbackPart }));
+      const checks = checkImportRows(rows, await fetchExistingQuestions());
+
+      setPreview({
+        set: parsed.set,
+        checks,
+        resolutions: Object.fromEntries(checks.map(check => [check.row.line, defaultResolution(check)])),
+        suggestions: Object.fromEntries(
+          rows.filter(row => !row.keyVocabulary).map(row => [row.line, suggestKeyVocabulary(row.answer)])
+        ),
+        vocabularyDecisions: {},
+      });
+    } catch (error) {
+      console.error('Error previewing import:', error);
+      setPreview(null);
       setResults({
         success: 0,
-        errors: ['Please enter JSON data'],
+        errors: [error instanceof Error ? error.message : 'Could not read the import data'],
         insertedQuestions: []
       });
-      return;
+    } finally {
+      setIsProcessing(false);
     }
+  };
+
+  const setResolution = (line: number, resolution: ImportResolution) => {
+    setPreview(prev => prev && { ...prev, resolutions: { ...prev.resolutions, [line]: resolution } });
+  };
+
+  const setRowVocabularyDecisions = (line: number, decisions: Record<string, boolean>) => {
+    setPreview(prev => prev && { ...prev, vocabularyDecisions: { ...prev.vocabularyDecisions, [line]: decisions } });
+  };
+
+  // Applies one choice to every row flagged as a duplicate
+  const resolveDuplicates = (resolution: 'skip' | 'overwrite') => {
+    setPreview(prev => {
+      if (!prev) return prev;
+      const resolutions = { ...prev.resolutions };
+      for (const check of prev.checks) {
+        if (check.problems.length > 0) continue;
+        if (resolution === 'overwrite' && check.duplicate) resolutions[check.row.line] = 'overwrite';
+        if (resolution === 'skip' && (check.duplicate || check.duplicateOfLine !== null)) resolutions[check.row.line] = 'skip';
+      }
+      return { ...prev, resolutions };
+    });
+  };
+
+  const getSkipReason = (check: ImportCheck) => {
+    if (check.problems.length > 0) return check.problems.join(', ');
+    if (check.duplicate) return `Similar to existing question #${check.duplicate.question.serial_number}`;
+    if (check.duplicateOfLine !== null) return `Repeats row ${check.duplicateOfLine}`;
+    return 'Skipped';
+  };
+
+  /**
+   * Writes the accepted rows one at a time so a failing row is reported
+   * on its own instead of aborting the rest of the import.
+   */
+  const handleSubmit = async () => {
+    if (!preview) return;
 
     setIsProcessing(true);
     setResults(null);
 
+    const rowResults: ImportRowResult[] = [];
+    let createdSetId: string | null = null;
+
     try {
-      const data: QuestionData = JSON.parse(jsonInput);
-      
-      if (!data.part || !data.q_a || !Array.isArray(data.q_a)) {
-        throw new Error('Invalid JSON format. Expected format: {"part":"1", "q_a":[{"q":"question", "a":"answer"}]}');
-      }
+      let currentSerialNumber = await getNextSerialNumber();
 
-      const part = parseInt(data.part);
-      if (![1, 2, 3].includes(part)) {
-        throw new Error('Part must be 1, 2, or 3');
+      const hasAcceptedRows = preview.checks.some(check => preview.resolutions[check.row.line] !== 'skip');
+      if (preview.set && hasAcceptedRows) {
+        const questionSet = await createQuestionSet(preview.set);
+        createdSetId = questionSet.id;
       }
 
-      let currentSerialNumber = await getNextSerialNumber();
-      const questionsToInsert = [];
-      const insertedQuestions = [];
+      for (const check of preview.checks) {
+        const { row, duplicate } = check;
+        const resolution = preview.resolutions[row.line] ?? 'skip';
 
-      for (const qa of data.q_a) {
-        if (!qa.q || !qa.a) {
-          throw new Error('Each question must have both "q" (question) and "a" (answer) fields');
+        if (resolution === 'skip' || check.problems.length > 0) {
+          rowResults.push({ line: row.line, question: row.question, status: 'skipped', serialNumber: null, message: getSkipReason(check) });
+          continue;
         }
 
+        const part = row.part ?? 0;
         const questionData = {
-          serial_number: currentSerialNumber,
           part: part,
-          category: getCategoryFromQuestion(qa.q, part),
-          question: qa.q.trim(),
-          sample_answer: qa.a.trim(),
-          key_vocabulary: extractKeyVocabulary(qa.a),
-          time_limit: getTimeLimit(part)
+          category: rowCategory(row),
+          question: row.question,
+          sample_answer: row.answer,
+          key_vocabulary: rowKeyVocabulary(row),
+          time_limit: row.timeLimit,
+          ...getCueCardFields(row.question, part),
         };
 
-        questionsToInsert.push(questionData);
-        insertedQuestions.push({
-          serial_number: currentSerialNumber,
-          question: qa.q.trim()
-        });
-        currentSerialNumber++;
+        try {
+          if (resolution === 'overwrite' && duplicate) {
+            // Updating in place keeps the serial number and any recordings of the old question
+            const { error } = await supabase
+              .from('ielts_questions')
+              .update({ ...questionData, question_set_id: createdSetId ?? duplicate.question.question_set_id })
+              .eq('id', duplicate.question.id);
+
+            if (error) throw error;
+
+            rowResults.push({ line: row.line, question: row.question, status: 'updated', serialNumber: duplicate.question.serial_number, message: null });
+          } else {
+            const { error } = await supabase
+              .from('ielts_questions')
+              .insert({ ...questionData, serial_number: currentSerialNumber, question_set_id: createdSetId });
+
+            if (error) throw error;
+
+            rowResults.push({ line: row.line, question: row.question, status: 'inserted', serialNumber: currentSerialNumber, message: null });
+            currentSerialNumber++;
+          }
+        } catch (error) {
+          console.error(`Error importing row ${row.line}:`, error);
+          rowResults.push({
+            line: row.line,
+            question: row.question,
+            status: 'failed',
+            serialNumber: null,
+            message: error instanceof Error ? error.message : 'Unknown error occurred',
+          });
+        }
       }
 
-      const { data: insertedData, error } = await supabase
-        .from('ielts_questions')
-        .insert(questionsToInsert)
-        .select('serial_number, question');
-
-      if (error) throw error;
-
-      setResults({
-        success: questionsToInsert.length,
-        errors: [],
-        insertedQuestions: insertedQuestions
-      });
+      setImportResults(rowResults);
 
-      setJsonInput(''); // Clear the input after successful insertion
+      // Keep the input around for fixing and retrying rows that failed
+      if (!rowResults.some(result => result.status === 'failed')) {
+        changeImport(() => {
+          setImportText('');
+          setFileName(null);
+          setColumnMapping(null);
+        });
+      } else {
+        setPreview(null);
+      }
 
     } catch (error) {
       console.error('Error processing questions:', error);
@@ -215,10 +373,21 @@ export const BulkQuestionEntry: React.FC<BulkQuestionEntryProps> = ({ onBack })
         insertedQuestions: []
       });
     } finally {
+      // Don't leave an empty set behind when none of its questions were written
+      if (createdSetId && !rowResults.some(result => result.status === 'inserted' || result.status === 'updated')) {
+        await deleteQuestionSet(createdSetId).catch(err => console.error('Error removing question set:', err));
+      }
       setIsProcessing(false);
     }
   };
 
+  const acceptedCount = preview
+    ? preview.checks.filter(check => check.problems.length === 0 && preview.resolutions[check.row.line] !== 'skip').length
+    : 0;
+  const duplicateCount = preview
+    ? preview.checks.filter(check => check.problems.length === 0 && (check.duplicate || check.duplicateOfLine !== null)).length
+    : 0;
+
   const exampleJson = `{
   "part": "1",
   "q_a": [
@@ -233,6 +402,39 @@ export const BulkQuestionEntry: React.FC<BulkQuestionEntryProps> = ({ onBack })
   ]
 }`;
 
+  const exampleSetJson = `{
+  "set": { "title": "A journey you remember" },
+  "parts": [
+    {
+      "part": "2",
+      "q_a": [{ "q": "Describe a journey you remember well. You should say...", "a": "..." }]
+    },
+    {
+      "part": "3",
+      "q_a": [
+        { "q": "Why do people enjoy travelling?", "a": "..." },
+        { "q": "How has tourism changed in your country?", "a": "..." }
+      ]
+    }
+  ]
+}`;
+
+  const exampleCsv = `part,question,sample answer,category,vocabulary,time limit
+1,Where is your hometown?,"I'm from Beijing, the capital city of China...",Hometown,bustling metropolis; rich history,1:30
+3,Why do people enjoy travelling?,"I think travel broadens the mind...",,,`;
+
+  const exampleMarkdown = `# Part 1 – Hometown
+
+## Where is your hometown?
+I'm from Beijing, the capital city of China...
+Vocabulary: bustling metropolis, rich history
+
+# Part 2
+
+## Describe a journey you remember well. You should say: where you went, ...
+Last summer I took the train across...
+Time limit: 2:00`;
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -284,7 +486,7 @@ export const BulkQuestionEntry: React.FC<BulkQuestionEntryProps> = ({ onBack })
                 >
                   <div className="flex items-center gap-2">
                     <Upload className="w-4 h-4" />
-                    Bulk JSON Import
+                    Bulk Import
                   </div>
                 </button>
               </nav>
@@ -299,22 +501,29 @@ export const BulkQuestionEntry: React.FC<BulkQuestionEntryProps> = ({ onBack })
                 <p>Add individual IELTS questions using the form below. The system will automatically:</p>
                 <ul className="list-disc list-inside ml-4 space-y-1">
                   <li>Assign the next available serial number</li>
-                  <li>Extract key vocabulary from the answer</li>
-                  <li>Set appropriate time limits based on part number</li>
-                  <li>Categorize the question automatically</li>
+                  <li>Suggest key vocabulary from the answer, ranked by how worth learning it is, to accept or reject</li>
+                  <li>Time answers with the timing profile of the part, which can be overridden per question later</li>
+                  <li>Categorize the question by matching it against the category keywords</li>
+                  <li>Split Part 2 cue cards into a topic and bullet prompts</li>
                 </ul>
               </div>
             </div>
           ) : (
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-6">
-              <h2 className="font-semibold text-blue-900 mb-3">📝 Bulk JSON Import</h2>
+              <h2 className="font-semibold text-blue-900 mb-3">📝 Bulk Import</h2>
               <div className="text-blue-800 space-y-2">
-                <p>Paste your JSON data in the format shown below. The system will automatically:</p>
+                <p>
+                  Paste or upload JSON, CSV, TSV (cells copied from a spreadsheet) or Markdown. The format is detected
+                  automatically and every row is checked in a preview before anything is written, where questions that
+                  look like ones already in the bank can be skipped or overwritten. Rows may carry their own part,
+                  category, vocabulary and time limit; otherwise the system will automatically:
+                </p>
                 <ul className="list-disc list-inside ml-4 space-y-1">
                   <li>Assign auto-incrementing serial numbers</li>
-                  <li>Extract key vocabulary from answers</li>
-                  <li>Set appropriate time limits based on part number</li>
-                  <li>Categorize questions automatically</li>
+                  <li>Suggest key vocabulary from answers, which can be accepted or rejected per row in the preview</li>
+                  <li>Time answers with the timing profile of the part unless a row sets its own time limit</li>
+                  <li>Categorize questions by matching them against the category keywords</li>
+                  <li>Split Part 2 cue cards into a topic and bullet prompts</li>
                 </ul>
               </div>
             </div>
@@ -370,6 +579,20 @@ export const BulkQuestionEntry: React.FC<BulkQuestionEntryProps> = ({ onBack })
                   />
                 </div>
 
+                {/* Key Vocabulary */}
+                {singleQuestion.answer.trim() && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Key Vocabulary
+                    </label>
+                    <VocabularySuggestions
+                      suggestions={vocabularySuggestions}
+                      decisions={vocabularyDecisions}
+                      onChange={setVocabularyDecisions}
+                    />
+                  </div>
+                )}
+
                 {/* Submit Button */}
                 <div className="flex justify-end">
                   <button
@@ -393,31 +616,164 @@ export const BulkQuestionEntry: React.FC<BulkQuestionEntryProps> = ({ onBack })
               </div>
             </div>
           ) : (
-            /* Bulk JSON Import */
+            /* Bulk Import */
             <>
               {/* Example Format */}
               <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-100">
-                <h3 className="font-semibold text-gray-900 mb-4">Example JSON Format:</h3>
-                <pre className="bg-gray-50 p-4 rounded-lg text-sm overflow-x-auto border">
-                  <code>{exampleJson}</code>
-                </pre>
+                {importFormat === 'json' ? (
+                  <>
+                    <h3 className="font-semibold text-gray-900 mb-4">Example JSON Format:</h3>
+                    <pre className="bg-gray-50 p-4 rounded-lg text-sm overflow-x-auto border">
+                      <code>{exampleJson}</code>
+                    </pre>
+
+                    <h3 className="font-semibold text-gray-900 mt-6 mb-2">Question Set Format:</h3>
+                    <p className="text-sm text-gray-600 mb-4">
+                      Import a cue card together with its Part 3 follow-up questions. They are linked as a question set.
+                    </p>
+                    <pre className="bg-gray-50 p-4 rounded-lg text-sm overflow-x-auto border">
+                      <code>{exampleSetJson}</code>
+                    </pre>
+                  </>
+                ) : importFormat === 'markdown' ? (
+                  <>
+                    <h3 className="font-semibold text-gray-900 mb-2">Example Markdown Format:</h3>
+                    <p className="text-sm text-gray-600 mb-4">
+                      "Part N" headings set the part (and optionally the category) for the questions below them. Every other
+                      heading is a question, and the text under it is the sample answer. Use "Category:", "Vocabulary:" and
+                      "Time limit:" lines to override a single question.
+                    </p>
+                    <pre className="bg-gray-50 p-4 rounded-lg text-sm overflow-x-auto border">
+                      <code>{exampleMarkdown}</code>
+                    </pre>
+                  </>
+                ) : (
+                  <>
+                    <h3 className="font-semibold text-gray-900 mb-2">Example CSV / TSV Format:</h3>
+                    <p className="text-sm text-gray-600 mb-4">
+                      One question per row. Columns are matched by their header names, and you can change the mapping below.
+                      Separate vocabulary terms with semicolons. Cells copied from a spreadsheet are tab-separated and work the same way.
+                    </p>
+                    <pre className="bg-gray-50 p-4 rounded-lg text-sm overflow-x-auto border">
+                      <code>{exampleCsv}</code>
+                    </pre>
+                  </>
+                )}
               </div>
 
               {/* Input Form */}
               <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-100">
-                <h3 className="font-semibold text-gray-900 mb-4">Enter Your JSON Data:</h3>
+                <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                  <h3 className="font-semibold text-gray-900">Enter Your Questions:</h3>
+                  <div className="flex items-center gap-3">
+                    <select
+                      value={formatOverride ?? ''}
+                      onChange={(e) => changeImport(() => setFormatOverride((e.target.value || null) as ImportFormat | null))}
+                      className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="">
+                        Auto-detect ({IMPORT_FORMATS.find(f => f.format === detectedFormat)?.label})
+                      </option>
+                      {IMPORT_FORMATS.map(({ format, label }) => (
+                        <option key={format} value={format}>{label}</option>
+                      ))}
+                    </select>
+                    <label className="flex items-center gap-2 px-3 py-2 border border-gray-300 hover:bg-gray-50 text-gray-700 rounded-lg text-sm font-medium cursor-pointer transition-colors">
+                      <FileText className="w-4 h-4" />
+                      Upload file
+                      <input
+                        type="file"
+                        accept=".json,.csv,.tsv,.tab,.txt,.md,.markdown"
+                        onChange={handleFileChange}
+                        className="hidden"
+                      />
+                    </label>
+                  </div>
+                </div>
+
                 <div className="space-y-4">
+                  {fileName && (
+                    <p className="text-sm text-gray-600">Loaded <span className="font-medium">{fileName}</span></p>
+                  )}
                   <textarea
-                    value={jsonInput}
-                    onChange={(e) => setJsonInput(e.target.value)}
-                    placeholder="Paste your JSON data here..."
+                    value={importText}
+                    onChange={(e) => changeImport(() => {
+                      setImportText(e.target.value);
+                      if (!e.target.value) setFileName(null);
+                    })}
+                    placeholder="Paste JSON, CSV, spreadsheet cells or Markdown here..."
                     className="w-full h-64 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
                   />
-                  
-                  <div className="flex justify-end">
+
+                  {isTabular && table.length > 0 && (
+                    <ImportColumnMapper
+                      headers={headers}
+                      mapping={mapping}
+                      hasHeader={hasHeader}
+                      onMappingChange={(next) => changeImport(() => setColumnMapping(next))}
+                      onHasHeaderChange={(next) => changeImport(() => setHasHeader(next))}
+                    />
+                  )}
+
+                  <div className="flex flex-wrap items-center justify-between gap-4">
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      Part for rows without one
+                      <select
+                        value={defaultPart}
+                        onChange={(e) => changeImport(() => setDefaultPart(e.target.value))}
+                        className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        <option value="">None (skip row)</option>
+                        <option value="1">Part 1</option>
+                        <option value="2">Part 2</option>
+                        <option value="3">Part 3</option>
+                      </select>
+                    </label>
+
+                    <button
+                      onClick={handlePreview}
+                      disabled={isProcessing || !importText.trim() || (isTabular && !isMappingComplete)}
+                      className="flex items-center gap-2 px-6 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg font-medium transition-colors"
+                    >
+                      <Eye className="w-4 h-4" />
+                      Preview
+                    </button>
+                  </div>
+                </div>
+              </div>
+
+              {/* Preview */}
+              {preview && (
+                <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-100">
+                  <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                    <div>
+                      <h3 className="font-semibold text-gray-900">Preview</h3>
+                      <p className="text-sm text-gray-600">
+                        {acceptedCount} of {preview.checks.length} rows will be imported
+                        {preview.set ? ` as the question set “${preview.set.title}”` : ''}.
+                        Grey values are filled in automatically.
+                      </p>
+                      {duplicateCount > 0 && (
+                        <div className="flex items-center gap-2 mt-2 text-sm">
+                          <span className="text-amber-800">{duplicateCount} possible duplicate{duplicateCount === 1 ? '' : 's'}:</span>
+                          <button
+                            onClick={() => resolveDuplicates('skip')}
+                            className="px-2 py-0.5 text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded transition-colors"
+                          >
+                            Skip all
+                          </button>
+                          <button
+                            onClick={() => resolveDuplicates('overwrite')}
+                            className="px-2 py-0.5 text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded transition-colors"
+                          >
+                            Overwrite all
+                          </button>
+                        </div>
+                      )}
+                    </div>
                     <button
                       onClick={handleSubmit}
-                      disabled={isProcessing || !jsonInput.trim()}
+                      disabled={isProcessing || acceptedCount === 0}
                       className="flex items-center gap-2 px-6 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg font-medium transition-colors"
                     >
                       {isProcessing ? (
@@ -428,13 +784,26 @@ export const BulkQuestionEntry: React.FC<BulkQuestionEntryProps> = ({ onBack })
                       ) : (
                         <>
                           <Upload className="w-4 h-4" />
-                          Insert Questions
+                          Import {acceptedCount} Question{acceptedCount === 1 ? '' : 's'}
                         </>
                       )}
                     </button>
                   </div>
+                  <ImportPreviewTable
+                    checks={preview.checks}
+                    resolutions={preview.resolutions}
+                    onResolutionChange={setResolution}
+                    getCategory={rowCategory}
+                    getKeyVocabulary={rowKeyVocabulary}
+                    getTimeLimit={rowTimeLimit}
+                    vocabularySuggestions={preview.suggestions}
+                    vocabularyDecisions={preview.vocabularyDecisions}
+                    onVocabularyChange={setRowVocabularyDecisions}
+                  />
                 </div>
-              </div>
+              )}
+
+              {importResults && <ImportResults results={importResults} />}
             </>
           )}
 
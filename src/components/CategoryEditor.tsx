@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Save, X } from 'lucide-react';
+import { CategoryInput } from '../lib/categories';
+import { QuestionCategory } from '../types';
+
+interface CategoryEditorProps {
+  category: QuestionCategory | null;
+  onSave: (input: CategoryInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+export const CategoryEditor: React.FC<CategoryEditorProps> = ({ category, onSave, onCancel }) => {
+  const [name, setName] = useState(category?.name ?? '');
+  const [keywords, setKeywords] = useState(category?.keywords.join(', ') ?? '');
+  const [synonyms, setSynonyms] = useState(category?.synonyms.join(', ') ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Comma- or line-separated, lower-cased and without repeats
+  const parseTerms = (text: string) =>
+    [...new Set(text.split(/[,\n]/).map(term => term.trim().toLowerCase()).filter(Boolean))];
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      await onSave({ name: name.trim(), keywords: parseTerms(keywords), synonyms: parseTerms(synonyms) });
+    } catch (error) {
+      console.error('Error saving category:', error);
+      alert(`Failed to save category: ${error instanceof Error ? error.message : 'Unknown error occurred'}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g. Technology"
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        {category && name.trim() !== category.name && name.trim() && (
+          <p className="text-xs text-gray-500 mt-1">Questions in “{category.name}” will move to the new name.</p>
+        )}
+      </div>
+      <div className="grid md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Keywords</label>
+          <textarea
+            value={keywords}
+            onChange={(e) => setKeywords(e.target.value)}
+            placeholder="technology, internet, social media"
+            rows={3}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-vertical"
+          />
+          <p className="text-xs text-gray-500 mt-1">Words and phrases that clearly mark the topic</p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Synonyms</label>
+          <textarea
+            value={synonyms}
+            onChange={(e) => setSynonyms(e.target.value)}
+            placeholder="website, device, gadget"
+            rows={3}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-vertical"
+          />
+          <p className="text-xs text-gray-500 mt-1">Related words that count for half as much</p>
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="flex items-center gap-2 px-3 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+        >
+          <X className="w-4 h-4" />
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !name.trim()}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-lg transition-colors"
+        >
+          <Save className="w-4 h-4" />
+          {isSaving ? 'Saving...' : 'Save Category'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,326 @@
+import React, { useState } from 'react';
+import { ArrowLeft, Plus, Edit3, Trash2, Tags, RefreshCw, CheckCircle } from 'lucide-react';
+import { useCategories } from '../hooks/useCategories';
+import { applyCategoryChanges, CategoryChange, CategoryInput, classifyQuestion, findCategoryChanges } from '../lib/categories';
+import { CategoryEditor } from './CategoryEditor';
+import { IELTSQuestion, QuestionCategory } from '../types';
+
+interface CategoryManagerProps {
+  questions: IELTSQuestion[];
+  onBack: () => void;
+  onQuestionsChanged: () => void;
+}
+
+export const CategoryManager: React.FC<CategoryManagerProps> = ({
+  questions,
+  onBack,
+  onQuestionsChanged,
+}) => {
+  const { categories, loading, error, addCategory, editCategory, removeCategory } = useCategories();
+  // null while idle, 'new' while creating, or the category being edited
+  const [editing, setEditing] = useState<QuestionCategory | 'new' | null>(null);
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
+  const [sampleQuestion, setSampleQuestion] = useState('');
+  // Proposed re-classification, and the question ids the editor wants to apply
+  const [changes, setChanges] = useState<CategoryChange[] | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isApplying, setIsApplying] = useState(false);
+  const [appliedCount, setAppliedCount] = useState<number | null>(null);
+
+  const handleSave = async (input: CategoryInput) => {
+    if (editing === 'new' || editing === null) {
+      await addCategory(input);
+    } else {
+      await editCategory(editing, input);
+      if (input.name !== editing.name) onQuestionsChanged();
+    }
+    setEditing(null);
+    setChanges(null);
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await removeCategory(id);
+      setChanges(null);
+    } catch (error) {
+      console.error('Error deleting category:', error);
+      alert('Failed to delete category. Please try again.');
+    } finally {
+      setConfirmingDeleteId(null);
+    }
+  };
+
+  const handleCheck = () => {
+    const found = findCategoryChanges(questions, categories);
+    setChanges(found);
+    setSelectedIds(found.map(change => change.question.id));
+    setAppliedCount(null);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const handleApply = async () => {
+    if (!changes) return;
+
+    try {
+      setIsApplying(true);
+      await applyCategoryChanges(
+        changes
+          .filter(change => selectedIds.includes(change.question.id))
+          .map(change => ({ id: change.question.id, category: change.match.category }))
+      );
+      setAppliedCount(selectedIds.length);
+      setChanges(null);
+      onQuestionsChanged();
+    } catch (error) {
+      console.error('Error re-classifying questions:', error);
+      alert('Failed to update categories. Please try again.');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const getPartColor = (part: number) => {
+    switch (part) {
+      case 1: return 'bg-blue-100 text-blue-800';
+      case 2: return 'bg-green-100 text-green-800';
+      case 3: return 'bg-purple-100 text-purple-800';
+      default: return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const sampleMatch = sampleQuestion.trim() ? classifyQuestion(sampleQuestion, categories) : null;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <button
+                onClick={onBack}
+                className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                Back to Practice
+              </button>
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Categories</h1>
+                <p className="text-gray-600">Manage the topics questions are sorted into</p>
+              </div>
+            </div>
+            {editing === null && (
+              <button
+                onClick={() => setEditing('new')}
+                className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                New Category
+              </button>
+            )}
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {editing !== null && (
+          <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-100">
+            <h3 className="font-semibold text-gray-900 mb-4">
+              {editing === 'new' ? 'New Category' : `Edit “${editing.name}”`}
+            </h3>
+            <CategoryEditor
+              key={editing === 'new' ? 'new' : editing.id}
+              category={editing === 'new' ? null : editing}
+              onSave={handleSave}
+              onCancel={() => setEditing(null)}
+            />
+          </div>
+        )}
+
+        {/* Re-classification */}
+        <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-100">
+          <div className="flex items-start justify-between gap-4 mb-4">
+            <div>
+              <h3 className="font-semibold text-gray-900">Re-classify Questions</h3>
+              <p className="text-sm text-gray-600">
+                Scores every question against the keywords below and lists the ones whose category would change.
+              </p>
+            </div>
+            <button
+              onClick={handleCheck}
+              disabled={loading || categories.length === 0 || isApplying}
+              className="flex items-center gap-2 px-4 py-2 border border-gray-300 hover:bg-gray-50 disabled:opacity-50 text-gray-700 rounded-lg font-medium transition-colors flex-shrink-0"
+            >
+              <RefreshCw className="w-4 h-4" />
+              Check {questions.length} Questions
+            </button>
+          </div>
+
+          <div className="mb-4">
+            <input
+              type="text"
+              value={sampleQuestion}
+              onChange={(e) => setSampleQuestion(e.target.value)}
+              placeholder="Try a question, e.g. How often do you use social media?"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            {sampleMatch && (
+              <p className="text-sm text-gray-700 mt-2">
+                <span className="font-medium">{sampleMatch.category}</span>
+                {sampleMatch.terms.length > 0
+                  ? <span className="text-gray-500"> · matched {sampleMatch.terms.join(', ')}</span>
+                  : <span className="text-gray-500"> · no category matched</span>}
+              </p>
+            )}
+          </div>
+
+          {appliedCount !== null && (
+            <div className="flex items-center gap-2 p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+              <CheckCircle className="w-4 h-4" />
+              Updated {appliedCount} question{appliedCount === 1 ? '' : 's'}
+            </div>
+          )}
+
+          {changes && (
+            changes.length === 0 ? (
+              <p className="text-sm text-gray-500 italic">Every question already has the category the rules give it.</p>
+            ) : (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between gap-4">
+                  <p className="text-sm text-gray-700">
+                    {changes.length} question{changes.length === 1 ? '' : 's'} would change.
+                  </p>
+                  <div className="flex items-center gap-3">
+                    <button
+                      onClick={() => setSelectedIds(selectedIds.length === changes.length ? [] : changes.map(c => c.question.id))}
+                      className="text-sm text-blue-600 hover:text-blue-800"
+                    >
+                      {selectedIds.length === changes.length ? 'Select none' : 'Select all'}
+                    </button>
+                    <button
+                      onClick={handleApply}
+                      disabled={isApplying || selectedIds.length === 0}
+                      className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white text-sm rounded-lg font-medium transition-colors"
+                    >
+                      {isApplying ? 'Updating...' : `Apply ${selectedIds.length} Change${selectedIds.length === 1 ? '' : 's'}`}
+                    </button>
+                  </div>
+                </div>
+                <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+                  {changes.map(({ question, match }) => (
+                    <label key={question.id} className="flex items-start gap-3 p-3 hover:bg-gray-50 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(question.id)}
+                        onChange={() => toggleSelected(question.id)}
+                        className="mt-0.5 rounded border-gray-300"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-gray-800">
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium mr-2 ${getPartColor(question.part)}`}>
+                            Part {question.part}
+                          </span>
+                          <span className="text-gray-400 mr-2">#{question.serial_number}</span>
+                          {question.question}
+                        </p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          <span className="line-through">{question.category}</span> → <span className="font-medium text-gray-800">{match.category}</span>
+                          {match.terms.length > 0 && ` · ${match.terms.join(', ')}`}
+                        </p>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )
+          )}
+        </div>
+
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="text-gray-500 text-sm mt-2">Loading categories...</p>
+          </div>
+        ) : error ? (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-6 text-center text-red-700">{error}</div>
+        ) : categories.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="w-12 h-12 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-3">
+              <Tags className="w-6 h-6 text-gray-400" />
+            </div>
+            <p className="text-gray-500">No categories yet</p>
+            <p className="text-gray-400 text-sm">Create one with the keywords that identify its questions</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {categories.map(category => {
+              const questionCount = questions.filter(q => q.category === category.name).length;
+              return (
+                <div key={category.id} className="bg-white rounded-xl shadow-lg p-6 border border-gray-100">
+                  <div className="flex items-start justify-between gap-4 mb-3">
+                    <div>
+                      <h3 className="font-semibold text-gray-900">{category.name}</h3>
+                      <p className="text-sm text-gray-600">
+                        {questionCount} question{questionCount === 1 ? '' : 's'}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => setEditing(category)}
+                        className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                      >
+                        <Edit3 className="w-4 h-4" />
+                        Edit
+                      </button>
+                      {confirmingDeleteId === category.id ? (
+                        <div className="flex items-center gap-2 bg-red-50 border border-red-200 rounded-lg px-3 py-1.5">
+                          <span className="text-red-800 text-sm font-medium">Delete?</span>
+                          <button
+                            onClick={() => handleDelete(category.id)}
+                            className="px-2 py-1 bg-red-600 hover:bg-red-700 text-white text-xs font-medium rounded transition-colors"
+                          >
+                            Yes
+                          </button>
+                          <button
+                            onClick={() => setConfirmingDeleteId(null)}
+                            className="px-2 py-1 bg-gray-200 hover:bg-gray-300 text-gray-700 text-xs font-medium rounded transition-colors"
+                          >
+                            No
+                          </button>
+                        </div>
+                      ) : (
+                        <button
+                          onClick={() => setConfirmingDeleteId(category.id)}
+                          className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                          Delete
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="flex flex-wrap gap-1.5">
+                    {category.keywords.map(term => (
+                      <span key={`k-${term}`} className="px-2 py-0.5 bg-blue-50 text-blue-800 text-xs rounded-full">{term}</span>
+                    ))}
+                    {category.synonyms.map(term => (
+                      <span key={`s-${term}`} className="px-2 py-0.5 bg-gray-100 text-gray-600 text-xs rounded-full">{term}</span>
+                    ))}
+                    {category.keywords.length + category.synonyms.length === 0 && (
+                      <span className="text-sm text-gray-500 italic">Only the name is used for matching</span>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
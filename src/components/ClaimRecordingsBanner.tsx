@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { Inbox, X } from 'lucide-react';
+
+interface ClaimRecordingsBannerProps {
+  onClaim: () => Promise<number>;
+  onClaimed?: () => void;
+}
+
+export const ClaimRecordingsBanner: React.FC<ClaimRecordingsBannerProps> = ({ onClaim, onClaimed }) => {
+  const [isClaiming, setIsClaiming] = useState(false);
+  const [isDismissed, setIsDismissed] = useState(false);
+
+  const handleClaim = async () => {
+    try {
+      setIsClaiming(true);
+      const claimed = await onClaim();
+      alert(claimed > 0
+        ? `${claimed} guest recording${claimed === 1 ? '' : 's'} added to your account.`
+        : 'There were no guest recordings to claim.');
+      onClaimed?.();
+    } catch (error) {
+      console.error('Error claiming guest recordings:', error);
+      alert('Failed to claim guest recordings. Please try again.');
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  if (isDismissed) return null;
+
+  return (
+    <div className="bg-blue-50 border-b border-blue-200">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3 text-blue-900 text-sm">
+          <Inbox className="w-5 h-5 flex-shrink-0" />
+          <span>You practised as a guest on this browser. Move those recordings into your account?</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleClaim}
+            disabled={isClaiming}
+            className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            {isClaiming ? 'Claiming...' : 'Claim recordings'}
+          </button>
+          <button
+            onClick={() => setIsDismissed(true)}
+            className="p-1.5 text-blue-700 hover:bg-blue-100 rounded-lg transition-colors"
+            title="Dismiss"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
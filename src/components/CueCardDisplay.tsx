@@ -0,0 +1,29 @@
+import React from 'react';
+import { CueCard } from '../lib/cueCard';
+
+interface CueCardDisplayProps {
+  cueCard: CueCard;
+}
+
+export const CueCardDisplay: React.FC<CueCardDisplayProps> = ({ cueCard }) => {
+  return (
+    <div className="border-2 border-green-200 bg-green-50/40 rounded-lg p-6">
+      <h2 className="text-2xl font-bold text-gray-900 leading-relaxed">
+        {cueCard.topic}
+      </h2>
+      {cueCard.prompts.length > 0 && (
+        <>
+          <p className="mt-4 mb-2 font-medium text-gray-700">You should say:</p>
+          <ul className="space-y-1.5 text-lg text-gray-800">
+            {cueCard.prompts.map((prompt, index) => (
+              <li key={index} className="flex items-start gap-3">
+                <span className="mt-2.5 w-1.5 h-1.5 rounded-full bg-green-600 flex-shrink-0" />
+                <span>{prompt}</span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
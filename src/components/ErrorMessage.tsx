@@ -4,9 +4,11 @@ import { AlertCircle, RefreshCw } from 'lucide-react';
 interface ErrorMessageProps {
   message: string;
   onRetry?: () => void;
+  // A secondary way forward, e.g. restoring a backup into an empty project
+  action?: { label: string; onClick: () => void };
 }
 
-export const ErrorMessage: React.FC<ErrorMessageProps> = ({ message, onRetry }) => {
+export const ErrorMessage: React.FC<ErrorMessageProps> = ({ message, onRetry, action }) => {
   return (
     <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
       <div className="max-w-md w-full bg-white rounded-xl shadow-lg p-8 text-center">
@@ -33,6 +35,15 @@ export const ErrorMessage: React.FC<ErrorMessageProps> = ({ message, onRetry })
             Try Again
           </button>
         )}
+
+        {action && (
+          <button
+            onClick={action.onClick}
+            className="mt-3 mx-auto px-4 py-2 text-blue-600 hover:bg-blue-50 rounded-lg font-medium transition-colors"
+          >
+            {action.label}
+          </button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,44 @@
+import React from 'react';
+import { MessageSquare, ArrowRight, X } from 'lucide-react';
+
+interface FollowUpPromptProps {
+  count: number;
+  onContinue: () => void;
+  onDismiss: () => void;
+}
+
+export const FollowUpPrompt: React.FC<FollowUpPromptProps> = ({
+  count,
+  onContinue,
+  onDismiss,
+}) => {
+  return (
+    <div className="bg-purple-50 border border-purple-200 rounded-xl p-4">
+      <div className="flex items-start justify-between gap-3 mb-3">
+        <div className="flex items-start gap-3">
+          <MessageSquare className="w-5 h-5 text-purple-600 flex-shrink-0 mt-0.5" />
+          <div>
+            <p className="font-medium text-purple-900">Ready for the discussion?</p>
+            <p className="text-sm text-purple-800">
+              {count} linked Part 3 question{count === 1 ? '' : 's'} follow{count === 1 ? 's' : ''} this cue card.
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={onDismiss}
+          className="p-1 text-purple-700 hover:bg-purple-100 rounded-lg transition-colors"
+          title="Dismiss"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <button
+        onClick={onContinue}
+        className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg font-medium transition-colors"
+      >
+        Continue to Part 3
+        <ArrowRight className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React from 'react';
+import { HesitationEvent, LONG_PAUSE_SECONDS } from '../lib/hesitation';
+
+interface HesitationTimelineProps {
+  events: HesitationEvent[];
+  duration: number;
+  currentTime?: number;
+  analysing?: boolean;
+  error?: string | null;
+  hasTranscript?: boolean;
+  onSeek?: (time: number) => void;
+}
+
+export const HesitationTimeline: React.FC<HesitationTimelineProps> = ({
+  events,
+  duration,
+  currentTime = 0,
+  analysing = false,
+  error = null,
+  hasTranscript = false,
+  onSeek,
+}) => {
+  if (analysing) {
+    return <p className="text-xs text-gray-500">Analysing pauses...</p>;
+  }
+
+  if (error) {
+    return <p className="text-xs text-red-600">{error}</p>;
+  }
+
+  if (duration <= 0) return null;
+
+  const pauses = events.filter(e => e.type === 'pause');
+  const longPauses = pauses.filter(e => e.end - e.start >= LONG_PAUSE_SECONDS);
+  const fillers = events.filter(e => e.type === 'filler');
+
+  const toPercent = (time: number) => `${Math.min(100, (time / duration) * 100)}%`;
+
+  const handleBarClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!onSeek) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    onSeek(((e.clientX - rect.left) / rect.width) * duration);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600">
+        <span className="flex items-center gap-1">
+          <span className="w-3 h-2 rounded-sm bg-amber-300" />
+          {pauses.length} pauses ({longPauses.length} long)
+        </span>
+        {hasTranscript ? (
+          <span className="flex items-center gap-1">
+            <span className="w-1 h-3 rounded-sm bg-red-500" />
+            {fillers.length} fillers
+          </span>
+        ) : (
+          <span className="text-gray-400">Transcribe to detect fillers</span>
+        )}
+      </div>
+
+      <div
+        className="relative w-full h-6 bg-green-100 rounded cursor-pointer overflow-hidden"
+        onClick={handleBarClick}
+        title="Click to jump to this point"
+      >
+        {events.map((event, index) => (
+          <div
+            key={index}
+            className={`absolute top-0 h-full ${
+              event.type === 'pause'
+                ? event.end - event.start >= LONG_PAUSE_SECONDS ? 'bg-amber-400' : 'bg-amber-200'
+                : 'bg-red-500 w-1'
+            }`}
+            style={{
+              left: toPercent(event.start),
+              width: event.type === 'pause' ? toPercent(event.end - event.start) : undefined,
+            }}
+            title={`${event.label} at ${event.start.toFixed(1)}s`}
+          />
+        ))}
+        <div
+          className="absolute top-0 h-full w-0.5 bg-gray-900 pointer-events-none"
+          style={{ left: toPercent(currentTime) }}
+        />
+      </div>
+
+      {fillers.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {fillers.map((filler, index) => (
+            <button
+              key={index}
+              onClick={() => onSeek?.(filler.start)}
+              className="px-2 py-0.5 bg-red-50 text-red-700 border border-red-200 rounded-full text-xs hover:bg-red-100 transition-colors"
+            >
+              “{filler.label}” {filler.start.toFixed(1)}s
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import React from 'react';
+import { ColumnMapping, IMPORT_FIELDS, ImportField } from '../lib/questionImport';
+
+interface ImportColumnMapperProps {
+  headers: string[];
+  mapping: ColumnMapping;
+  hasHeader: boolean;
+  onMappingChange: (mapping: ColumnMapping) => void;
+  onHasHeaderChange: (hasHeader: boolean) => void;
+}
+
+export const ImportColumnMapper: React.FC<ImportColumnMapperProps> = ({
+  headers,
+  mapping,
+  hasHeader,
+  onMappingChange,
+  onHasHeaderChange,
+}) => {
+  const handleChange = (field: ImportField, value: string) => {
+    onMappingChange({ ...mapping, [field]: value === '' ? null : Number(value) });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-gray-700">Column mapping</h4>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={hasHeader}
+            onChange={(e) => onHasHeaderChange(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          First row is a header
+        </label>
+      </div>
+      <div className="grid sm:grid-cols-2 md:grid-cols-3 gap-3">
+        {IMPORT_FIELDS.map(({ field, label, required }) => (
+          <div key={field}>
+            <label className="block text-xs font-medium text-gray-600 mb-1">
+              {label}{required && <span className="text-red-500"> *</span>}
+            </label>
+            <select
+              value={mapping[field] ?? ''}
+              onChange={(e) => handleChange(field, e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">{required ? 'Choose a column' : 'Not in file'}</option>
+              {headers.map((header, index) => (
+                <option key={index} value={index}>
+                  {hasHeader && header.trim() ? header : `Column ${index + 1}`}
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
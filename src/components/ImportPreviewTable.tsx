@@ -0,0 +1,125 @@
+import React from 'react';
+import { AlertCircle, Copy } from 'lucide-react';
+import { ImportRow } from '../lib/questionImport';
+import { ImportCheck, ImportResolution } from '../lib/importValidation';
+import { VocabularySuggestion } from '../lib/vocabularyExtractor';
+import { VocabularySuggestions } from './VocabularySuggestions';
+
+interface ImportPreviewTableProps {
+  checks: ImportCheck[];
+  resolutions: Record<number, ImportResolution>;
+  onResolutionChange: (line: number, resolution: ImportResolution) => void;
+  // Values the importer fills in for fields a row leaves empty
+  getCategory: (row: ImportRow) => string;
+  getKeyVocabulary: (row: ImportRow) => string[];
+  getTimeLimit: (row: ImportRow) => number;
+  // Suggested vocabulary for rows without their own, keyed by row line
+  vocabularySuggestions: Record<number, VocabularySuggestion[]>;
+  vocabularyDecisions: Record<number, Record<string, boolean>>;
+  onVocabularyChange: (line: number, decisions: Record<string, boolean>) => void;
+}
+
+export const ImportPreviewTable: React.FC<ImportPreviewTableProps> = ({
+  checks,
+  resolutions,
+  onResolutionChange,
+  getCategory,
+  getKeyVocabulary,
+  getTimeLimit,
+  vocabularySuggestions,
+  vocabularyDecisions,
+  onVocabularyChange,
+}) => {
+  const formatTime = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    const remainingSeconds = seconds % 60;
+    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+  };
+
+  const getRowColor = (check: ImportCheck) => {
+    if (check.problems.length > 0) return 'bg-red-50';
+    if (check.duplicate || check.duplicateOfLine !== null) return 'bg-amber-50';
+    return '';
+  };
+
+  return (
+    <div className="overflow-x-auto border border-gray-200 rounded-lg">
+      <table className="min-w-full text-sm">
+        <thead className="bg-gray-50 text-left text-xs font-medium text-gray-600 uppercase tracking-wide">
+          <tr>
+            <th className="px-3 py-2">Row</th>
+            <th className="px-3 py-2">Part</th>
+            <th className="px-3 py-2">Category</th>
+            <th className="px-3 py-2">Question</th>
+            <th className="px-3 py-2">Vocabulary</th>
+            <th className="px-3 py-2">Time</th>
+            <th className="px-3 py-2">Action</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {checks.map(check => {
+            const { row, problems, duplicate, duplicateOfLine } = check;
+            const isValid = problems.length === 0;
+            return (
+              <tr key={row.line} className={getRowColor(check)}>
+                <td className="px-3 py-2 text-gray-500 align-top">{row.line}</td>
+                <td className="px-3 py-2 align-top">{row.part ?? '—'}</td>
+                <td className={`px-3 py-2 align-top ${row.category ? 'text-gray-800' : 'text-gray-400 italic'}`}>
+                  {isValid ? getCategory(row) : row.category ?? '—'}
+                </td>
+                <td className="px-3 py-2 align-top max-w-xs">
+                  <p className="text-gray-800 line-clamp-2">{row.question || '—'}</p>
+                  {!isValid && (
+                    <p className="flex items-center gap-1 text-xs text-red-700 mt-1">
+                      <AlertCircle className="w-3 h-3" />
+                      {problems.join(', ')}
+                    </p>
+                  )}
+                  {duplicate && (
+                    <p className="flex items-start gap-1 text-xs text-amber-800 mt-1">
+                      <Copy className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                      <span>
+                        {Math.round(duplicate.similarity * 100)}% similar to #{duplicate.question.serial_number}: {duplicate.question.question}
+                      </span>
+                    </p>
+                  )}
+                  {duplicateOfLine !== null && (
+                    <p className="flex items-center gap-1 text-xs text-amber-800 mt-1">
+                      <Copy className="w-3 h-3" />
+                      Repeats row {duplicateOfLine}
+                    </p>
+                  )}
+                </td>
+                <td className={`px-3 py-2 align-top min-w-[12rem] ${row.keyVocabulary || vocabularySuggestions[row.line] ? 'text-gray-800' : 'text-gray-400 italic'}`}>
+                  {!isValid ? '—' : vocabularySuggestions[row.line] ? (
+                    <VocabularySuggestions
+                      suggestions={vocabularySuggestions[row.line]}
+                      decisions={vocabularyDecisions[row.line] ?? {}}
+                      onChange={(decisions) => onVocabularyChange(row.line, decisions)}
+                      compact
+                    />
+                  ) : getKeyVocabulary(row).join(', ')}
+                </td>
+                <td className={`px-3 py-2 align-top ${row.timeLimit ? 'text-gray-800' : 'text-gray-400 italic'}`}>
+                  {isValid ? formatTime(getTimeLimit(row)) : '—'}
+                </td>
+                <td className="px-3 py-2 align-top">
+                  <select
+                    value={resolutions[row.line] ?? 'skip'}
+                    onChange={(e) => onResolutionChange(row.line, e.target.value as ImportResolution)}
+                    disabled={!isValid}
+                    className="px-2 py-1 border border-gray-300 rounded-lg text-xs focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                  >
+                    <option value="insert">{duplicate || duplicateOfLine !== null ? 'Insert anyway' : 'Insert'}</option>
+                    {duplicate && <option value="overwrite">Overwrite #{duplicate.question.serial_number}</option>}
+                    <option value="skip">Skip</option>
+                  </select>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React from 'react';
+import { CheckCircle, AlertCircle, RefreshCw, SkipForward } from 'lucide-react';
+import { ImportRowResult } from '../lib/importValidation';
+
+interface ImportResultsProps {
+  results: ImportRowResult[];
+}
+
+export const ImportResults: React.FC<ImportResultsProps> = ({ results }) => {
+  const count = (status: ImportRowResult['status']) => results.filter(result => result.status === status).length;
+
+  const getStatusIcon = (status: ImportRowResult['status']) => {
+    switch (status) {
+      case 'inserted': return <CheckCircle className="w-4 h-4 text-green-600" />;
+      case 'updated': return <RefreshCw className="w-4 h-4 text-blue-600" />;
+      case 'skipped': return <SkipForward className="w-4 h-4 text-gray-400" />;
+      case 'failed': return <AlertCircle className="w-4 h-4 text-red-600" />;
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-100">
+      <h3 className="font-semibold text-gray-900 mb-2">Import Results:</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        {count('inserted')} inserted · {count('updated')} overwritten · {count('skipped')} skipped · {count('failed')} failed
+      </p>
+
+      <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+        {results.map(result => (
+          <li key={result.line} className={`flex items-start gap-3 px-3 py-2 text-sm ${result.status === 'failed' ? 'bg-red-50' : ''}`}>
+            <span className="mt-0.5">{getStatusIcon(result.status)}</span>
+            <span className="text-gray-500 w-14 flex-shrink-0">Row {result.line}</span>
+            <div className="flex-1 min-w-0">
+              <p className="text-gray-800 truncate">
+                {result.serialNumber !== null && <span className="text-gray-500 mr-1">#{result.serialNumber}</span>}
+                {result.question || '—'}
+              </p>
+              {result.message && (
+                <p className={`text-xs ${result.status === 'failed' ? 'text-red-700' : 'text-gray-500'}`}>{result.message}</p>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
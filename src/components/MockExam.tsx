@@ -0,0 +1,375 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, Clock, Mic, MicOff, PlayCircle, RotateCcw, Save, CheckCircle, User, Hourglass } from 'lucide-react';
+import { useAudioRecorder } from '../hooks/useAudioRecorder';
+import { useMockExam, EXAMINER_SCRIPTS, EXAMINER_CLOSING } from '../hooks/useMockExam';
+import { MockExamPlayback } from './MockExamPlayback';
+import { PreparationPad } from './PreparationPad';
+import { CueCardDisplay } from './CueCardDisplay';
+import { getCueCard } from '../lib/cueCard';
+import { getQuestionTiming, TimingProfiles } from '../lib/timing';
+import { IELTSQuestion } from '../types';
+
+interface MockExamProps {
+  questions: IELTSQuestion[];
+  timingProfiles: TimingProfiles;
+  onBack: () => void;
+}
+
+// The real speaking test runs for 11-14 minutes
+const EXAM_MIN_SECONDS = 11 * 60;
+const EXAM_MAX_SECONDS = 14 * 60;
+
+export const MockExam: React.FC<MockExamProps> = ({ questions, timingProfiles, onBack }) => {
+  const {
+    steps,
+    currentStep,
+    currentStepIndex,
+    phase,
+    answers,
+    elapsed,
+    spokenDuration,
+    isSaving,
+    savedSessionId,
+    startExam,
+    beginPart,
+    submitAnswer,
+    resetExam,
+    saveSession,
+  } = useMockExam(questions);
+
+  const {
+    recordingState,
+    audioLevel,
+    startRecording,
+    stopRecording,
+    forceReset,
+    getAudioBlob,
+  } = useAudioRecorder();
+
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [prepNotes, setPrepNotes] = useState('');
+
+  const timeLimit = currentStep ? getQuestionTiming(currentStep.question, timingProfiles).max : 0;
+  const cueCard = currentStep ? getCueCard(currentStep.question) : null;
+
+  // Like the examiner, stop the answer once it reaches its maximum length
+  useEffect(() => {
+    if (recordingState.isRecording && recordingState.duration >= timeLimit) {
+      stopRecording();
+    }
+  }, [recordingState.duration, recordingState.isRecording, timeLimit, stopRecording]);
+
+  // Hand each finished take to the exam and get the recorder ready for the next question
+  useEffect(() => {
+    if (phase !== 'answering' || !recordingState.audioUrl) return;
+
+    const blob = getAudioBlob();
+    if (!blob) return;
+
+    submitAnswer(blob, recordingState.duration, prepNotes.trim() || null);
+    setPrepNotes('');
+    forceReset();
+  }, [phase, recordingState.audioUrl, recordingState.duration, prepNotes, getAudioBlob, submitAnswer, forceReset]);
+
+  const formatTime = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    const remainingSeconds = seconds % 60;
+    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+  };
+
+  const getPartColor = (part: number) => {
+    switch (part) {
+      case 1: return 'bg-blue-100 text-blue-800';
+      case 2: return 'bg-green-100 text-green-800';
+      case 3: return 'bg-purple-100 text-purple-800';
+      default: return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const getElapsedColor = () => {
+    if (elapsed > EXAM_MAX_SECONDS) return 'text-red-600';
+    if (elapsed >= EXAM_MIN_SECONDS) return 'text-green-600';
+    return 'text-gray-900';
+  };
+
+  const handleBack = () => {
+    forceReset();
+    resetExam();
+    onBack();
+  };
+
+  const handleStartExam = () => {
+    if (!startExam()) {
+      alert('Not enough questions in the bank to build a mock exam.');
+    }
+  };
+
+  const handleStartAnswer = async () => {
+    try {
+      await startRecording();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to start recording');
+    }
+  };
+
+  const handlePreparationComplete = () => {
+    setIsPreparing(false);
+    handleStartAnswer();
+  };
+
+  const handleSaveSession = async () => {
+    try {
+      await saveSession();
+    } catch (error) {
+      console.error('Error saving mock exam session:', error);
+      alert('Failed to save the session. Please try again.');
+    }
+  };
+
+  const handleRestart = () => {
+    setIsPreparing(false);
+    setPrepNotes('');
+    forceReset();
+    resetExam();
+  };
+
+  const partQuestions = currentStep
+    ? steps.filter(step => step.question.part === currentStep.question.part)
+    : [];
+  const questionNumberInPart = currentStep
+    ? partQuestions.findIndex(step => step === currentStep) + 1
+    : 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <button
+                onClick={handleBack}
+                className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                Back to Practice
+              </button>
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Mock Speaking Exam</h1>
+                <p className="text-gray-600">Parts 1, 2 and 3 back to back, just like test day</p>
+              </div>
+            </div>
+
+            {phase !== 'idle' && (
+              <div className="text-center">
+                <div className={`text-2xl font-mono font-bold ${getElapsedColor()}`}>
+                  {formatTime(elapsed)}
+                </div>
+                <div className="text-xs text-gray-500">Target 11:00–14:00</div>
+              </div>
+            )}
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="space-y-8">
+          {/* Exam Overview */}
+          {phase === 'idle' && (
+            <div className="bg-white rounded-xl shadow-lg p-8 border border-gray-100">
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">How the mock exam works</h2>
+              <ul className="text-gray-700 space-y-3 mb-8">
+                <li className="flex items-start gap-3">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getPartColor(1)}`}>Part 1</span>
+                  <span>Short questions about familiar topics, grouped into a topic set.</span>
+                </li>
+                <li className="flex items-start gap-3">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getPartColor(2)}`}>Part 2</span>
+                  <span>A cue card to talk about for one to two minutes.</span>
+                </li>
+                <li className="flex items-start gap-3">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getPartColor(3)}`}>Part 3</span>
+                  <span>A discussion of more abstract questions linked to the cue card.</span>
+                </li>
+              </ul>
+              <button
+                onClick={handleStartExam}
+                className="flex items-center gap-2 px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-semibold transition-colors"
+              >
+                <PlayCircle className="w-5 h-5" />
+                Start Mock Exam
+              </button>
+            </div>
+          )}
+
+          {/* Examiner Transition */}
+          {phase === 'transition' && currentStep && (
+            <div className="bg-white rounded-xl shadow-lg p-8 border border-gray-100">
+              <div className="flex items-center gap-3 mb-6">
+                <div className="p-2 bg-gray-100 rounded-full">
+                  <User className="w-6 h-6 text-gray-600" />
+                </div>
+                <span className="font-semibold text-gray-900">Examiner</span>
+                <span className={`px-3 py-1 rounded-full text-sm font-medium ${getPartColor(currentStep.question.part)}`}>
+                  Part {currentStep.question.part}
+                </span>
+              </div>
+              <p className="text-xl text-gray-800 leading-relaxed mb-8">
+                “{EXAMINER_SCRIPTS[currentStep.question.part](currentStep.question.category)}”
+              </p>
+              <button
+                onClick={beginPart}
+                className="flex items-center gap-2 px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-semibold transition-colors"
+              >
+                <PlayCircle className="w-5 h-5" />
+                Continue
+              </button>
+            </div>
+          )}
+
+          {/* Current Question */}
+          {phase === 'answering' && currentStep && (
+            <div className="bg-white rounded-xl shadow-lg p-8 border border-gray-100 space-y-6">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <span className={`px-3 py-1 rounded-full text-sm font-medium ${getPartColor(currentStep.question.part)}`}>
+                    Part {currentStep.question.part}
+                  </span>
+                  <span className="text-sm text-gray-600">
+                    Question {questionNumberInPart} of {partQuestions.length}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2 text-gray-500">
+                  <Clock className="w-4 h-4" />
+                  <span className="text-sm font-medium">
+                    {formatTime(recordingState.duration)} / {formatTime(timeLimit)}
+                  </span>
+                </div>
+              </div>
+
+              {cueCard ? (
+                <CueCardDisplay cueCard={cueCard} />
+              ) : (
+                <h2 className="text-2xl font-bold text-gray-900 leading-relaxed">
+                  {currentStep.question.question}
+                </h2>
+              )}
+
+              {isPreparing && (
+                <PreparationPad
+                  notes={prepNotes}
+                  onNotesChange={setPrepNotes}
+                  onComplete={handlePreparationComplete}
+                />
+              )}
+
+              {!isPreparing && prepNotes.trim() && (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+                  <p className="text-sm text-amber-900 whitespace-pre-wrap">{prepNotes}</p>
+                </div>
+              )}
+
+              {recordingState.isRecording && (
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className="bg-green-500 h-2 rounded-full transition-all duration-100"
+                    style={{ width: `${audioLevel * 100}%` }}
+                  />
+                </div>
+              )}
+
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-500">
+                  Step {currentStepIndex + 1} of {steps.length}
+                </span>
+                {isPreparing ? null : currentStep.question.part === 2 && !recordingState.isRecording ? (
+                  <button
+                    onClick={() => setIsPreparing(true)}
+                    className="flex items-center gap-3 px-6 py-3 bg-amber-500 hover:bg-amber-600 text-white rounded-lg font-semibold transition-colors"
+                  >
+                    <Hourglass className="w-5 h-5" />
+                    Start Preparation
+                  </button>
+                ) : !recordingState.isRecording ? (
+                  <button
+                    onClick={handleStartAnswer}
+                    className="flex items-center gap-3 px-6 py-3 bg-red-600 hover:bg-red-700 text-white rounded-lg font-semibold transition-colors"
+                  >
+                    <Mic className="w-5 h-5" />
+                    Start Answer
+                  </button>
+                ) : (
+                  <button
+                    onClick={stopRecording}
+                    className="flex items-center gap-3 px-6 py-3 bg-gray-600 hover:bg-gray-700 text-white rounded-lg font-semibold transition-colors"
+                  >
+                    <MicOff className="w-5 h-5" />
+                    Finish Answer
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Session Review */}
+          {phase === 'finished' && (
+            <>
+              <div className="bg-white rounded-xl shadow-lg p-8 border border-gray-100">
+                <div className="flex items-center gap-3 mb-4">
+                  <div className="p-2 bg-gray-100 rounded-full">
+                    <User className="w-6 h-6 text-gray-600" />
+                  </div>
+                  <span className="font-semibold text-gray-900">Examiner</span>
+                </div>
+                <p className="text-xl text-gray-800 leading-relaxed mb-6">“{EXAMINER_CLOSING}”</p>
+
+                <div className="grid grid-cols-3 gap-4 mb-6">
+                  <div className="bg-gray-50 rounded-lg p-4 text-center">
+                    <div className={`text-2xl font-mono font-bold ${getElapsedColor()}`}>{formatTime(elapsed)}</div>
+                    <div className="text-sm text-gray-600">Session length</div>
+                  </div>
+                  <div className="bg-gray-50 rounded-lg p-4 text-center">
+                    <div className="text-2xl font-mono font-bold text-gray-900">{formatTime(spokenDuration)}</div>
+                    <div className="text-sm text-gray-600">Time spoken</div>
+                  </div>
+                  <div className="bg-gray-50 rounded-lg p-4 text-center">
+                    <div className="text-2xl font-bold text-gray-900">{answers.length}</div>
+                    <div className="text-sm text-gray-600">Answers</div>
+                  </div>
+                </div>
+
+                <div className="flex gap-3">
+                  {savedSessionId ? (
+                    <div className="flex items-center gap-2 px-4 py-2 bg-green-50 text-green-800 rounded-lg font-medium">
+                      <CheckCircle className="w-4 h-4" />
+                      Session saved
+                    </div>
+                  ) : (
+                    <button
+                      onClick={handleSaveSession}
+                      disabled={isSaving}
+                      className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-green-400 text-white rounded-lg font-medium transition-colors"
+                    >
+                      <Save className="w-4 h-4" />
+                      {isSaving ? 'Saving...' : 'Save Session'}
+                    </button>
+                  )}
+                  <button
+                    onClick={handleRestart}
+                    className="flex items-center gap-2 px-4 py-2 border border-gray-300 hover:bg-gray-50 text-gray-700 rounded-lg font-medium transition-colors"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                    New Mock Exam
+                  </button>
+                </div>
+              </div>
+
+              <MockExamPlayback answers={answers} />
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
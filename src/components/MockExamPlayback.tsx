@@ -0,0 +1,109 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Play, Pause, SkipForward } from 'lucide-react';
+import { MockExamAnswer } from '../types';
+
+interface MockExamPlaybackProps {
+  answers: MockExamAnswer[];
+}
+
+export const MockExamPlayback: React.FC<MockExamPlaybackProps> = ({ answers }) => {
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  const formatTime = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    const remainingSeconds = seconds % 60;
+    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+  };
+
+  // Keep playing through the answers once playback has started
+  useEffect(() => {
+    if (isPlaying) {
+      audioRef.current?.play().catch(() => setIsPlaying(false));
+    }
+  }, [currentIndex, isPlaying]);
+
+  const handleEnded = () => {
+    if (currentIndex < answers.length - 1) {
+      setCurrentIndex(prev => prev + 1);
+    } else {
+      setIsPlaying(false);
+      setCurrentIndex(0);
+    }
+  };
+
+  const togglePlayback = () => {
+    if (isPlaying) {
+      audioRef.current?.pause();
+      setIsPlaying(false);
+    } else {
+      setIsPlaying(true);
+    }
+  };
+
+  const skipToNext = () => {
+    if (currentIndex < answers.length - 1) {
+      setCurrentIndex(prev => prev + 1);
+    }
+  };
+
+  if (answers.length === 0) return null;
+
+  const currentAnswer = answers[currentIndex];
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-100">
+      <h3 className="font-semibold text-gray-900 mb-4">Full Session Playback</h3>
+
+      <audio
+        ref={audioRef}
+        src={currentAnswer.audioUrl}
+        onEnded={handleEnded}
+        className="hidden"
+      />
+
+      <div className="flex items-center gap-3 mb-6">
+        <button
+          onClick={togglePlayback}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+        >
+          {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          {isPlaying ? 'Pause' : 'Play Whole Session'}
+        </button>
+        <button
+          onClick={skipToNext}
+          disabled={currentIndex >= answers.length - 1}
+          className="flex items-center gap-2 px-4 py-2 border border-gray-300 hover:bg-gray-50 disabled:opacity-50 text-gray-700 rounded-lg font-medium transition-colors"
+        >
+          <SkipForward className="w-4 h-4" />
+          Next Answer
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {answers.map((answer, index) => (
+          <button
+            key={`${answer.question.id}-${index}`}
+            onClick={() => setCurrentIndex(index)}
+            className={`w-full flex items-start justify-between gap-4 text-left px-4 py-3 rounded-lg border transition-colors ${
+              index === currentIndex
+                ? 'border-blue-300 bg-blue-50'
+                : 'border-gray-200 hover:bg-gray-50'
+            }`}
+          >
+            <div className="min-w-0">
+              <div className="text-xs font-medium text-gray-500 mb-1">
+                Part {answer.question.part}
+              </div>
+              <p className="text-sm text-gray-900 line-clamp-2">{answer.question.question}</p>
+            </div>
+            <span className="text-sm font-mono text-gray-600 flex-shrink-0">
+              {formatTime(answer.duration)}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
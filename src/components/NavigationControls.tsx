@@ -8,6 +8,9 @@ interface NavigationControlsProps {
   onPrevious: () => boolean;
   onJumpToQuestion: (serialNumber: number) => boolean;
   onNavigationStart?: () => void;
+  // When set, Previous/Next and the progress bar step through this queue instead of the bank
+  queue?: { label: string; position: number; total: number } | null;
+  onJumpToQueuePosition?: (position: number) => boolean;
 }
 
 export const NavigationControls: React.FC<NavigationControlsProps> = ({
@@ -17,6 +20,8 @@ export const NavigationControls: React.FC<NavigationControlsProps> = ({
   onPrevious,
   onJumpToQuestion,
   onNavigationStart,
+  queue = null,
+  onJumpToQueuePosition,
 }) => {
   const [jumpInput, setJumpInput] = useState('');
   const [jumpError, setJumpError] = useState('');
@@ -58,6 +63,10 @@ export const NavigationControls: React.FC<NavigationControlsProps> = ({
     setJumpError('');
   };
 
+  const stepIndex = queue ? queue.position : currentIndex;
+  const stepTotal = queue ? queue.total : totalQuestions;
+  const percentComplete = stepTotal > 0 ? Math.round((stepIndex / stepTotal) * 100) : 0;
+
   /**
    * Handles clicks on the progress bar to seek to a specific question.
    */
@@ -72,13 +81,17 @@ export const NavigationControls: React.FC<NavigationControlsProps> = ({
     
     // Determine the target question number.
     // We use Math.ceil so clicking anywhere in a segment jumps to that question's number.
-    const targetQuestion = Math.ceil(clickFraction * totalQuestions);
+    const targetQuestion = Math.ceil(clickFraction * stepTotal);
 
-    // Clamp the value to ensure it's within the valid range [1, totalQuestions]
-    const clampedQuestion = Math.max(1, Math.min(targetQuestion, totalQuestions));
+    // Clamp the value to ensure it's within the valid range [1, stepTotal]
+    const clampedQuestion = Math.max(1, Math.min(targetQuestion, stepTotal));
     
     onNavigationStart?.();
-    onJumpToQuestion(clampedQuestion);
+    if (queue && onJumpToQueuePosition) {
+      onJumpToQueuePosition(clampedQuestion);
+    } else {
+      onJumpToQuestion(clampedQuestion);
+    }
   };
 
 
@@ -124,7 +137,7 @@ export const NavigationControls: React.FC<NavigationControlsProps> = ({
         <div className="flex justify-between items-center pt-4 border-t border-gray-200">
           <button
             onClick={handlePrevious}
-            disabled={currentIndex <= 1}
+            disabled={stepIndex <= 1}
             className="flex items-center gap-2 px-4 py-2 border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed text-gray-700 rounded-lg font-medium transition-colors"
           >
             <ChevronLeft className="w-5 h-5" />
@@ -133,16 +146,20 @@ export const NavigationControls: React.FC<NavigationControlsProps> = ({
 
           <div className="text-center">
             <div className="text-lg font-semibold text-gray-900">
-              Question {currentIndex} of {totalQuestions}
+              {queue
+                ? queue.position > 0
+                  ? `${queue.label} ${queue.position} of ${queue.total}`
+                  : `${queue.total} in ${queue.label.toLowerCase()}`
+                : `Question ${currentIndex} of ${totalQuestions}`}
             </div>
             <div className="text-sm text-gray-600">
-              {Math.round((currentIndex / totalQuestions) * 100)}% Complete
+              {percentComplete}% Complete
             </div>
           </div>
 
           <button
             onClick={handleNext}
-            disabled={currentIndex >= totalQuestions}
+            disabled={stepIndex >= stepTotal}
             className="flex items-center gap-2 px-6 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors"
           >
             Next
@@ -153,8 +170,8 @@ export const NavigationControls: React.FC<NavigationControlsProps> = ({
         {/* Progress Indicator */}
         <div className="space-y-2">
           <div className="flex justify-between text-sm font-medium text-gray-600">
-            <span>Overall Progress</span>
-            <span>{Math.round((currentIndex / totalQuestions) * 100)}%</span>
+            <span>{queue ? `${queue.label} Progress` : 'Overall Progress'}</span>
+            <span>{percentComplete}%</span>
           </div>
           <div 
             className="w-full bg-gray-200 rounded-full h-2.5 cursor-pointer group"
@@ -163,7 +180,7 @@ export const NavigationControls: React.FC<NavigationControlsProps> = ({
           >
             <div 
               className="bg-blue-600 h-2.5 rounded-full transition-all duration-300 pointer-events-none"
-              style={{ width: `${(currentIndex / totalQuestions) * 100}%` }}
+              style={{ width: `${percentComplete}%` }}
             />
           </div>
         </div>
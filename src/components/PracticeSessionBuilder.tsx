@@ -0,0 +1,199 @@
+import React, { useMemo, useState } from 'react';
+import { Filter, Shuffle, Play, X, ChevronDown, ChevronUp } from 'lucide-react';
+import { usePracticeStats } from '../hooks/usePracticeStats';
+import {
+  buildPracticeSession,
+  DEFAULT_SESSION_FILTERS,
+  PracticeSessionFilters,
+  PracticeStatusFilter,
+  WEAK_BAND,
+} from '../lib/practiceSession';
+import { IELTSQuestion, QuestionReview } from '../types';
+
+interface PracticeSessionBuilderProps {
+  questions: IELTSQuestion[];
+  userId: string | null;
+  reviews: Record<string, QuestionReview>;
+  activeSessionSize: number | null;
+  onStart: (questionIds: string[]) => void;
+  onEnd: () => void;
+}
+
+const STATUS_OPTIONS: Array<{ value: PracticeStatusFilter; label: string }> = [
+  { value: 'all', label: 'All questions' },
+  { value: 'never-attempted', label: 'Never attempted' },
+  { value: 'weak', label: `Attempted but weak (below band ${WEAK_BAND})` },
+];
+
+export const PracticeSessionBuilder: React.FC<PracticeSessionBuilderProps> = ({
+  questions,
+  userId,
+  reviews,
+  activeSessionSize,
+  onStart,
+  onEnd,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [filters, setFilters] = useState<PracticeSessionFilters>(DEFAULT_SESSION_FILTERS);
+
+  // Practice history is only needed once the builder is opened
+  const { stats, loading: statsLoading, error: statsError } = usePracticeStats(userId, isOpen);
+
+  const categories = useMemo(
+    () => [...new Set(questions.map(q => q.category))].sort(),
+    [questions]
+  );
+
+  // Shuffling happens on start, so the preview count stays stable while editing
+  const matchCount = useMemo(
+    () => buildPracticeSession(questions, { ...filters, shuffle: false }, stats, reviews).length,
+    [questions, filters, stats, reviews]
+  );
+
+  const updateFilters = (changes: Partial<PracticeSessionFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+  };
+
+  const togglePart = (part: 1 | 2 | 3) => {
+    updateFilters({
+      parts: filters.parts.includes(part)
+        ? filters.parts.filter(p => p !== part)
+        : [...filters.parts, part].sort(),
+    });
+  };
+
+  const toggleCategory = (category: string) => {
+    updateFilters({
+      categories: filters.categories.includes(category)
+        ? filters.categories.filter(c => c !== category)
+        : [...filters.categories, category],
+    });
+  };
+
+  const handleStart = () => {
+    onStart(buildPracticeSession(questions, filters, stats, reviews));
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-100">
+      <div className="flex items-center justify-between p-4">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center gap-2 font-semibold text-gray-900"
+        >
+          <Filter className="w-5 h-5 text-blue-600" />
+          Practice Session
+          {isOpen ? <ChevronUp className="w-4 h-4 text-gray-500" /> : <ChevronDown className="w-4 h-4 text-gray-500" />}
+        </button>
+        {activeSessionSize !== null && (
+          <button
+            onClick={onEnd}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+          >
+            <X className="w-4 h-4" />
+            End session ({activeSessionSize})
+          </button>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-4 border-t border-gray-100 pt-4">
+          <div>
+            <p className="text-xs font-medium text-gray-700 mb-2">Parts</p>
+            <div className="flex gap-2">
+              {([1, 2, 3] as const).map(part => (
+                <button
+                  key={part}
+                  onClick={() => togglePart(part)}
+                  className={`flex-1 px-3 py-1.5 text-sm font-medium rounded-lg border transition-colors ${
+                    filters.parts.includes(part)
+                      ? 'bg-blue-600 border-blue-600 text-white'
+                      : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  Part {part}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-xs font-medium text-gray-700">Categories</p>
+              {filters.categories.length > 0 && (
+                <button
+                  onClick={() => updateFilters({ categories: [] })}
+                  className="text-xs text-blue-600 hover:underline"
+                >
+                  Any category
+                </button>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-1.5 max-h-32 overflow-y-auto">
+              {categories.map(category => (
+                <button
+                  key={category}
+                  onClick={() => toggleCategory(category)}
+                  className={`px-2 py-0.5 rounded-full text-xs font-medium border transition-colors ${
+                    filters.categories.includes(category)
+                      ? 'bg-blue-50 border-blue-300 text-blue-700'
+                      : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {category}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-2">Practice status</label>
+            <select
+              value={filters.status}
+              onChange={(e) => updateFilters({ status: e.target.value as PracticeStatusFilter })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {STATUS_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            {statsError && <p className="text-xs text-red-600 mt-1">{statsError}</p>}
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-2">Added after</label>
+            <input
+              type="date"
+              value={filters.createdAfter ?? ''}
+              onChange={(e) => updateFilters({ createdAfter: e.target.value || null })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={filters.shuffle}
+              onChange={(e) => updateFilters({ shuffle: e.target.checked })}
+              className="rounded border-gray-300"
+            />
+            <Shuffle className="w-4 h-4 text-gray-500" />
+            Shuffle questions
+          </label>
+
+          <button
+            onClick={handleStart}
+            disabled={matchCount === 0 || statsLoading}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white rounded-lg font-medium transition-colors"
+          >
+            <Play className="w-4 h-4" />
+            {statsLoading
+              ? 'Loading practice history...'
+              : `Start session (${matchCount} question${matchCount === 1 ? '' : 's'})`}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
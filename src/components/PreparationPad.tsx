@@ -0,0 +1,93 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Hourglass, Mic, NotebookPen } from 'lucide-react';
+
+interface PreparationPadProps {
+  notes: string;
+  onNotesChange: (notes: string) => void;
+  onComplete: () => void;
+  prepSeconds?: number;
+}
+
+export const PreparationPad: React.FC<PreparationPadProps> = ({
+  notes,
+  onNotesChange,
+  onComplete,
+  prepSeconds = 60,
+}) => {
+  const [remaining, setRemaining] = useState(prepSeconds);
+  const completedRef = useRef(false);
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setRemaining(prev => Math.max(0, prev - 1));
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  // Recording starts by itself once the minute is over, as in the exam
+  useEffect(() => {
+    if (remaining === 0 && !completedRef.current) {
+      completedRef.current = true;
+      onComplete();
+    }
+  }, [remaining, onComplete]);
+
+  const handleStartNow = () => {
+    if (completedRef.current) return;
+    completedRef.current = true;
+    onComplete();
+  };
+
+  const formatTime = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    const remainingSeconds = seconds % 60;
+    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+  };
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-amber-900">
+          <Hourglass className="w-5 h-5" />
+          <span className="font-semibold">Preparation time</span>
+        </div>
+        <div className={`text-2xl font-mono font-bold ${remaining <= 10 ? 'text-red-600' : 'text-amber-900'}`}>
+          {formatTime(remaining)}
+        </div>
+      </div>
+
+      <div className="w-full bg-amber-100 rounded-full h-2">
+        <div
+          className="bg-amber-500 h-2 rounded-full transition-all duration-1000"
+          style={{ width: `${((prepSeconds - remaining) / prepSeconds) * 100}%` }}
+        />
+      </div>
+
+      <div>
+        <label className="flex items-center gap-2 text-sm font-medium text-amber-900 mb-2">
+          <NotebookPen className="w-4 h-4" />
+          Notes
+        </label>
+        <textarea
+          value={notes}
+          onChange={(e) => onNotesChange(e.target.value)}
+          placeholder="Jot down key words for each bullet point..."
+          rows={5}
+          autoFocus
+          className="w-full px-3 py-2 border border-amber-200 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent bg-white text-sm resize-vertical"
+        />
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleStartNow}
+          className="flex items-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg font-medium transition-colors text-sm"
+        >
+          <Mic className="w-4 h-4" />
+          Start Speaking Now
+        </button>
+      </div>
+    </div>
+  );
+};
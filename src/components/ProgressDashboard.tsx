@@ -0,0 +1,267 @@
+import React from 'react';
+import { ArrowLeft, Flame, Trophy, Clock, Mic, BarChart3, Target } from 'lucide-react';
+import { useProgress } from '../hooks/useProgress';
+import { ACTIVITY_DAYS } from '../lib/progress';
+import { TimingProfiles } from '../lib/timing';
+import { IELTSQuestion } from '../types';
+
+interface ProgressDashboardProps {
+  questions: IELTSQuestion[];
+  timingProfiles: TimingProfiles;
+  userId: string | null;
+  onBack: () => void;
+  onSelectQuestion: (serialNumber: number) => void;
+}
+
+// Never-attempted questions listed before the rest are summarised
+const NEVER_ATTEMPTED_SHOWN = 10;
+const CATEGORIES_SHOWN = 10;
+
+export const ProgressDashboard: React.FC<ProgressDashboardProps> = ({
+  questions,
+  timingProfiles,
+  userId,
+  onBack,
+  onSelectQuestion,
+}) => {
+  const { summary, loading, error } = useProgress(userId, questions, timingProfiles);
+
+  const formatTime = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    const remainingSeconds = Math.round(seconds % 60);
+    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+  };
+
+  const formatDay = (date: string) => {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  };
+
+  const getPartBarColor = (part: number) => {
+    switch (part) {
+      case 1: return 'bg-blue-500';
+      case 2: return 'bg-green-500';
+      case 3: return 'bg-purple-500';
+      default: return 'bg-gray-500';
+    }
+  };
+
+  const maxDailySeconds = Math.max(...summary.daily.map(d => d.seconds), 1);
+  const maxPartAttempts = Math.max(...Object.values(summary.attemptsByPart), 1);
+  const topCategories = summary.attemptsByCategory.slice(0, CATEGORIES_SHOWN);
+  const maxCategoryAttempts = Math.max(...topCategories.map(c => c.attempts), 1);
+  const maxTiming = Math.max(
+    ...summary.timingByPart.flatMap(t => [t.averageDuration, t.averageTarget]),
+    1
+  );
+  const coverage = questions.length > 0 ? (summary.attemptedCount / questions.length) * 100 : 0;
+
+  const statCards = [
+    { label: 'Current streak', value: `${summary.currentStreak} day${summary.currentStreak === 1 ? '' : 's'}`, icon: Flame, color: 'text-orange-600 bg-orange-100' },
+    { label: 'Longest streak', value: `${summary.longestStreak} day${summary.longestStreak === 1 ? '' : 's'}`, icon: Trophy, color: 'text-yellow-600 bg-yellow-100' },
+    { label: 'Minutes spoken', value: Math.round(summary.totalSeconds / 60).toString(), icon: Clock, color: 'text-blue-600 bg-blue-100' },
+    { label: 'Attempts', value: summary.totalAttempts.toString(), icon: Mic, color: 'text-green-600 bg-green-100' },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={onBack}
+              className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back to Practice
+            </button>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Your Progress</h1>
+              <p className="text-gray-600">Practice across the whole question bank</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {loading ? (
+          <div className="text-center py-16">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="text-gray-500 text-sm mt-3">Loading your progress...</p>
+          </div>
+        ) : error ? (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-6 text-center text-red-700">{error}</div>
+        ) : (
+          <div className="space-y-8">
+            {/* Headline figures */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {statCards.map(({ label, value, icon: Icon, color }) => (
+                <div key={label} className="bg-white rounded-xl shadow-lg p-4 border border-gray-100">
+                  <div className={`w-9 h-9 rounded-lg flex items-center justify-center mb-3 ${color}`}>
+                    <Icon className="w-5 h-5" />
+                  </div>
+                  <div className="text-2xl font-bold text-gray-900">{value}</div>
+                  <div className="text-sm text-gray-600">{label}</div>
+                </div>
+              ))}
+            </div>
+
+            {/* Daily activity */}
+            <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-100">
+              <h3 className="font-semibold text-gray-900 mb-4">Minutes spoken, last {ACTIVITY_DAYS} days</h3>
+              <div className="flex items-end gap-1 h-32">
+                {summary.daily.map(day => (
+                  <div
+                    key={day.date}
+                    className="flex-1 h-full flex items-end"
+                    title={`${formatDay(day.date)}: ${day.attempts} attempt${day.attempts === 1 ? '' : 's'}, ${formatTime(day.seconds)}`}
+                  >
+                    <div
+                      className={`w-full rounded-t ${day.seconds > 0 ? 'bg-blue-500' : 'bg-gray-100'}`}
+                      style={{ height: `${day.seconds > 0 ? Math.max((day.seconds / maxDailySeconds) * 100, 4) : 4}%` }}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-between text-xs text-gray-400 mt-2">
+                <span>{formatDay(summary.daily[0].date)}</span>
+                <span>Today</span>
+              </div>
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-8">
+              {/* Attempts per part */}
+              <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-100">
+                <h3 className="font-semibold text-gray-900 mb-4">Attempts per part</h3>
+                <div className="space-y-3">
+                  {([1, 2, 3] as const).map(part => (
+                    <div key={part}>
+                      <div className="flex justify-between text-sm text-gray-700 mb-1">
+                        <span>Part {part}</span>
+                        <span>{summary.attemptsByPart[part]}</span>
+                      </div>
+                      <div className="w-full bg-gray-100 rounded-full h-2.5">
+                        <div
+                          className={`h-2.5 rounded-full ${getPartBarColor(part)}`}
+                          style={{ width: `${(summary.attemptsByPart[part] / maxPartAttempts) * 100}%` }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Duration against target */}
+              <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-100">
+                <div className="flex items-center gap-2 mb-4">
+                  <Target className="w-5 h-5 text-gray-500" />
+                  <h3 className="font-semibold text-gray-900">Average length vs target</h3>
+                </div>
+                {summary.timingByPart.length === 0 ? (
+                  <p className="text-sm text-gray-500">No attempts yet.</p>
+                ) : (
+                  <div className="space-y-4">
+                    {summary.timingByPart.map(timing => (
+                      <div key={timing.part}>
+                        <div className="flex justify-between text-sm text-gray-700 mb-1">
+                          <span>Part {timing.part}</span>
+                          <span>
+                            {formatTime(timing.averageDuration)} of {formatTime(timing.averageTarget)}
+                            {' '}({Math.round((timing.averageDuration / timing.averageTarget) * 100)}%)
+                          </span>
+                        </div>
+                        <div className="relative w-full bg-gray-100 rounded-full h-2.5">
+                          <div
+                            className={`h-2.5 rounded-full ${getPartBarColor(timing.part)}`}
+                            style={{ width: `${(timing.averageDuration / maxTiming) * 100}%` }}
+                          />
+                          <div
+                            className="absolute -top-1 w-0.5 h-4 bg-gray-700"
+                            style={{ left: `${(timing.averageTarget / maxTiming) * 100}%` }}
+                            title="Target length"
+                          />
+                        </div>
+                      </div>
+                    ))}
+                    <p className="text-xs text-gray-500">The dark marker shows the average target length.</p>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Attempts per category */}
+            <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-100">
+              <div className="flex items-center gap-2 mb-4">
+                <BarChart3 className="w-5 h-5 text-gray-500" />
+                <h3 className="font-semibold text-gray-900">Attempts per category</h3>
+              </div>
+              {topCategories.length === 0 ? (
+                <p className="text-sm text-gray-500">No attempts yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {topCategories.map(({ category, attempts }) => (
+                    <div key={category} className="flex items-center gap-3">
+                      <span className="w-40 text-sm text-gray-700 truncate" title={category}>{category}</span>
+                      <div className="flex-1 bg-gray-100 rounded-full h-2.5">
+                        <div
+                          className="h-2.5 rounded-full bg-blue-500"
+                          style={{ width: `${(attempts / maxCategoryAttempts) * 100}%` }}
+                        />
+                      </div>
+                      <span className="w-8 text-right text-sm text-gray-600">{attempts}</span>
+                    </div>
+                  ))}
+                  {summary.attemptsByCategory.length > CATEGORIES_SHOWN && (
+                    <p className="text-xs text-gray-500 pt-1">
+                      and {summary.attemptsByCategory.length - CATEGORIES_SHOWN} more categories
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {/* Coverage */}
+            <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-100">
+              <div className="flex justify-between items-center mb-2">
+                <h3 className="font-semibold text-gray-900">Question bank coverage</h3>
+                <span className="text-sm text-gray-600">
+                  {summary.attemptedCount} of {questions.length} attempted
+                </span>
+              </div>
+              <div className="w-full bg-gray-100 rounded-full h-2.5 mb-4">
+                <div className="h-2.5 rounded-full bg-green-500" style={{ width: `${coverage}%` }} />
+              </div>
+
+              {summary.neverAttempted.length > 0 && (
+                <>
+                  <p className="text-sm font-medium text-gray-700 mb-2">Never attempted</p>
+                  <ul className="divide-y divide-gray-100">
+                    {summary.neverAttempted.slice(0, NEVER_ATTEMPTED_SHOWN).map(question => (
+                      <li key={question.id}>
+                        <button
+                          onClick={() => onSelectQuestion(question.serial_number)}
+                          className="w-full flex items-center gap-3 py-2 text-left text-sm hover:bg-gray-50 rounded-lg px-2 transition-colors"
+                        >
+                          <span className="text-gray-400 w-10">#{question.serial_number}</span>
+                          <span className="text-xs text-gray-500 w-12">Part {question.part}</span>
+                          <span className="flex-1 text-gray-800 truncate">{question.question}</span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                  {summary.neverAttempted.length > NEVER_ATTEMPTED_SHOWN && (
+                    <p className="text-xs text-gray-500 pt-2">
+                      and {summary.neverAttempted.length - NEVER_ATTEMPTED_SHOWN} more
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
@@ -2,22 +2,30 @@ import React from 'react';
 import { Clock, BookOpen, Hash, Trash2 } from 'lucide-react';
 import { IELTSQuestion } from '../types';
 import { supabase } from '../lib/supabase';
+import { getCueCard } from '../lib/cueCard';
+import { TimingProfile } from '../lib/timing';
+import { CueCardDisplay } from './CueCardDisplay';
 
 interface QuestionDisplayProps {
   question: IELTSQuestion;
+  timing: TimingProfile;
   currentIndex: number;
   totalQuestions: number;
   onQuestionDeleted?: () => void;
+  canDelete?: boolean;
 }
 
 export const QuestionDisplay: React.FC<QuestionDisplayProps> = ({
   question,
+  timing,
   currentIndex,
   totalQuestions,
   onQuestionDeleted,
+  canDelete = false,
 }) => {
   const [isDeleting, setIsDeleting] = React.useState(false);
   const [showConfirm, setShowConfirm] = React.useState(false);
+  const cueCard = getCueCard(question);
 
   const formatTime = (seconds: number) => {
     const minutes = Math.floor(seconds / 60);
@@ -87,43 +95,48 @@ export const QuestionDisplay: React.FC<QuestionDisplayProps> = ({
         </div>
         
         <div className="flex items-center gap-4">
-          <div className="flex items-center gap-2 text-gray-500">
+          <div
+            className="flex items-center gap-2 text-gray-500"
+            title={`Aim for ${formatTime(timing.target)}, at least ${formatTime(timing.min)} and at most ${formatTime(timing.max)}`}
+          >
             <Clock className="w-4 h-4" />
-            <span className="text-sm font-medium">{formatTime(question.time_limit)}</span>
+            <span className="text-sm font-medium">{formatTime(timing.target)}</span>
           </div>
           
           {/* Delete Button */}
-          <div className="relative">
-            {!showConfirm ? (
-              <button
-                onClick={handleDeleteClick}
-                disabled={isDeleting}
-                className="flex items-center gap-1 px-3 py-1 text-red-600 hover:bg-red-50 hover:text-red-700 disabled:opacity-50 rounded-lg transition-colors text-sm font-medium"
-                title="Delete this question"
-              >
-                <Trash2 className="w-4 h-4" />
-                <span>Delete</span>
-              </button>
-            ) : (
-              <div className="flex items-center gap-2 bg-red-50 border border-red-200 rounded-lg p-2">
-                <span className="text-red-800 text-sm font-medium">Delete?</span>
+          {canDelete && (
+            <div className="relative">
+              {!showConfirm ? (
                 <button
-                  onClick={handleDelete}
+                  onClick={handleDeleteClick}
                   disabled={isDeleting}
-                  className="px-2 py-1 bg-red-600 hover:bg-red-700 disabled:bg-red-400 text-white rounded text-xs font-medium transition-colors"
+                  className="flex items-center gap-1 px-3 py-1 text-red-600 hover:bg-red-50 hover:text-red-700 disabled:opacity-50 rounded-lg transition-colors text-sm font-medium"
+                  title="Delete this question"
                 >
-                  {isDeleting ? 'Deleting...' : 'Yes'}
+                  <Trash2 className="w-4 h-4" />
+                  <span>Delete</span>
                 </button>
-                <button
-                  onClick={handleCancelDelete}
-                  disabled={isDeleting}
-                  className="px-2 py-1 bg-gray-300 hover:bg-gray-400 disabled:bg-gray-200 text-gray-700 rounded text-xs font-medium transition-colors"
-                >
-                  No
-                </button>
-              </div>
-            )}
-          </div>
+              ) : (
+                <div className="flex items-center gap-2 bg-red-50 border border-red-200 rounded-lg p-2">
+                  <span className="text-red-800 text-sm font-medium">Delete?</span>
+                  <button
+                    onClick={handleDelete}
+                    disabled={isDeleting}
+                    className="px-2 py-1 bg-red-600 hover:bg-red-700 disabled:bg-red-400 text-white rounded text-xs font-medium transition-colors"
+                  >
+                    {isDeleting ? 'Deleting...' : 'Yes'}
+                  </button>
+                  <button
+                    onClick={handleCancelDelete}
+                    disabled={isDeleting}
+                    className="px-2 py-1 bg-gray-300 hover:bg-gray-400 disabled:bg-gray-200 text-gray-700 rounded text-xs font-medium transition-colors"
+                  >
+                    No
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
         </div>
       </div>
 
@@ -143,9 +156,13 @@ export const QuestionDisplay: React.FC<QuestionDisplayProps> = ({
 
       {/* Question */}
       <div className="mb-8">
-        <h2 className="text-2xl font-bold text-gray-900 leading-relaxed">
-          {question.question}
-        </h2>
+        {cueCard ? (
+          <CueCardDisplay cueCard={cueCard} />
+        ) : (
+          <h2 className="text-2xl font-bold text-gray-900 leading-relaxed">
+            {question.question}
+          </h2>
+        )}
       </div>
 
       {/* Guidelines */}
@@ -0,0 +1,164 @@
+import React, { useMemo, useState } from 'react';
+import { Save, X, Search } from 'lucide-react';
+import { IELTSQuestion, QuestionSet } from '../types';
+
+interface QuestionSetEditorProps {
+  questionSet: QuestionSet | null;
+  questions: IELTSQuestion[];
+  questionSets: QuestionSet[];
+  onSave: (input: { title: string; description: string | null }, memberIds: string[]) => Promise<void>;
+  onCancel: () => void;
+}
+
+export const QuestionSetEditor: React.FC<QuestionSetEditorProps> = ({
+  questionSet,
+  questions,
+  questionSets,
+  onSave,
+  onCancel,
+}) => {
+  const [title, setTitle] = useState(questionSet?.title ?? '');
+  const [description, setDescription] = useState(questionSet?.description ?? '');
+  const [memberIds, setMemberIds] = useState<string[]>(
+    questionSet ? questions.filter(q => q.question_set_id === questionSet.id).map(q => q.id) : []
+  );
+  const [activePart, setActivePart] = useState<1 | 2 | 3>(2);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const setTitles = useMemo(
+    () => new Map(questionSets.map(set => [set.id, set.title])),
+    [questionSets]
+  );
+
+  const visibleQuestions = questions.filter(q => {
+    if (q.part !== activePart) return false;
+    const term = searchTerm.trim().toLowerCase();
+    return !term || q.question.toLowerCase().includes(term) || q.category.toLowerCase().includes(term);
+  });
+
+  const countForPart = (part: number) =>
+    questions.filter(q => q.part === part && memberIds.includes(q.id)).length;
+
+  const toggleMember = (id: string) => {
+    setMemberIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      await onSave({ title: title.trim(), description: description.trim() || null }, memberIds);
+    } catch (error) {
+      console.error('Error saving question set:', error);
+      alert('Failed to save question set. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Theme</label>
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="e.g. A journey you remember"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+          <input
+            type="text"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Optional notes for editors"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center gap-2 mb-3">
+          {([1, 2, 3] as const).map(part => (
+            <button
+              key={part}
+              onClick={() => setActivePart(part)}
+              className={`px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${
+                activePart === part ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              Part {part} ({countForPart(part)})
+            </button>
+          ))}
+          <div className="relative flex-1">
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Filter questions..."
+              className="w-full pl-3 pr-9 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <Search className="absolute right-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+          </div>
+        </div>
+
+        {activePart === 2 && countForPart(2) > 1 && (
+          <p className="text-xs text-amber-700 mb-2">A set usually has a single cue card.</p>
+        )}
+
+        <div className="max-h-72 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+          {visibleQuestions.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500">No Part {activePart} questions match.</p>
+          ) : (
+            visibleQuestions.map(q => {
+              const otherSet = q.question_set_id && q.question_set_id !== questionSet?.id
+                ? setTitles.get(q.question_set_id)
+                : null;
+              return (
+                <label key={q.id} className="flex items-start gap-3 p-3 hover:bg-gray-50 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={memberIds.includes(q.id)}
+                    onChange={() => toggleMember(q.id)}
+                    className="mt-0.5 rounded border-gray-300"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-gray-800">
+                      <span className="text-gray-400 mr-2">#{q.serial_number}</span>
+                      {q.question}
+                    </p>
+                    {otherSet && !memberIds.includes(q.id) && (
+                      <p className="text-xs text-gray-500 mt-0.5">In “{otherSet}”; selecting moves it here</p>
+                    )}
+                  </div>
+                </label>
+              );
+            })
+          )}
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="flex items-center gap-2 px-3 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+        >
+          <X className="w-4 h-4" />
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !title.trim()}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-lg transition-colors"
+        >
+          <Save className="w-4 h-4" />
+          {isSaving ? 'Saving...' : 'Save Set'}
+        </button>
+      </div>
+    </div>
+  );
+};
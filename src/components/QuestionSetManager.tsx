@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { ArrowLeft, Plus, Edit3, Trash2, Layers } from 'lucide-react';
+import { useQuestionSets } from '../hooks/useQuestionSets';
+import { setQuestionSetMembers } from '../lib/questionSets';
+import { QuestionSetEditor } from './QuestionSetEditor';
+import { IELTSQuestion, QuestionSet } from '../types';
+
+interface QuestionSetManagerProps {
+  questions: IELTSQuestion[];
+  onBack: () => void;
+  onQuestionsChanged: () => void;
+}
+
+export const QuestionSetManager: React.FC<QuestionSetManagerProps> = ({
+  questions,
+  onBack,
+  onQuestionsChanged,
+}) => {
+  const { questionSets, loading, error, addQuestionSet, editQuestionSet, removeQuestionSet } = useQuestionSets();
+  // null while idle, 'new' while creating, or the set being edited
+  const [editing, setEditing] = useState<QuestionSet | 'new' | null>(null);
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
+
+  const handleSave = async (input: { title: string; description: string | null }, memberIds: string[]) => {
+    const saved = editing === 'new' || editing === null
+      ? await addQuestionSet(input)
+      : await editQuestionSet(editing.id, input);
+    await setQuestionSetMembers(saved.id, memberIds);
+    onQuestionsChanged();
+    setEditing(null);
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await removeQuestionSet(id);
+      onQuestionsChanged();
+    } catch (error) {
+      console.error('Error deleting question set:', error);
+      alert('Failed to delete question set. Please try again.');
+    } finally {
+      setConfirmingDeleteId(null);
+    }
+  };
+
+  const getPartColor = (part: number) => {
+    switch (part) {
+      case 1: return 'bg-blue-100 text-blue-800';
+      case 2: return 'bg-green-100 text-green-800';
+      case 3: return 'bg-purple-100 text-purple-800';
+      default: return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <button
+                onClick={onBack}
+                className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                Back to Practice
+              </button>
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Question Sets</h1>
+                <p className="text-gray-600">Link a Part 2 cue card with its Part 3 discussion</p>
+              </div>
+            </div>
+            {editing === null && (
+              <button
+                onClick={() => setEditing('new')}
+                className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                New Set
+              </button>
+            )}
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {editing !== null && (
+          <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-100">
+            <h3 className="font-semibold text-gray-900 mb-4">
+              {editing === 'new' ? 'New Question Set' : `Edit “${editing.title}”`}
+            </h3>
+            <QuestionSetEditor
+              key={editing === 'new' ? 'new' : editing.id}
+              questionSet={editing === 'new' ? null : editing}
+              questions={questions}
+              questionSets={questionSets}
+              onSave={handleSave}
+              onCancel={() => setEditing(null)}
+            />
+          </div>
+        )}
+
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="text-gray-500 text-sm mt-2">Loading question sets...</p>
+          </div>
+        ) : error ? (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-6 text-center text-red-700">{error}</div>
+        ) : questionSets.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="w-12 h-12 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-3">
+              <Layers className="w-6 h-6 text-gray-400" />
+            </div>
+            <p className="text-gray-500">No question sets yet</p>
+            <p className="text-gray-400 text-sm">Create one to link a cue card with its follow-up questions</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {questionSets.map(set => {
+              const members = questions.filter(q => q.question_set_id === set.id);
+              return (
+                <div key={set.id} className="bg-white rounded-xl shadow-lg p-6 border border-gray-100">
+                  <div className="flex items-start justify-between gap-4 mb-3">
+                    <div>
+                      <h3 className="font-semibold text-gray-900">{set.title}</h3>
+                      {set.description && <p className="text-sm text-gray-600">{set.description}</p>}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => setEditing(set)}
+                        className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                      >
+                        <Edit3 className="w-4 h-4" />
+                        Edit
+                      </button>
+                      {confirmingDeleteId === set.id ? (
+                        <div className="flex items-center gap-2 bg-red-50 border border-red-200 rounded-lg px-3 py-1.5">
+                          <span className="text-red-800 text-sm font-medium">Delete?</span>
+                          <button
+                            onClick={() => handleDelete(set.id)}
+                            className="px-2 py-1 bg-red-600 hover:bg-red-700 text-white text-xs font-medium rounded transition-colors"
+                          >
+                            Yes
+                          </button>
+                          <button
+                            onClick={() => setConfirmingDeleteId(null)}
+                            className="px-2 py-1 bg-gray-200 hover:bg-gray-300 text-gray-700 text-xs font-medium rounded transition-colors"
+                          >
+                            No
+                          </button>
+                        </div>
+                      ) : (
+                        <button
+                          onClick={() => setConfirmingDeleteId(set.id)}
+                          className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                          Delete
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {members.length === 0 ? (
+                    <p className="text-sm text-gray-500 italic">No questions in this set yet.</p>
+                  ) : (
+                    <ul className="space-y-1.5">
+                      {[...members].sort((a, b) => a.part - b.part || a.serial_number - b.serial_number).map(q => (
+                        <li key={q.id} className="flex items-start gap-2 text-sm">
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium flex-shrink-0 ${getPartColor(q.part)}`}>
+                            Part {q.part}
+                          </span>
+                          <span className="text-gray-800">{q.question}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
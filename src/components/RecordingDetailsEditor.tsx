@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Plus, Save, X } from 'lucide-react';
+import { updateRecordingDetails } from '../lib/recordings';
+import { UserRecording } from '../types';
+
+interface RecordingDetailsEditorProps {
+  recording: UserRecording;
+  onSaved: (recording: UserRecording) => void;
+  onCancel: () => void;
+}
+
+const SUGGESTED_LABELS = ['Best take', 'Needs work', 'Review later'];
+
+export const RecordingDetailsEditor: React.FC<RecordingDetailsEditorProps> = ({
+  recording,
+  onSaved,
+  onCancel,
+}) => {
+  const [labels, setLabels] = useState<string[]>(recording.labels ?? []);
+  const [notes, setNotes] = useState(recording.notes ?? '');
+  const [newLabel, setNewLabel] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const addLabel = (label: string) => {
+    const trimmed = label.trim();
+    if (trimmed && !labels.includes(trimmed)) {
+      setLabels([...labels, trimmed]);
+    }
+    setNewLabel('');
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      const updated = await updateRecordingDetails(recording.id, {
+        labels,
+        notes: notes.trim() || null,
+      });
+      onSaved(updated);
+    } catch (error) {
+      console.error('Error updating recording details:', error);
+      alert('Failed to save labels and notes. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-2">Labels</label>
+        <div className="flex flex-wrap items-center gap-1.5 mb-2">
+          {labels.map(label => (
+            <span
+              key={label}
+              className="flex items-center gap-1 pl-2 pr-1 py-0.5 bg-indigo-50 text-indigo-700 border border-indigo-200 rounded-full text-xs font-medium"
+            >
+              {label}
+              <button
+                onClick={() => setLabels(labels.filter(l => l !== label))}
+                className="p-0.5 hover:bg-indigo-100 rounded-full"
+                title="Remove label"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+          {SUGGESTED_LABELS.filter(label => !labels.includes(label)).map(label => (
+            <button
+              key={label}
+              onClick={() => addLabel(label)}
+              className="px-2 py-0.5 border border-dashed border-gray-300 text-gray-500 hover:bg-gray-50 rounded-full text-xs"
+            >
+              + {label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={newLabel}
+            onChange={(e) => setNewLabel(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                addLabel(newLabel);
+              }
+            }}
+            placeholder="Add a label..."
+            className="flex-1 px-3 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            onClick={() => addLabel(newLabel)}
+            disabled={!newLabel.trim()}
+            className="p-1.5 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-2">Notes</label>
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={3}
+          placeholder="What went well, what to try next time..."
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+        />
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-lg transition-colors"
+        >
+          <Save className="w-4 h-4" />
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+};
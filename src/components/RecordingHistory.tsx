@@ -1,52 +1,33 @@
 import React from 'react';
-import { Play, Download, Clock, Calendar } from 'lucide-react';
-import { UserRecording } from '../types';
+import { Play, History } from 'lucide-react';
+import { RecordingHistoryItem } from './RecordingHistoryItem';
+import { VocabularyTrend } from './VocabularyTrend';
+import { useVocabularyTrend } from '../hooks/useVocabularyTrend';
+import { TimingProfiles } from '../lib/timing';
+import { IELTSQuestion, UserRecording } from '../types';
 
 interface RecordingHistoryProps {
   recordings: UserRecording[];
   loading: boolean;
   error: string | null;
+  question?: IELTSQuestion | null;
+  timingProfiles: TimingProfiles;
+  userId?: string | null;
+  onRecordingUpdated?: (recording: UserRecording) => void;
+  onViewAll?: () => void;
 }
 
 export const RecordingHistory: React.FC<RecordingHistoryProps> = ({
   recordings,
   loading,
   error,
+  question = null,
+  timingProfiles,
+  userId = null,
+  onRecordingUpdated,
+  onViewAll,
 }) => {
-  const formatTime = (seconds: number) => {
-    const minutes = Math.floor(seconds / 60);
-    const remainingSeconds = seconds % 60;
-    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
-  };
-
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return date.toLocaleDateString('en-US', {
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
-    });
-  };
-
-  const downloadRecording = async (recording: UserRecording) => {
-    try {
-      const response = await fetch(recording.audio_url);
-      const blob = await response.blob();
-      
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `recording-${formatDate(recording.created_at)}.webm`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-    } catch (error) {
-      console.error('Error downloading recording:', error);
-      alert('Failed to download recording');
-    }
-  };
+  const vocabularyTrend = useVocabularyTrend(question, userId);
 
   if (loading) {
     return (
@@ -73,7 +54,18 @@ export const RecordingHistory: React.FC<RecordingHistoryProps> = ({
 
   return (
     <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-100">
-      <h3 className="font-semibold text-gray-900 mb-4">Previous Recordings</h3>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold text-gray-900">Previous Recordings</h3>
+        {onViewAll && (
+          <button
+            onClick={onViewAll}
+            className="flex items-center gap-1 text-sm font-medium text-blue-600 hover:text-blue-700"
+          >
+            <History className="w-4 h-4" />
+            View all
+          </button>
+        )}
+      </div>
       
       {recordings.length === 0 ? (
         <div className="text-center py-8">
@@ -84,41 +76,21 @@ export const RecordingHistory: React.FC<RecordingHistoryProps> = ({
           <p className="text-gray-400 text-sm">Your practice recordings will appear here</p>
         </div>
       ) : (
-        <div className="space-y-3">
-          {recordings.map((recording) => (
-            <div
-              key={recording.id}
-              className="border border-gray-200 rounded-lg p-4 hover:bg-gray-50 transition-colors"
-            >
-              <div className="flex items-center justify-between mb-3">
-                <div className="flex items-center gap-2 text-sm text-gray-600">
-                  <Calendar className="w-4 h-4" />
-                  <span>{formatDate(recording.created_at)}</span>
-                </div>
-                <div className="flex items-center gap-2 text-sm text-gray-600">
-                  <Clock className="w-4 h-4" />
-                  <span>{formatTime(recording.duration)}</span>
-                </div>
-              </div>
-              
-              <div className="flex items-center gap-3">
-                <audio
-                  controls
-                  src={recording.audio_url}
-                  className="flex-1 h-8"
-                  style={{ maxHeight: '32px' }}
-                />
-                <button
-                  onClick={() => downloadRecording(recording)}
-                  className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
-                  title="Download recording"
-                >
-                  <Download className="w-4 h-4" />
-                </button>
-              </div>
-            </div>
-          ))}
-        </div>
+        <>
+          <VocabularyTrend points={vocabularyTrend.points} />
+          <div className="space-y-3">
+            {recordings.map((recording) => (
+              <RecordingHistoryItem
+                key={recording.id}
+                recording={recording}
+                question={question}
+                timingProfiles={timingProfiles}
+                onTranscribed={vocabularyTrend.refetch}
+                onRecordingUpdated={onRecordingUpdated}
+              />
+            ))}
+          </div>
+        </>
       )}
     </div>
   );
@@ -0,0 +1,295 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowLeft, Trash2, Loader2, Play } from 'lucide-react';
+import { usePaginatedRecordings } from '../hooks/usePaginatedRecordings';
+import { RecordingHistoryFilters, RecordingSort } from '../lib/recordings';
+import { RecordingHistoryItem } from './RecordingHistoryItem';
+import { TimingProfiles } from '../lib/timing';
+import { IELTSQuestion } from '../types';
+
+interface RecordingHistoryBrowserProps {
+  questions: IELTSQuestion[];
+  timingProfiles: TimingProfiles;
+  userId: string | null;
+  initialQuestionId?: string | null;
+  onBack: () => void;
+}
+
+const SORT_OPTIONS: Array<{ label: string; sort: RecordingSort }> = [
+  { label: 'Newest first', sort: { field: 'created_at', ascending: false } },
+  { label: 'Oldest first', sort: { field: 'created_at', ascending: true } },
+  { label: 'Longest first', sort: { field: 'duration', ascending: false } },
+  { label: 'Shortest first', sort: { field: 'duration', ascending: true } },
+];
+
+export const RecordingHistoryBrowser: React.FC<RecordingHistoryBrowserProps> = ({
+  questions,
+  timingProfiles,
+  userId,
+  initialQuestionId = null,
+  onBack,
+}) => {
+  const [filters, setFilters] = useState<RecordingHistoryFilters>({
+    questionId: initialQuestionId,
+    part: null,
+    from: null,
+    to: null,
+  });
+  const [sortIndex, setSortIndex] = useState(0);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const sort = SORT_OPTIONS[sortIndex].sort;
+  const {
+    recordings,
+    loading,
+    loadingMore,
+    error,
+    hasMore,
+    loadMore,
+    removeRecordings,
+    replaceRecording,
+  } = usePaginatedRecordings(userId, filters, sort);
+
+  const questionsById = useMemo(() => new Map(questions.map(q => [q.id, q])), [questions]);
+
+  const updateFilters = (changes: Partial<RecordingHistoryFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+    setSelectedIds([]);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const allSelected = recordings.length > 0 && selectedIds.length === recordings.length;
+
+  const handleDelete = async () => {
+    try {
+      setIsDeleting(true);
+      await removeRecordings(selectedIds);
+      setSelectedIds([]);
+    } catch (error) {
+      console.error('Error deleting recordings:', error);
+      alert('Failed to delete recordings. Please try again.');
+    } finally {
+      setIsDeleting(false);
+      setIsConfirmingDelete(false);
+    }
+  };
+
+  const getPartColor = (part: number) => {
+    switch (part) {
+      case 1: return 'bg-blue-100 text-blue-800';
+      case 2: return 'bg-green-100 text-green-800';
+      case 3: return 'bg-purple-100 text-purple-800';
+      default: return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={onBack}
+              className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back to Practice
+            </button>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Recording History</h1>
+              <p className="text-gray-600">Every attempt you have recorded</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {/* Filters */}
+        <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-100">
+          <div className="grid md:grid-cols-5 gap-4">
+            <div className="md:col-span-2">
+              <label className="block text-xs font-medium text-gray-700 mb-1">Question</label>
+              <select
+                value={filters.questionId ?? ''}
+                onChange={(e) => updateFilters({ questionId: e.target.value || null })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">All questions</option>
+                {questions.map(q => (
+                  <option key={q.id} value={q.id}>
+                    #{q.serial_number} {q.question.length > 60 ? `${q.question.slice(0, 60)}…` : q.question}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Part</label>
+              <select
+                value={filters.part ?? ''}
+                onChange={(e) => updateFilters({ part: e.target.value ? Number(e.target.value) as 1 | 2 | 3 : null })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">All parts</option>
+                <option value="1">Part 1</option>
+                <option value="2">Part 2</option>
+                <option value="3">Part 3</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">From</label>
+              <input
+                type="date"
+                value={filters.from ?? ''}
+                onChange={(e) => updateFilters({ from: e.target.value || null })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">To</label>
+              <input
+                type="date"
+                value={filters.to ?? ''}
+                onChange={(e) => updateFilters({ to: e.target.value || null })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-4 mt-4 pt-4 border-t border-gray-100">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                onChange={() => setSelectedIds(allSelected ? [] : recordings.map(r => r.id))}
+                disabled={recordings.length === 0}
+                className="rounded border-gray-300"
+              />
+              Select all loaded
+            </label>
+
+            <div className="flex items-center gap-3">
+              <select
+                value={sortIndex}
+                onChange={(e) => {
+                  setSortIndex(Number(e.target.value));
+                  setSelectedIds([]);
+                }}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {SORT_OPTIONS.map((option, index) => (
+                  <option key={option.label} value={index}>{option.label}</option>
+                ))}
+              </select>
+
+              {!isConfirmingDelete ? (
+                <button
+                  onClick={() => setIsConfirmingDelete(true)}
+                  disabled={selectedIds.length === 0}
+                  className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-red-600 hover:bg-red-50 disabled:opacity-50 disabled:hover:bg-transparent rounded-lg transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Delete selected ({selectedIds.length})
+                </button>
+              ) : (
+                <div className="flex items-center gap-2 bg-red-50 border border-red-200 rounded-lg px-3 py-1.5">
+                  <span className="text-red-800 text-sm font-medium">
+                    Delete {selectedIds.length} recording{selectedIds.length === 1 ? '' : 's'}?
+                  </span>
+                  <button
+                    onClick={handleDelete}
+                    disabled={isDeleting}
+                    className="px-2 py-1 bg-red-600 hover:bg-red-700 disabled:bg-red-400 text-white text-xs font-medium rounded transition-colors"
+                  >
+                    {isDeleting ? 'Deleting...' : 'Yes'}
+                  </button>
+                  <button
+                    onClick={() => setIsConfirmingDelete(false)}
+                    disabled={isDeleting}
+                    className="px-2 py-1 bg-gray-200 hover:bg-gray-300 text-gray-700 text-xs font-medium rounded transition-colors"
+                  >
+                    No
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Results */}
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="text-gray-500 text-sm mt-2">Loading recordings...</p>
+          </div>
+        ) : error && recordings.length === 0 ? (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-6 text-center text-red-700">{error}</div>
+        ) : recordings.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="w-12 h-12 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-3">
+              <Play className="w-6 h-6 text-gray-400" />
+            </div>
+            <p className="text-gray-500">No recordings match these filters</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {recordings.map(recording => {
+              const question = questionsById.get(recording.question_id) ?? null;
+              return (
+                <div key={recording.id} className="bg-white rounded-xl shadow-sm border border-gray-100 p-4">
+                  <div className="flex items-start gap-3 mb-3">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(recording.id)}
+                      onChange={() => toggleSelected(recording.id)}
+                      className="mt-1 rounded border-gray-300"
+                    />
+                    {question ? (
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getPartColor(question.part)}`}>
+                            Part {question.part}
+                          </span>
+                          <span className="text-xs text-gray-500">#{question.serial_number} · {question.category}</span>
+                        </div>
+                        <p className="text-sm text-gray-800 truncate">{question.question}</p>
+                      </div>
+                    ) : (
+                      <p className="flex-1 text-sm text-gray-500 italic">Question no longer available</p>
+                    )}
+                  </div>
+                  <RecordingHistoryItem
+                    recording={recording}
+                    question={question}
+                    timingProfiles={timingProfiles}
+                    onRecordingUpdated={replaceRecording}
+                  />
+                </div>
+              );
+            })}
+
+            {error && <p className="text-sm text-red-600 text-center">{error}</p>}
+
+            {hasMore && (
+              <div className="text-center">
+                <button
+                  onClick={loadMore}
+                  disabled={loadingMore}
+                  className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 hover:bg-gray-50 disabled:opacity-50 text-gray-700 rounded-lg font-medium transition-colors"
+                >
+                  {loadingMore && <Loader2 className="w-4 h-4 animate-spin" />}
+                  {loadingMore ? 'Loading...' : 'Load more'}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,333 @@
+import React, { useRef, useState } from 'react';
+import { Download, Clock, Calendar, NotebookPen, FileText, Loader2, Award, Activity, Tag, StickyNote, AudioWaveform, FileAudio } from 'lucide-react';
+import { useTranscript } from '../hooks/useTranscript';
+import { useAssessment } from '../hooks/useAssessment';
+import { useHesitationAnalysis } from '../hooks/useHesitationAnalysis';
+import { useWaveform } from '../hooks/useWaveform';
+import { useRecordingAudioUrl } from '../hooks/useRecordingAudioUrl';
+import { TranscriptView } from './TranscriptView';
+import { BandScorePanel } from './BandScorePanel';
+import { HesitationTimeline } from './HesitationTimeline';
+import { Waveform } from './Waveform';
+import { VocabularyUsage } from './VocabularyUsage';
+import { RecordingDetailsEditor } from './RecordingDetailsEditor';
+import { matchKeyVocabulary } from '../lib/vocabulary';
+import { describeAudioFormat, getAudioExtension, isWidelyPlayable, transcodeToWav } from '../lib/audioFormat';
+import { downloadRecordingAudio } from '../lib/recordings';
+import { AudioSegment } from '../lib/waveform';
+import { TimingProfiles } from '../lib/timing';
+import { IELTSQuestion, UserRecording } from '../types';
+
+interface RecordingHistoryItemProps {
+  recording: UserRecording;
+  question: IELTSQuestion | null;
+  timingProfiles: TimingProfiles;
+  onTranscribed?: () => void;
+  onRecordingUpdated?: (recording: UserRecording) => void;
+}
+
+export const RecordingHistoryItem: React.FC<RecordingHistoryItemProps> = ({
+  recording,
+  question,
+  timingProfiles,
+  onTranscribed,
+  onRecordingUpdated,
+}) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [showTranscript, setShowTranscript] = useState(false);
+  const [showAssessment, setShowAssessment] = useState(false);
+  const [showHesitations, setShowHesitations] = useState(false);
+  const [showWaveform, setShowWaveform] = useState(false);
+  const [loop, setLoop] = useState<AudioSegment | null>(null);
+  const [isEditingDetails, setIsEditingDetails] = useState(false);
+
+  const { transcript, loading: transcriptLoading, isTranscribing, error: transcriptError, transcribe } =
+    useTranscript(recording);
+  const { assessment } = useAssessment(recording.id, transcript, question, timingProfiles);
+  // Decoding the audio is only worth it once the learner asks for the timeline
+  const { audioUrl, error: audioError, renew: renewAudioUrl } = useRecordingAudioUrl(recording);
+  const hesitation = useHesitationAnalysis(audioUrl, transcript?.words, showHesitations);
+  const waveform = useWaveform(audioUrl, showWaveform);
+  const formatLabel = describeAudioFormat(recording.format, recording.bitrate);
+
+  const formatTime = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    const remainingSeconds = seconds % 60;
+    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+  };
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  // Takes saved before conversion on upload, or whose conversion failed, can still be WebM or Ogg
+  const downloadRecording = async (asWav = false) => {
+    try {
+      const audio = await downloadRecordingAudio(recording);
+      const blob = asWav ? await transcodeToWav(audio) : audio;
+
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `recording-${formatDate(recording.created_at)}.${getAudioExtension(blob.type)}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error downloading recording:', error);
+      alert('Failed to download recording');
+    }
+  };
+
+  const getBandColor = (band: number) => {
+    if (band >= 7) return 'bg-green-100 text-green-800';
+    if (band >= 5.5) return 'bg-blue-100 text-blue-800';
+    return 'bg-amber-100 text-amber-800';
+  };
+
+  const seekTo = (time: number) => {
+    if (!audioRef.current) return;
+    audioRef.current.currentTime = time;
+    audioRef.current.play();
+  };
+
+  const handleTimeUpdate = (e: React.SyntheticEvent<HTMLAudioElement>) => {
+    const audio = e.currentTarget;
+    if (loop && audio.currentTime >= loop.end) {
+      audio.currentTime = loop.start;
+    }
+    setCurrentTime(audio.currentTime);
+  };
+
+  const handleLoopChange = (next: AudioSegment | null) => {
+    setLoop(next);
+    if (next) seekTo(next.start);
+  };
+
+  const handleWaveformClick = () => {
+    setShowWaveform(!showWaveform);
+    setLoop(null);
+  };
+
+  const handleTranscriptClick = async () => {
+    setShowTranscript(!showTranscript || !transcript);
+    if (!transcript && !isTranscribing) {
+      await transcribe();
+      onTranscribed?.();
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 hover:bg-gray-50 transition-colors">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          <Calendar className="w-4 h-4" />
+          <span>{formatDate(recording.created_at)}</span>
+        </div>
+        <div className="flex items-center gap-3">
+          {assessment && (
+            <button
+              onClick={() => setShowAssessment(!showAssessment)}
+              className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-bold ${getBandColor(assessment.overall)}`}
+              title="Estimated band score"
+            >
+              <Award className="w-3 h-3" />
+              Band {assessment.overall.toFixed(1)}
+            </button>
+          )}
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <Clock className="w-4 h-4" />
+            <span>{formatTime(recording.duration)}</span>
+          </div>
+          {formatLabel && (
+            <span className="text-xs text-gray-400" title="Audio format">{formatLabel}</span>
+          )}
+        </div>
+      </div>
+      
+      <div className="flex items-center gap-3">
+        <audio
+          ref={audioRef}
+          controls
+          src={audioUrl ?? undefined}
+          title={audioError ?? undefined}
+          onError={renewAudioUrl}
+          onTimeUpdate={handleTimeUpdate}
+          className="flex-1 h-8"
+          style={{ maxHeight: '32px' }}
+        />
+        <button
+          onClick={handleWaveformClick}
+          className={`p-2 rounded-lg transition-colors ${
+            showWaveform
+              ? 'text-blue-600 bg-blue-50 hover:bg-blue-100'
+              : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'
+          }`}
+          title="Show waveform"
+        >
+          <AudioWaveform className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => setShowHesitations(!showHesitations)}
+          className={`p-2 rounded-lg transition-colors ${
+            showHesitations
+              ? 'text-amber-600 bg-amber-50 hover:bg-amber-100'
+              : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'
+          }`}
+          title="Show pauses and fillers"
+        >
+          <Activity className="w-4 h-4" />
+        </button>
+        <button
+          onClick={handleTranscriptClick}
+          disabled={transcriptLoading}
+          className={`p-2 rounded-lg transition-colors ${
+            showTranscript && transcript
+              ? 'text-blue-600 bg-blue-50 hover:bg-blue-100'
+              : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'
+          }`}
+          title={transcript ? 'Show transcript' : 'Transcribe recording'}
+        >
+          {isTranscribing ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileText className="w-4 h-4" />}
+        </button>
+        {onRecordingUpdated && (
+          <button
+            onClick={() => setIsEditingDetails(!isEditingDetails)}
+            className={`p-2 rounded-lg transition-colors ${
+              isEditingDetails
+                ? 'text-indigo-600 bg-indigo-50 hover:bg-indigo-100'
+                : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'
+            }`}
+            title="Labels and notes"
+          >
+            <Tag className="w-4 h-4" />
+          </button>
+        )}
+        <button
+          onClick={() => downloadRecording()}
+          className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+          title="Download recording"
+        >
+          <Download className="w-4 h-4" />
+        </button>
+        {recording.format && !isWidelyPlayable(recording.format) && (
+          <button
+            onClick={() => downloadRecording(true)}
+            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Download as WAV, which plays on any device"
+          >
+            <FileAudio className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {!isEditingDetails && (recording.labels.length > 0 || recording.notes) && (
+        <div className="mt-3 space-y-2">
+          {recording.labels.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {recording.labels.map(label => (
+                <span
+                  key={label}
+                  className="px-2 py-0.5 bg-indigo-50 text-indigo-700 border border-indigo-200 rounded-full text-xs font-medium"
+                >
+                  {label}
+                </span>
+              ))}
+            </div>
+          )}
+          {recording.notes && (
+            <div className="flex items-start gap-2 text-sm text-gray-700">
+              <StickyNote className="w-4 h-4 text-gray-400 flex-shrink-0 mt-0.5" />
+              <p className="whitespace-pre-wrap">{recording.notes}</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {isEditingDetails && onRecordingUpdated && (
+        <div className="mt-3 bg-white border border-gray-200 rounded-lg p-3">
+          <RecordingDetailsEditor
+            recording={recording}
+            onSaved={(updated) => {
+              onRecordingUpdated(updated);
+              setIsEditingDetails(false);
+            }}
+            onCancel={() => setIsEditingDetails(false)}
+          />
+        </div>
+      )}
+
+      {showWaveform && (
+        <div className="mt-3 bg-white border border-gray-200 rounded-lg p-3">
+          <Waveform
+            peaks={waveform.peaks}
+            duration={waveform.duration}
+            currentTime={currentTime}
+            loading={waveform.loading}
+            error={waveform.error}
+            loop={loop}
+            onLoopChange={handleLoopChange}
+            onSeek={seekTo}
+          />
+        </div>
+      )}
+
+      {showHesitations && (
+        <div className="mt-3 bg-white border border-gray-200 rounded-lg p-3">
+          <HesitationTimeline
+            events={hesitation.events}
+            duration={hesitation.duration}
+            currentTime={currentTime}
+            analysing={hesitation.analysing}
+            error={hesitation.error}
+            hasTranscript={!!transcript}
+            onSeek={seekTo}
+          />
+        </div>
+      )}
+
+      {showAssessment && assessment && (
+        <div className="mt-3 bg-white border border-gray-200 rounded-lg p-3">
+          <BandScorePanel assessment={assessment} />
+        </div>
+      )}
+
+      {showTranscript && (
+        <div className="mt-3 bg-white border border-gray-200 rounded-lg p-3">
+          {isTranscribing ? (
+            <p className="text-sm text-gray-500">Transcribing...</p>
+          ) : transcriptError ? (
+            <p className="text-sm text-red-600">{transcriptError}</p>
+          ) : transcript ? (
+            <>
+              <TranscriptView words={transcript.words} currentTime={currentTime} onSeek={seekTo} />
+              {question && question.key_vocabulary.length > 0 && (
+                <div className="mt-3 pt-3 border-t border-gray-100">
+                  <VocabularyUsage match={matchKeyVocabulary(transcript.text, question.key_vocabulary)} />
+                </div>
+              )}
+            </>
+          ) : null}
+        </div>
+      )}
+
+      {recording.prep_notes && (
+        <div className="mt-3 bg-amber-50 border border-amber-200 rounded-lg p-3">
+          <div className="flex items-center gap-2 text-xs font-medium text-amber-900 mb-1">
+            <NotebookPen className="w-3 h-3" />
+            Preparation notes
+          </div>
+          <p className="text-sm text-amber-900 whitespace-pre-wrap">{recording.prep_notes}</p>
+        </div>
+      )}
+    </div>
+  );
+};
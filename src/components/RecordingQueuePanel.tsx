@@ -0,0 +1,142 @@
+import React from 'react';
+import { CloudOff, RefreshCw, CheckCircle, AlertCircle, Clock, Trash2 } from 'lucide-react';
+import { QueuedRecording } from '../types';
+
+interface RecordingQueuePanelProps {
+  items: QueuedRecording[];
+  pendingCount: number;
+  failedCount: number;
+  syncedCount: number;
+  error: string | null;
+  onRetry: (id: string) => void;
+  onDiscard: (id: string) => void;
+  onClearSynced: () => void;
+}
+
+export const RecordingQueuePanel: React.FC<RecordingQueuePanelProps> = ({
+  items,
+  pendingCount,
+  failedCount,
+  syncedCount,
+  error,
+  onRetry,
+  onDiscard,
+  onClearSynced,
+}) => {
+  const formatTime = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    const remainingSeconds = seconds % 60;
+    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+  };
+
+  const getStatusBadge = (item: QueuedRecording) => {
+    switch (item.status) {
+      case 'pending':
+        return (
+          <span className="flex items-center gap-1 px-2 py-0.5 bg-amber-100 text-amber-800 rounded-full text-xs font-medium">
+            <Clock className="w-3 h-3" />
+            Pending
+          </span>
+        );
+      case 'failed':
+        return (
+          <span className="flex items-center gap-1 px-2 py-0.5 bg-red-100 text-red-800 rounded-full text-xs font-medium">
+            <AlertCircle className="w-3 h-3" />
+            Failed
+          </span>
+        );
+      case 'synced':
+        return (
+          <span className="flex items-center gap-1 px-2 py-0.5 bg-green-100 text-green-800 rounded-full text-xs font-medium">
+            <CheckCircle className="w-3 h-3" />
+            Synced
+          </span>
+        );
+    }
+  };
+
+  if (items.length === 0 && !error) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-100">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <CloudOff className="w-5 h-5 text-gray-500" />
+          <h3 className="font-semibold text-gray-900">Upload Queue</h3>
+        </div>
+        {syncedCount > 0 && (
+          <button
+            onClick={onClearSynced}
+            className="text-sm text-gray-500 hover:text-gray-700"
+          >
+            Clear synced
+          </button>
+        )}
+      </div>
+
+      {error ? (
+        <p className="text-red-600 text-sm">{error}</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-2 mb-4 text-center">
+            <div className="bg-amber-50 rounded-lg py-2">
+              <div className="text-lg font-bold text-amber-800">{pendingCount}</div>
+              <div className="text-xs text-amber-700">Pending</div>
+            </div>
+            <div className="bg-red-50 rounded-lg py-2">
+              <div className="text-lg font-bold text-red-800">{failedCount}</div>
+              <div className="text-xs text-red-700">Failed</div>
+            </div>
+            <div className="bg-green-50 rounded-lg py-2">
+              <div className="text-lg font-bold text-green-800">{syncedCount}</div>
+              <div className="text-xs text-green-700">Synced</div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {items.map((item) => (
+              <div
+                key={item.id}
+                className="flex items-center justify-between gap-3 border border-gray-200 rounded-lg px-3 py-2"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-gray-900">Question #{item.serialNumber}</span>
+                    <span className="text-xs text-gray-500">{formatTime(item.duration)}</span>
+                  </div>
+                  {item.lastError && item.status !== 'synced' && (
+                    <p className="text-xs text-red-600 truncate" title={item.lastError}>
+                      {item.lastError}
+                    </p>
+                  )}
+                </div>
+
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  {getStatusBadge(item)}
+                  {item.status !== 'synced' && (
+                    <button
+                      onClick={() => onRetry(item.id)}
+                      className="p-1.5 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                      title="Retry now"
+                    >
+                      <RefreshCw className="w-4 h-4" />
+                    </button>
+                  )}
+                  {item.status === 'failed' && (
+                    <button
+                      onClick={() => onDiscard(item.id)}
+                      className="p-1.5 text-red-500 hover:text-red-700 hover:bg-red-50 rounded-lg transition-colors"
+                      title="Discard recording"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
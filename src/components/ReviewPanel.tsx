@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { CalendarClock, Award } from 'lucide-react';
+import { fetchAssessment } from '../lib/assessment';
+import { SELF_RATINGS, isDueToday, qualityFromBand } from '../lib/srs';
+import { QuestionReview } from '../types';
+
+interface ReviewPanelProps {
+  review: QuestionReview | null;
+  latestRecordingId: string | null;
+  dueCount: number;
+  queueEnabled: boolean;
+  onToggleQueue: (enabled: boolean) => void;
+  onRate: (quality: number) => Promise<void>;
+}
+
+export const ReviewPanel: React.FC<ReviewPanelProps> = ({
+  review,
+  latestRecordingId,
+  dueCount,
+  queueEnabled,
+  onToggleQueue,
+  onRate,
+}) => {
+  const [latestBand, setLatestBand] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setLatestBand(null);
+    if (!latestRecordingId) return;
+
+    let cancelled = false;
+    fetchAssessment(latestRecordingId)
+      .then(assessment => {
+        if (!cancelled) setLatestBand(assessment?.overall ?? null);
+      })
+      .catch(error => console.error('Error fetching band estimate:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [latestRecordingId]);
+
+  const formatDueDate = (dateString: string) => {
+    if (isDueToday({ due_at: dateString })) return 'due today';
+    return `next review ${new Date(dateString).toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+    })}`;
+  };
+
+  const handleRate = async (quality: number) => {
+    try {
+      setIsSaving(true);
+      await onRate(quality);
+    } catch (error) {
+      console.error('Error saving review:', error);
+      alert('Failed to save your rating. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const bandQuality = latestBand !== null ? qualityFromBand(latestBand) : null;
+  const bandRating = SELF_RATINGS.reduce((closest, rating) =>
+    bandQuality !== null && Math.abs(rating.quality - bandQuality) < Math.abs(closest.quality - bandQuality)
+      ? rating
+      : closest
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-100">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <CalendarClock className="w-5 h-5 text-blue-600" />
+          <h3 className="font-semibold text-gray-900">Review Schedule</h3>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={queueEnabled}
+            onChange={(e) => onToggleQueue(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          Due today ({dueCount})
+        </label>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        {review
+          ? `Ease ${review.ease_factor.toFixed(2)}, ${formatDueDate(review.due_at)}`
+          : 'Not reviewed yet. Rate your attempt to schedule this question.'}
+      </p>
+
+      <p className="text-xs font-medium text-gray-700 mb-2">How did your attempt go?</p>
+      <div className="grid grid-cols-4 gap-2">
+        {SELF_RATINGS.map(rating => (
+          <button
+            key={rating.label}
+            onClick={() => handleRate(rating.quality)}
+            disabled={isSaving}
+            title={rating.description}
+            className="px-2 py-2 text-sm font-medium border border-gray-300 hover:bg-gray-50 disabled:opacity-50 text-gray-700 rounded-lg transition-colors"
+          >
+            {rating.label}
+          </button>
+        ))}
+      </div>
+
+      {latestBand !== null && bandQuality !== null && (
+        <button
+          onClick={() => handleRate(bandQuality)}
+          disabled={isSaving}
+          className="mt-2 w-full flex items-center justify-center gap-2 px-3 py-2 text-sm font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 disabled:opacity-50 rounded-lg transition-colors"
+        >
+          <Award className="w-4 h-4" />
+          Use band estimate ({latestBand.toFixed(1)}, about "{bandRating.label}")
+        </button>
+      )}
+    </div>
+  );
+};
@@ -1,38 +1,80 @@
 import React, { useState, useEffect } from 'react';
-import { Eye, EyeOff, BookOpen, Clock, Edit3, Save, X, Plus, Trash2 } from 'lucide-react';
+import { Eye, EyeOff, BookOpen, Clock, Edit3, Save, X, Plus, Trash2, Headphones } from 'lucide-react';
 import { IELTSQuestion } from '../types';
 import { supabase } from '../lib/supabase';
+import { getQuestionTiming, TimingProfiles, validateTimingProfile } from '../lib/timing';
+import { parseTimeLimit } from '../lib/questionImport';
 import { RichTextEditor } from './RichTextEditor'; // Correctly named component from your file
+import { ShadowingPractice } from './ShadowingPractice';
+import { TimingInputs } from './TimingInputs';
 
 interface SampleAnswerProps {
   question: IELTSQuestion;
+  timingProfiles: TimingProfiles;
   onQuestionUpdate?: (updatedQuestion: IELTSQuestion) => void;
+  canEdit?: boolean;
 }
 
-export const SampleAnswer: React.FC<SampleAnswerProps> = ({ question, onQuestionUpdate }) => {
+// Timing overrides as editable text; empty fields follow the timing profile of the part
+const getTimingValues = (question: IELTSQuestion) => {
+  const format = (seconds: number | null) =>
+    seconds ? `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}` : '';
+  return {
+    min: format(question.min_duration),
+    target: format(question.target_duration),
+    max: format(question.time_limit),
+  };
+};
+
+export const SampleAnswer: React.FC<SampleAnswerProps> = ({ question, timingProfiles, onQuestionUpdate, canEdit = false }) => {
   const [isVisible, setIsVisible] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [isShadowing, setIsShadowing] = useState(false);
   
   // State for edited content
   const [editedAnswer, setEditedAnswer] = useState(question.sample_answer);
   const [editedVocabulary, setEditedVocabulary] = useState([...question.key_vocabulary]);
   const [newVocabWord, setNewVocabWord] = useState('');
 
-  // Effect to reset the editing state if the question prop changes from the outside
-  useEffect(() => {
-    setEditedAnswer(question.sample_answer);
-    setEditedVocabulary([...question.key_vocabulary]);
-  }, [question]);
-
-
   const formatTime = (seconds: number) => {
     const minutes = Math.floor(seconds / 60);
     const remainingSeconds = seconds % 60;
     return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
   };
 
+  const [editedTiming, setEditedTiming] = useState(() => getTimingValues(question));
+
+  const partTiming = timingProfiles[question.part];
+  const timing = getQuestionTiming(question, timingProfiles);
+
+  // Effect to reset the editing state if the question prop changes from the outside
+  useEffect(() => {
+    setEditedAnswer(question.sample_answer);
+    setEditedVocabulary([...question.key_vocabulary]);
+    setEditedTiming(getTimingValues(question));
+  }, [question]);
+
   const handleSave = async () => {
+    const overrides = {
+      min: editedTiming.min.trim() ? parseTimeLimit(editedTiming.min) : null,
+      target: editedTiming.target.trim() ? parseTimeLimit(editedTiming.target) : null,
+      max: editedTiming.max.trim() ? parseTimeLimit(editedTiming.max) : null,
+    };
+    if ((['min', 'target', 'max'] as const).some(key => editedTiming[key].trim() && overrides[key] === null)) {
+      alert('Enter times in seconds (90) or minutes and seconds (1:30).');
+      return;
+    }
+    const timingProblem = validateTimingProfile({
+      min: overrides.min ?? partTiming.min,
+      target: overrides.target ?? partTiming.target,
+      max: overrides.max ?? partTiming.max,
+    });
+    if (timingProblem) {
+      alert(timingProblem);
+      return;
+    }
+
     try {
       setIsSaving(true);
       
@@ -41,6 +83,9 @@ export const SampleAnswer: React.FC<SampleAnswerProps> = ({ question, onQuestion
         .update({
           sample_answer: editedAnswer,
           key_vocabulary: editedVocabulary, // FIX: Also save the updated vocabulary
+          min_duration: overrides.min,
+          target_duration: overrides.target,
+          time_limit: overrides.max,
         })
         .eq('serial_number', question.serial_number)
         .select()
@@ -67,6 +112,7 @@ export const SampleAnswer: React.FC<SampleAnswerProps> = ({ question, onQuestion
     // Reset state back to original question data
     setEditedAnswer(question.sample_answer);
     setEditedVocabulary([...question.key_vocabulary]);
+    setEditedTiming(getTimingValues(question));
     setNewVocabWord('');
     setIsEditing(false);
   };
@@ -97,9 +143,24 @@ export const SampleAnswer: React.FC<SampleAnswerProps> = ({ question, onQuestion
           </div>
           
           <div className="flex items-center gap-">
-            {isVisible && !isEditing && (
+            {isVisible && !isEditing && question.sample_answer && (
+              <button
+                onClick={() => setIsShadowing(!isShadowing)}
+                className={`flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-lg transition-colors ${
+                  isShadowing ? 'bg-blue-600 text-white hover:bg-blue-700' : 'text-blue-600 hover:bg-blue-50'
+                }`}
+              >
+                <Headphones className="w-4 h-4" />
+                <span>Shadow</span>
+              </button>
+            )}
+
+            {canEdit && isVisible && !isEditing && (
               <button
-                onClick={() => setIsEditing(true)}
+                onClick={() => {
+                  setIsShadowing(false);
+                  setIsEditing(true);
+                }}
                 className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
               >
                 <Edit3 className="w-4 h-4" />
@@ -152,15 +213,29 @@ export const SampleAnswer: React.FC<SampleAnswerProps> = ({ question, onQuestion
             <div className="flex items-center gap-2 mb-3">
               <Clock className="w-4 h-4 text-gray-500" />
               <span className="text-sm font-medium text-gray-700">
-                Target Duration: {formatTime(question.time_limit)}
+                Target Duration: {formatTime(timing.target)}
+              </span>
+              <span className="text-sm text-gray-500">
+                (at least {formatTime(timing.min)}, at most {formatTime(timing.max)})
               </span>
             </div>
+
+            {isEditing && (
+              <div className="mb-4 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+                <p className="text-sm text-gray-600 mb-3">
+                  Timing for this question. Leave a field empty to follow the Part {question.part} timing.
+                </p>
+                <TimingInputs values={editedTiming} onChange={setEditedTiming} placeholders={partTiming} />
+              </div>
+            )}
             
             {isEditing ? (
               <RichTextEditor
                 value={editedAnswer}
                 onChange={setEditedAnswer}
               />
+            ) : isShadowing ? (
+              <ShadowingPractice key={question.id} sampleAnswer={question.sample_answer} />
             ) : (
               // FIX: Add a fallback for empty/null answers and use prose for styling
               <div
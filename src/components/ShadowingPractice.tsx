@@ -0,0 +1,221 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Volume2, Mic, Square, CheckCircle, RotateCcw } from 'lucide-react';
+import { useAudioRecorder } from '../hooks/useAudioRecorder';
+import { isSpeechSynthesisSupported, speak, splitIntoSentences, stopSpeaking } from '../lib/speech';
+
+interface ShadowingPracticeProps {
+  sampleAnswer: string;
+}
+
+export const ShadowingPractice: React.FC<ShadowingPracticeProps> = ({ sampleAnswer }) => {
+  const sentences = useMemo(() => splitIntoSentences(sampleAnswer), [sampleAnswer]);
+
+  const [rate, setRate] = useState(0.9);
+  const [autoRecord, setAutoRecord] = useState(true);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [speakingIndex, setSpeakingIndex] = useState<number | null>(null);
+  const [recordingIndex, setRecordingIndex] = useState<number | null>(null);
+  // Object URLs of the learner's imitation for each sentence
+  const [imitations, setImitations] = useState<Record<number, string>>({});
+  const imitationsRef = useRef(imitations);
+  imitationsRef.current = imitations;
+
+  const {
+    recordingState,
+    audioLevel,
+    startRecording,
+    stopRecording,
+    clearRecording,
+    forceReset,
+    getAudioBlob,
+  } = useAudioRecorder();
+  const forceResetRef = useRef(forceReset);
+  forceResetRef.current = forceReset;
+
+  // Keep the finished take for its sentence and free the recorder for the next one
+  useEffect(() => {
+    if (!recordingState.audioUrl || recordingIndex === null) return;
+
+    const blob = getAudioBlob();
+    if (blob) {
+      const url = URL.createObjectURL(blob);
+      setImitations(prev => {
+        if (prev[recordingIndex]) URL.revokeObjectURL(prev[recordingIndex]);
+        return { ...prev, [recordingIndex]: url };
+      });
+      setActiveIndex(Math.min(recordingIndex + 1, sentences.length - 1));
+    }
+
+    setRecordingIndex(null);
+    clearRecording();
+  }, [recordingState.audioUrl, recordingIndex, sentences.length, getAudioBlob, clearRecording]);
+
+  useEffect(() => {
+    return () => {
+      stopSpeaking();
+      forceResetRef.current();
+      Object.values(imitationsRef.current).forEach(url => URL.revokeObjectURL(url));
+    };
+  }, []);
+
+  const startImitation = async (index: number) => {
+    try {
+      setRecordingIndex(index);
+      await startRecording();
+    } catch (error) {
+      console.error('Error starting imitation:', error);
+      setRecordingIndex(null);
+      alert(error instanceof Error ? error.message : 'Failed to start recording');
+    }
+  };
+
+  const playSentence = async (index: number) => {
+    setActiveIndex(index);
+    setSpeakingIndex(index);
+    try {
+      const completed = await speak(sentences[index], rate);
+      setSpeakingIndex(null);
+      if (completed && autoRecord) {
+        await startImitation(index);
+      }
+    } catch (error) {
+      console.error('Error reading sentence aloud:', error);
+      setSpeakingIndex(null);
+      alert('Failed to read the sentence aloud');
+    }
+  };
+
+  const resetProgress = () => {
+    Object.values(imitations).forEach(url => URL.revokeObjectURL(url));
+    setImitations({});
+    setActiveIndex(0);
+  };
+
+  if (!isSpeechSynthesisSupported()) {
+    return (
+      <p className="text-sm text-gray-500 italic">
+        Shadowing needs speech synthesis, which this browser does not support.
+      </p>
+    );
+  }
+
+  if (sentences.length === 0) {
+    return <p className="text-sm text-gray-500 italic">There is no sample answer to shadow yet.</p>;
+  }
+
+  const doneCount = Object.keys(imitations).length;
+  const isBusy = speakingIndex !== null || recordingState.isRecording;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4 bg-gray-50 border border-gray-200 rounded-lg p-4">
+        <label className="flex items-center gap-3 text-sm text-gray-700">
+          <span className="font-medium">Speed</span>
+          <input
+            type="range"
+            min={0.5}
+            max={1.5}
+            step={0.1}
+            value={rate}
+            onChange={(e) => setRate(Number(e.target.value))}
+            className="w-32"
+          />
+          <span className="w-10 text-gray-500">{rate.toFixed(1)}×</span>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={autoRecord}
+            onChange={(e) => setAutoRecord(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          Record after each sentence
+        </label>
+        <div className="flex items-center gap-3 text-sm text-gray-600">
+          <span>{doneCount} of {sentences.length} done</span>
+          {doneCount > 0 && (
+            <button
+              onClick={resetProgress}
+              disabled={isBusy}
+              className="flex items-center gap-1 text-gray-500 hover:text-gray-700 disabled:opacity-50"
+              title="Start again"
+            >
+              <RotateCcw className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {sentences.map((sentence, index) => {
+          const isActive = index === activeIndex;
+          const isSpeaking = index === speakingIndex;
+          const isRecording = index === recordingIndex && recordingState.isRecording;
+
+          return (
+            <div
+              key={index}
+              className={`grid md:grid-cols-2 gap-3 p-3 rounded-lg border transition-colors ${
+                isActive ? 'border-blue-300 bg-blue-50' : 'border-gray-200'
+              }`}
+            >
+              <div className="flex items-start gap-3">
+                <button
+                  onClick={() => playSentence(index)}
+                  disabled={isBusy}
+                  className={`p-2 rounded-lg transition-colors disabled:opacity-50 ${
+                    isSpeaking ? 'bg-blue-600 text-white' : 'bg-white text-blue-600 hover:bg-blue-100 border border-blue-200'
+                  }`}
+                  title="Listen"
+                >
+                  <Volume2 className="w-4 h-4" />
+                </button>
+                <p className="text-sm text-gray-800 leading-relaxed">{sentence}</p>
+              </div>
+
+              <div className="flex items-center gap-3">
+                {isRecording ? (
+                  <>
+                    <button
+                      onClick={stopRecording}
+                      className="p-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors"
+                      title="Stop recording"
+                    >
+                      <Square className="w-4 h-4" />
+                    </button>
+                    <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-red-500 transition-all duration-100"
+                        style={{ width: `${audioLevel * 100}%` }}
+                      />
+                    </div>
+                    <span className="text-xs text-red-600 font-medium">{recordingState.duration}s</span>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => startImitation(index)}
+                      disabled={isBusy}
+                      className="p-2 bg-white text-gray-600 hover:bg-gray-100 border border-gray-200 rounded-lg transition-colors disabled:opacity-50"
+                      title={imitations[index] ? 'Record again' : 'Record your imitation'}
+                    >
+                      <Mic className="w-4 h-4" />
+                    </button>
+                    {imitations[index] ? (
+                      <>
+                        <audio controls src={imitations[index]} className="flex-1 h-8" style={{ maxHeight: '32px' }} />
+                        <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />
+                      </>
+                    ) : (
+                      <span className="text-xs text-gray-400">Not recorded yet</span>
+                    )}
+                  </>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import React from 'react';
+import { TimingProfile } from '../lib/timing';
+
+type TimingValues = Record<keyof TimingProfile, string>;
+
+interface TimingInputsProps {
+  // Raw text, as seconds ("90") or minutes and seconds ("1:30")
+  values: TimingValues;
+  onChange: (values: TimingValues) => void;
+  // Shown in empty fields, e.g. the part's profile a question falls back to
+  placeholders?: TimingProfile;
+}
+
+const FIELDS: Array<{ key: keyof TimingProfile; label: string }> = [
+  { key: 'min', label: 'Minimum' },
+  { key: 'target', label: 'Target' },
+  { key: 'max', label: 'Maximum' },
+];
+
+export const TimingInputs: React.FC<TimingInputsProps> = ({ values, onChange, placeholders }) => {
+  const formatTime = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    const remainingSeconds = seconds % 60;
+    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+  };
+
+  return (
+    <div className="grid grid-cols-3 gap-3">
+      {FIELDS.map(({ key, label }) => (
+        <div key={key}>
+          <label className="block text-xs font-medium text-gray-600 mb-1">{label}</label>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={values[key]}
+            onChange={(e) => onChange({ ...values, [key]: e.target.value })}
+            placeholder={placeholders ? formatTime(placeholders[key]) : 'm:ss'}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { ArrowLeft, Save, RotateCcw, CheckCircle } from 'lucide-react';
+import { DEFAULT_TIMING_PROFILES, TimingProfile, TimingProfiles, validateTimingProfile } from '../lib/timing';
+import { parseTimeLimit } from '../lib/questionImport';
+import { TimingInputs } from './TimingInputs';
+
+interface TimingSettingsProps {
+  profiles: TimingProfiles;
+  onSave: (profiles: TimingProfiles) => Promise<void>;
+  onBack: () => void;
+}
+
+const PARTS = [
+  { part: 1, title: 'Part 1 - Introduction & Interview', hint: 'Short, direct answers of two or three sentences' },
+  { part: 2, title: 'Part 2 - Long Turn', hint: 'One to two minutes; the examiner stops the candidate at two' },
+  { part: 3, title: 'Part 3 - Discussion', hint: 'Developed answers with reasons and examples' },
+] as const;
+
+export const TimingSettings: React.FC<TimingSettingsProps> = ({ profiles, onSave, onBack }) => {
+  const formatTime = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    const remainingSeconds = seconds % 60;
+    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+  };
+
+  const toValues = (profile: TimingProfile) => ({
+    min: formatTime(profile.min),
+    target: formatTime(profile.target),
+    max: formatTime(profile.max),
+  });
+
+  const [values, setValues] = useState(() => ({
+    1: toValues(profiles[1]),
+    2: toValues(profiles[2]),
+    3: toValues(profiles[3]),
+  }));
+  const [isSaving, setIsSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  const parsed = PARTS.map(({ part }) => {
+    const profile = {
+      min: parseTimeLimit(values[part].min) ?? 0,
+      target: parseTimeLimit(values[part].target) ?? 0,
+      max: parseTimeLimit(values[part].max) ?? 0,
+    };
+    return { part, profile, problem: validateTimingProfile(profile) };
+  });
+  const isValid = parsed.every(({ problem }) => problem === null);
+
+  const handleSave = async () => {
+    if (!isValid) return;
+
+    try {
+      setIsSaving(true);
+      await onSave({ 1: parsed[0].profile, 2: parsed[1].profile, 3: parsed[2].profile });
+      setSaved(true);
+    } catch (error) {
+      console.error('Error saving timing profiles:', error);
+      alert('Failed to save timing profiles. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = () => {
+    setValues({
+      1: toValues(DEFAULT_TIMING_PROFILES[1]),
+      2: toValues(DEFAULT_TIMING_PROFILES[2]),
+      3: toValues(DEFAULT_TIMING_PROFILES[3]),
+    });
+    setSaved(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={onBack}
+              className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back to Practice
+            </button>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Timing</h1>
+              <p className="text-gray-600">How long answers should be in each part</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-6 text-sm text-blue-800">
+          Answers shorter than the minimum get a warning, the target is the length to aim for, and answers past the
+          maximum are flagged as over time without being cut off. Times are in seconds or minutes and seconds (1:30).
+          A question can override these from the editor on its sample answer.
+        </div>
+
+        {PARTS.map(({ part, title, hint }, index) => (
+          <div key={part} className="bg-white rounded-xl shadow-lg p-6 border border-gray-100">
+            <h3 className="font-semibold text-gray-900">{title}</h3>
+            <p className="text-sm text-gray-600 mb-4">{hint}</p>
+            <TimingInputs
+              values={values[part]}
+              onChange={(next) => {
+                setValues(prev => ({ ...prev, [part]: next }));
+                setSaved(false);
+              }}
+            />
+            {parsed[index].problem && (
+              <p className="text-sm text-red-600 mt-2">{parsed[index].problem}</p>
+            )}
+          </div>
+        ))}
+
+        <div className="flex items-center justify-end gap-3">
+          {saved && (
+            <span className="flex items-center gap-2 text-sm text-green-700">
+              <CheckCircle className="w-4 h-4" />
+              Saved
+            </span>
+          )}
+          <button
+            onClick={handleReset}
+            className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <RotateCcw className="w-4 h-4" />
+            Reset to Exam Timings
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !isValid}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg font-medium transition-colors"
+          >
+            <Save className="w-4 h-4" />
+            {isSaving ? 'Saving...' : 'Save Timings'}
+          </button>
+        </div>
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+import React from 'react';
+import { TranscriptWord } from '../types';
+
+interface TranscriptViewProps {
+  words: TranscriptWord[];
+  currentTime: number;
+  onSeek: (time: number) => void;
+}
+
+export const TranscriptView: React.FC<TranscriptViewProps> = ({ words, currentTime, onSeek }) => {
+  if (words.length === 0) {
+    return <p className="text-sm text-gray-500 italic">No speech was detected in this recording.</p>;
+  }
+
+  return (
+    <p className="text-sm text-gray-800 leading-relaxed">
+      {words.map((word, index) => {
+        const isActive = currentTime >= word.start && currentTime < word.end;
+        return (
+          <React.Fragment key={index}>
+            <span
+              onClick={() => onSeek(word.start)}
+              className={`cursor-pointer rounded px-0.5 transition-colors ${
+                isActive ? 'bg-blue-200 text-blue-900' : 'hover:bg-gray-200'
+              }`}
+              title={`Play from ${word.start.toFixed(1)}s`}
+            >
+              {word.text}
+            </span>{' '}
+          </React.Fragment>
+        );
+      })}
+    </p>
+  );
+};
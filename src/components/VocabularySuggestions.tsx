@@ -0,0 +1,80 @@
+import React from 'react';
+import { Check } from 'lucide-react';
+import { acceptedVocabulary, VocabularySuggestion } from '../lib/vocabularyExtractor';
+
+interface VocabularySuggestionsProps {
+  suggestions: VocabularySuggestion[];
+  // Explicit accept (true) or reject (false) per term
+  decisions: Record<string, boolean>;
+  onChange: (decisions: Record<string, boolean>) => void;
+  compact?: boolean;
+}
+
+export const VocabularySuggestions: React.FC<VocabularySuggestionsProps> = ({
+  suggestions,
+  decisions,
+  onChange,
+  compact = false,
+}) => {
+  const accepted = new Set(acceptedVocabulary(suggestions, decisions));
+
+  const getKindLabel = (kind: VocabularySuggestion['kind']) => {
+    switch (kind) {
+      case 'collocation': return 'phrase';
+      case 'phrasal-verb': return 'phrasal verb';
+      default: return null;
+    }
+  };
+
+  const setAll = (value: boolean) => {
+    onChange(Object.fromEntries(suggestions.map(suggestion => [suggestion.term, value])));
+  };
+
+  if (suggestions.length === 0) {
+    return <p className="text-sm text-gray-400 italic">No vocabulary suggestions</p>;
+  }
+
+  return (
+    <div>
+      {!compact && (
+        <div className="flex items-center justify-between mb-2">
+          <p className="text-sm text-gray-600">
+            Suggested key vocabulary, best first. Click a term to accept or reject it.
+          </p>
+          <div className="flex gap-3 text-sm">
+            <button onClick={() => setAll(true)} className="text-blue-600 hover:text-blue-800">
+              Accept all
+            </button>
+            <button onClick={() => setAll(false)} className="text-gray-600 hover:text-gray-800">
+              Clear
+            </button>
+          </div>
+        </div>
+      )}
+      <div className="flex flex-wrap gap-1.5">
+        {suggestions.map(suggestion => {
+          const isAccepted = accepted.has(suggestion.term);
+          const kindLabel = getKindLabel(suggestion.kind);
+          return (
+            <button
+              key={suggestion.term}
+              onClick={() => onChange({ ...decisions, [suggestion.term]: !isAccepted })}
+              title={isAccepted ? 'Accepted, click to reject' : 'Rejected, click to accept'}
+              className={`flex items-center gap-1 rounded-full border transition-colors ${
+                compact ? 'px-2 py-0.5 text-xs' : 'px-3 py-1 text-sm'
+              } ${
+                isAccepted
+                  ? 'bg-blue-50 border-blue-200 text-blue-800 hover:bg-blue-100'
+                  : 'bg-white border-gray-200 text-gray-400 line-through hover:bg-gray-50'
+              }`}
+            >
+              {isAccepted && <Check className="w-3 h-3" />}
+              {suggestion.term}
+              {kindLabel && !compact && <span className="text-xs opacity-70">{kindLabel}</span>}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
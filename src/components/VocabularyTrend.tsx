@@ -0,0 +1,50 @@
+import React from 'react';
+import { TrendingUp } from 'lucide-react';
+import { VocabularyTrendPoint } from '../lib/vocabulary';
+
+interface VocabularyTrendProps {
+  points: VocabularyTrendPoint[];
+}
+
+export const VocabularyTrend: React.FC<VocabularyTrendProps> = ({ points }) => {
+  // A single attempt is not a trend
+  if (points.length < 2) return null;
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+  const latest = points[points.length - 1];
+  const change = Math.round((latest.coverage - points[0].coverage) * 100);
+
+  return (
+    <div className="mb-4 bg-gray-50 border border-gray-200 rounded-lg p-3">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2 text-xs font-medium text-gray-700">
+          <TrendingUp className="w-4 h-4" />
+          Key vocabulary coverage across {points.length} attempts
+        </div>
+        <span className={`text-xs font-medium ${change > 0 ? 'text-green-700' : change < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+          {change > 0 ? '+' : ''}{change}% since first attempt
+        </span>
+      </div>
+      <div className="flex items-end gap-1 h-16">
+        {points.map(point => (
+          <div
+            key={point.recordingId}
+            className="flex-1 h-full flex items-end"
+            title={`${formatDate(point.createdAt)}: ${point.used.length} of ${point.used.length + point.unused.length} terms`}
+          >
+            <div
+              className="w-full bg-blue-400 rounded-t"
+              style={{ height: `${Math.max(point.coverage * 100, 4)}%` }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-gray-400 mt-1">
+        <span>{formatDate(points[0].createdAt)}</span>
+        <span>{formatDate(latest.createdAt)}</span>
+      </div>
+    </div>
+  );
+};
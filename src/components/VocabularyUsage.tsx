@@ -0,0 +1,42 @@
+import React from 'react';
+import { Check } from 'lucide-react';
+import { VocabularyMatch } from '../lib/vocabulary';
+
+interface VocabularyUsageProps {
+  match: VocabularyMatch;
+}
+
+export const VocabularyUsage: React.FC<VocabularyUsageProps> = ({ match }) => {
+  const total = match.used.length + match.unused.length;
+  if (total === 0) return null;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-medium text-gray-700">Key vocabulary</span>
+        <span className="text-xs text-gray-500">
+          {match.used.length} of {total} used
+        </span>
+      </div>
+      <div className="flex flex-wrap gap-1.5">
+        {match.used.map(term => (
+          <span
+            key={term}
+            className="flex items-center gap-1 px-2 py-0.5 bg-green-100 text-green-800 rounded-full text-xs font-medium"
+          >
+            <Check className="w-3 h-3" />
+            {term}
+          </span>
+        ))}
+        {match.unused.map(term => (
+          <span
+            key={term}
+            className="px-2 py-0.5 bg-gray-100 text-gray-500 rounded-full text-xs"
+          >
+            {term}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
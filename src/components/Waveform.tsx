@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import { Repeat, X } from 'lucide-react';
+import { AudioSegment } from '../lib/waveform';
+
+interface WaveformProps {
+  peaks: number[];
+  duration: number;
+  currentTime?: number;
+  loading?: boolean;
+  error?: string | null;
+  // Stretch played on repeat, set from the playback position with A and B
+  loop?: AudioSegment | null;
+  onLoopChange?: (loop: AudioSegment | null) => void;
+  // Audio outside this range is drawn faded, e.g. silence about to be trimmed
+  keep?: AudioSegment | null;
+  onSeek?: (time: number) => void;
+}
+
+export const Waveform: React.FC<WaveformProps> = ({
+  peaks,
+  duration,
+  currentTime = 0,
+  loading = false,
+  error = null,
+  loop = null,
+  onLoopChange,
+  keep = null,
+  onSeek,
+}) => {
+  const [loopStart, setLoopStart] = useState<number | null>(null);
+
+  // A pending A point belongs to the recording it was set on
+  useEffect(() => {
+    setLoopStart(null);
+  }, [peaks]);
+
+  if (loading) {
+    return <p className="text-xs text-gray-500">Drawing waveform...</p>;
+  }
+
+  if (error) {
+    return <p className="text-xs text-red-600">{error}</p>;
+  }
+
+  if (duration <= 0 || peaks.length === 0) return null;
+
+  const toPercent = (time: number) => `${Math.min(100, Math.max(0, (time / duration) * 100))}%`;
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!onSeek) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    onSeek(((e.clientX - rect.left) / rect.width) * duration);
+  };
+
+  const handleSetA = () => {
+    setLoopStart(currentTime);
+    onLoopChange?.(null);
+  };
+
+  const handleSetB = () => {
+    if (loopStart === null || currentTime <= loopStart) return;
+    onLoopChange?.({ start: loopStart, end: currentTime });
+    setLoopStart(null);
+  };
+
+  const handleClearLoop = () => {
+    setLoopStart(null);
+    onLoopChange?.(null);
+  };
+
+  const getBarColor = (time: number) => {
+    if (keep && (time < keep.start || time > keep.end)) return 'fill-gray-200';
+    return time <= currentTime ? 'fill-blue-500' : 'fill-gray-400';
+  };
+
+  return (
+    <div className="space-y-2">
+      <div
+        className="relative w-full h-16 bg-gray-50 rounded cursor-pointer overflow-hidden"
+        onClick={handleClick}
+        title="Click to jump to this point"
+      >
+        {loop && (
+          <div
+            className="absolute top-0 h-full bg-blue-100 border-x-2 border-blue-400 pointer-events-none"
+            style={{ left: toPercent(loop.start), width: toPercent(loop.end - loop.start) }}
+          />
+        )}
+        {loopStart !== null && (
+          <div
+            className="absolute top-0 h-full w-0.5 bg-blue-400 pointer-events-none"
+            style={{ left: toPercent(loopStart) }}
+          />
+        )}
+        <svg
+          className="relative w-full h-full"
+          viewBox={`0 0 ${peaks.length} 100`}
+          preserveAspectRatio="none"
+        >
+          {peaks.map((peak, index) => {
+            const height = Math.max(2, peak * 96);
+            return (
+              <rect
+                key={index}
+                x={index + 0.15}
+                y={50 - height / 2}
+                width={0.7}
+                height={height}
+                className={getBarColor(((index + 0.5) / peaks.length) * duration)}
+              />
+            );
+          })}
+        </svg>
+        <div
+          className="absolute top-0 h-full w-0.5 bg-gray-900 pointer-events-none"
+          style={{ left: toPercent(currentTime) }}
+        />
+      </div>
+
+      {onLoopChange && (
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <Repeat className="w-3 h-3 text-gray-500" />
+          <button
+            onClick={handleSetA}
+            className="px-2 py-0.5 border border-gray-300 hover:bg-gray-100 text-gray-700 rounded transition-colors"
+            title="Start the loop at the current position"
+          >
+            Set A
+          </button>
+          <button
+            onClick={handleSetB}
+            disabled={loopStart === null || currentTime <= loopStart}
+            className="px-2 py-0.5 border border-gray-300 hover:bg-gray-100 disabled:opacity-50 text-gray-700 rounded transition-colors"
+            title="End the loop at the current position"
+          >
+            Set B
+          </button>
+          {loop ? (
+            <>
+              <span className="text-blue-700">
+                Looping {loop.start.toFixed(1)}s – {loop.end.toFixed(1)}s
+              </span>
+              <button
+                onClick={handleClearLoop}
+                className="flex items-center gap-1 px-2 py-0.5 text-gray-600 hover:bg-gray-100 rounded transition-colors"
+              >
+                <X className="w-3 h-3" />
+                Clear loop
+              </button>
+            </>
+          ) : loopStart !== null ? (
+            <span className="text-gray-500">A at {loopStart.toFixed(1)}s, play on and set B</span>
+          ) : (
+            <span className="text-gray-400">Replay a phrase on repeat</span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
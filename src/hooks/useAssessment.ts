@@ -0,0 +1,54 @@
+import { useState, useEffect } from 'react';
+import { assessAnswer, fetchAssessment, saveAssessment } from '../lib/assessment';
+import { getQuestionTiming, TimingProfiles } from '../lib/timing';
+import { IELTSQuestion, RecordingAssessment, RecordingTranscript } from '../types';
+
+export const useAssessment = (
+  recordingId: string,
+  transcript: RecordingTranscript | null,
+  question: IELTSQuestion | null,
+  timingProfiles: TimingProfiles,
+) => {
+  const [assessment, setAssessment] = useState<RecordingAssessment | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadAssessment = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        let data = await fetchAssessment(recordingId);
+
+        // Score new transcripts as soon as they are available
+        if (!data && transcript && question) {
+          const estimate = assessAnswer(transcript, question, getQuestionTiming(question, timingProfiles));
+          if (estimate) {
+            data = await saveAssessment(recordingId, estimate);
+          }
+        }
+
+        if (!cancelled) setAssessment(data);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to assess recording');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadAssessment();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [recordingId, transcript, question, timingProfiles]);
+
+  return {
+    assessment,
+    loading,
+    error,
+  };
+};
@@ -1,4 +1,6 @@
 import { useState, useRef, useCallback } from 'react';
+import { readAudioLevel } from '../lib/audioAnalysis';
+import { pickRecordingFormat, RECORDING_BITRATE } from '../lib/audioFormat';
 import { RecordingState } from '../types';
 
 export const useAudioRecorder = () => {
@@ -13,11 +15,18 @@ export const useAudioRecorder = () => {
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const chunksRef = useRef<Blob[]>([]);
+  const mimeTypeRef = useRef('audio/webm');
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const [audioLevel, setAudioLevel] = useState(0);
 
+  const startDurationTimer = useCallback(() => {
+    intervalRef.current = setInterval(() => {
+      setRecordingState(prev => ({ ...prev, duration: prev.duration + 1 }));
+    }, 1000);
+  }, []);
+
   const startRecording = useCallback(async () => {
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ 
@@ -39,21 +48,25 @@ export const useAudioRecorder = () => {
       const dataArray = new Uint8Array(analyserRef.current.frequencyBinCount);
       
       const updateAudioLevel = () => {
-        if (analyserRef.current) {
-          analyserRef.current.getByteFrequencyData(dataArray);
-          const average = dataArray.reduce((sum, value) => sum + value, 0) / dataArray.length;
-          setAudioLevel(average / 255);
+        const recorderState = mediaRecorderRef.current?.state;
+        // The meter holds its last reading while the recorder is paused
+        if (analyserRef.current && recorderState === 'recording') {
+          setAudioLevel(readAudioLevel(analyserRef.current, dataArray));
         }
-        if (recordingState.isRecording) {
+        if (recorderState && recorderState !== 'inactive') {
           requestAnimationFrame(updateAudioLevel);
         }
       };
       
+      // Browsers differ in what they can record, so use the first supported format
+      const format = pickRecordingFormat();
       const mediaRecorder = new MediaRecorder(stream, {
-        mimeType: 'audio/webm',
+        ...(format ? { mimeType: format } : {}),
+        audioBitsPerSecond: RECORDING_BITRATE,
       });
       
       mediaRecorderRef.current = mediaRecorder;
+      mimeTypeRef.current = mediaRecorder.mimeType || format || 'audio/webm';
       chunksRef.current = [];
       
       mediaRecorder.ondataavailable = (event) => {
@@ -63,7 +76,7 @@ export const useAudioRecorder = () => {
       };
       
       mediaRecorder.onstop = () => {
-        const blob = new Blob(chunksRef.current, { type: 'audio/webm' });
+        const blob = new Blob(chunksRef.current, { type: mimeTypeRef.current });
         const audioUrl = URL.createObjectURL(blob);
         setRecordingState(prev => ({ ...prev, audioUrl }));
         setAudioLevel(0);
@@ -72,22 +85,42 @@ export const useAudioRecorder = () => {
       mediaRecorder.start();
       updateAudioLevel();
       
-      setRecordingState(prev => ({ ...prev, isRecording: true, duration: 0 }));
+      setRecordingState(prev => ({ ...prev, isRecording: true, isPaused: false, duration: 0 }));
       
-      intervalRef.current = setInterval(() => {
-        setRecordingState(prev => ({ ...prev, duration: prev.duration + 1 }));
-      }, 1000);
+      startDurationTimer();
       
     } catch (error) {
       console.error('Error starting recording:', error);
       throw new Error('Failed to start recording. Please check microphone permissions.');
     }
-  }, [recordingState.isRecording]);
+  }, [startDurationTimer]);
+
+  const pauseRecording = useCallback(() => {
+    if (mediaRecorderRef.current?.state !== 'recording') return;
+
+    mediaRecorderRef.current.pause();
+
+    if (intervalRef.current) {
+      clearInterval(intervalRef.current);
+      intervalRef.current = null;
+    }
+
+    setRecordingState(prev => ({ ...prev, isPaused: true }));
+  }, []);
+
+  const resumeRecording = useCallback(() => {
+    if (mediaRecorderRef.current?.state !== 'paused') return;
+
+    mediaRecorderRef.current.resume();
+    startDurationTimer();
+
+    setRecordingState(prev => ({ ...prev, isPaused: false }));
+  }, [startDurationTimer]);
 
   const stopRecording = useCallback(() => {
     if (mediaRecorderRef.current && recordingState.isRecording) {
       mediaRecorderRef.current.stop();
-      setRecordingState(prev => ({ ...prev, isRecording: false }));
+      setRecordingState(prev => ({ ...prev, isRecording: false, isPaused: false }));
       
       if (streamRef.current) {
         streamRef.current.getTracks().forEach(track => track.stop());
@@ -209,7 +242,7 @@ export const useAudioRecorder = () => {
   }, [recordingState.audioUrl]);
   const getAudioBlob = useCallback((): Blob | null => {
     if (chunksRef.current.length > 0) {
-      return new Blob(chunksRef.current, { type: 'audio/webm' });
+      return new Blob(chunksRef.current, { type: mimeTypeRef.current });
     }
     return null;
   }, []);
@@ -219,6 +252,8 @@ export const useAudioRecorder = () => {
     audioLevel,
     startRecording,
     stopRecording,
+    pauseRecording,
+    resumeRecording,
     clearRecording,
     forceReset,
     getAudioBlob,
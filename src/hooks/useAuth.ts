@@ -0,0 +1,146 @@
+import { useState, useEffect } from 'react';
+import { Session } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { GUEST_CLAIM_TOKEN_STORAGE_KEY, GUEST_USER_STORAGE_KEY } from '../lib/auth';
+
+export const useAuth = () => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [guestUserId, setGuestUserId] = useState<string | null>(
+    () => localStorage.getItem(GUEST_USER_STORAGE_KEY)
+  );
+  const [claimToken, setClaimToken] = useState<string | null>(
+    () => localStorage.getItem(GUEST_CLAIM_TOKEN_STORAGE_KEY)
+  );
+
+  useEffect(() => {
+    // Guest whose claim token is being fetched; a second request would replace the first token
+    let requestingTokenFor: string | null = null;
+
+    // Only the guest session itself can create the token that lets a signed-in account claim its recordings
+    const rememberGuest = async (guestId: string) => {
+      if (
+        requestingTokenFor === guestId ||
+        (localStorage.getItem(GUEST_USER_STORAGE_KEY) === guestId &&
+          localStorage.getItem(GUEST_CLAIM_TOKEN_STORAGE_KEY))
+      ) {
+        return;
+      }
+
+      requestingTokenFor = guestId;
+      const { data, error: tokenError } = await supabase.rpc('create_guest_claim_token');
+      requestingTokenFor = null;
+      if (tokenError) {
+        console.error('Error creating guest claim token:', tokenError);
+        return;
+      }
+
+      localStorage.setItem(GUEST_USER_STORAGE_KEY, guestId);
+      localStorage.setItem(GUEST_CLAIM_TOKEN_STORAGE_KEY, data);
+      setGuestUserId(guestId);
+      setClaimToken(data);
+    };
+
+    const handleSession = (nextSession: Session | null) => {
+      setSession(nextSession);
+      if (nextSession?.user.is_anonymous) {
+        rememberGuest(nextSession.user.id);
+      }
+    };
+
+    const initialise = async () => {
+      try {
+        const { data, error: sessionError } = await supabase.auth.getSession();
+        if (sessionError) throw sessionError;
+
+        if (data.session) {
+          handleSession(data.session);
+        } else {
+          // Visitors practise under a guest account until they sign in
+          const { data: guestData, error: guestError } = await supabase.auth.signInAnonymously();
+          if (guestError) throw guestError;
+          handleSession(guestData.session);
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to start a practice session');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    initialise();
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      handleSession(nextSession);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const user = session?.user ?? null;
+  const isGuest = !user || !!user.is_anonymous;
+
+  const signInWithPassword = async (email: string, password: string) => {
+    const { error: signInError } = await supabase.auth.signInWithPassword({ email, password });
+    if (signInError) throw signInError;
+  };
+
+  const signUpWithPassword = async (email: string, password: string) => {
+    // A guest becomes the new account in place, so their recordings never change owner
+    const { error: signUpError } = user?.is_anonymous
+      ? await supabase.auth.updateUser({ email, password }, { emailRedirectTo: window.location.origin })
+      : await supabase.auth.signUp({ email, password });
+    if (signUpError) throw signUpError;
+  };
+
+  const sendMagicLink = async (email: string) => {
+    const { error: otpError } = await supabase.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: window.location.origin },
+    });
+    if (otpError) throw otpError;
+  };
+
+  const signOut = async () => {
+    const { error: signOutError } = await supabase.auth.signOut();
+    if (signOutError) throw signOutError;
+
+    const { data, error: guestError } = await supabase.auth.signInAnonymously();
+    if (guestError) throw guestError;
+    setSession(data.session);
+  };
+
+  /**
+   * Moves the recordings made under this browser's guest account to the
+   * signed-in user. Returns how many recordings were claimed.
+   */
+  const claimGuestRecordings = async (): Promise<number> => {
+    if (!claimToken || isGuest) return 0;
+
+    const { data, error: claimError } = await supabase.rpc('claim_anonymous_recordings', {
+      claim_token: claimToken,
+    });
+    if (claimError) throw claimError;
+
+    localStorage.removeItem(GUEST_USER_STORAGE_KEY);
+    localStorage.removeItem(GUEST_CLAIM_TOKEN_STORAGE_KEY);
+    setGuestUserId(null);
+    setClaimToken(null);
+    return data ?? 0;
+  };
+
+  return {
+    session,
+    user,
+    isGuest,
+    loading,
+    error,
+    canClaimGuestRecordings: !isGuest && !!claimToken && guestUserId !== user?.id,
+    signInWithPassword,
+    signUpWithPassword,
+    sendMagicLink,
+    signOut,
+    claimGuestRecordings,
+  };
+};
@@ -0,0 +1,65 @@
+import { useState, useEffect } from 'react';
+import {
+  CategoryInput,
+  createCategory,
+  deleteCategory,
+  fetchCategories,
+  renameQuestionCategory,
+  updateCategory,
+} from '../lib/categories';
+import { QuestionCategory } from '../types';
+
+export const useCategories = () => {
+  const [categories, setCategories] = useState<QuestionCategory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchAll();
+  }, []);
+
+  const fetchAll = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setCategories(await fetchCategories());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch categories');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const sortByName = (list: QuestionCategory[]) =>
+    [...list].sort((a, b) => a.name.localeCompare(b.name));
+
+  const addCategory = async (input: CategoryInput) => {
+    const created = await createCategory(input);
+    setCategories(prev => sortByName([...prev, created]));
+    return created;
+  };
+
+  const editCategory = async (category: QuestionCategory, input: CategoryInput) => {
+    const updated = await updateCategory(category.id, input);
+    if (updated.name !== category.name) {
+      await renameQuestionCategory(category.name, updated.name);
+    }
+    setCategories(prev => sortByName(prev.map(c => c.id === category.id ? updated : c)));
+    return updated;
+  };
+
+  const removeCategory = async (id: string) => {
+    await deleteCategory(id);
+    setCategories(prev => prev.filter(c => c.id !== id));
+  };
+
+  return {
+    categories,
+    loading,
+    error,
+    refetch: fetchAll,
+    addCategory,
+    editCategory,
+    removeCategory,
+  };
+};
@@ -0,0 +1,59 @@
+import { useState, useEffect } from 'react';
+import { measureAudioLevels, findSilentStretches, SilentStretch, LEVEL_SAMPLE_INTERVAL } from '../lib/audioAnalysis';
+import { buildHesitationTimeline } from '../lib/hesitation';
+import { TranscriptWord } from '../types';
+
+/**
+ * Analyses a finished recording for silent stretches and, when a
+ * transcript is available, filler words. `audio` is either the blob of a
+ * fresh take or the URL of a saved recording.
+ */
+export const useHesitationAnalysis = (
+  audio: Blob | string | null,
+  words: TranscriptWord[] | null = null,
+  enabled = true,
+) => {
+  const [silences, setSilences] = useState<SilentStretch[]>([]);
+  const [duration, setDuration] = useState(0);
+  const [analysing, setAnalysing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!audio || !enabled) return;
+
+    let cancelled = false;
+
+    const analyse = async () => {
+      try {
+        setAnalysing(true);
+        setError(null);
+
+        const blob = typeof audio === 'string' ? await (await fetch(audio)).blob() : audio;
+        const levels = await measureAudioLevels(blob);
+
+        if (!cancelled) {
+          setSilences(findSilentStretches(levels));
+          setDuration(levels.length * LEVEL_SAMPLE_INTERVAL);
+        }
+      } catch (err) {
+        console.error('Error analysing recording:', err);
+        if (!cancelled) setError('Could not analyse this recording');
+      } finally {
+        if (!cancelled) setAnalysing(false);
+      }
+    };
+
+    analyse();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [audio, enabled]);
+
+  return {
+    events: buildHesitationTimeline(silences, words || []),
+    duration,
+    analysing,
+    error,
+  };
+};
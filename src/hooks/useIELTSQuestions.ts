@@ -7,6 +7,8 @@ export const useIELTSQuestions = () => {
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Question ids to step through instead of the whole bank, e.g. today's due reviews
+  const [queue, setQueue] = useState<string[] | null>(null);
 
   useEffect(() => {
     fetchQuestions();
@@ -41,7 +43,27 @@ export const useIELTSQuestions = () => {
     return false;
   };
 
+  const queueIndexes = queue
+    ? queue.map(id => questions.findIndex(q => q.id === id)).filter(index => index !== -1)
+    : null;
+  const queuePosition = queueIndexes ? queueIndexes.indexOf(currentQuestionIndex) : -1;
+
+  const jumpToQueuePosition = (position: number) => {
+    const index = queueIndexes?.[position - 1];
+    if (index === undefined) return false;
+    setCurrentQuestionIndex(index);
+    return true;
+  };
+
   const nextQuestion = () => {
+    if (queueIndexes) {
+      // The current question may have left the queue, e.g. once it has been reviewed
+      const next = queuePosition === -1 ? queueIndexes[0] : queueIndexes[queuePosition + 1];
+      if (next === undefined) return false;
+      setCurrentQuestionIndex(next);
+      return true;
+    }
+
     if (currentQuestionIndex < questions.length - 1) {
       setCurrentQuestionIndex(prev => prev + 1);
       return true;
@@ -50,6 +72,12 @@ export const useIELTSQuestions = () => {
   };
 
   const previousQuestion = () => {
+    if (queueIndexes) {
+      if (queuePosition <= 0) return false;
+      setCurrentQuestionIndex(queueIndexes[queuePosition - 1]);
+      return true;
+    }
+
     if (currentQuestionIndex > 0) {
       setCurrentQuestionIndex(prev => prev - 1);
       return true;
@@ -60,6 +88,9 @@ export const useIELTSQuestions = () => {
   const currentQuestion = questions[currentQuestionIndex] || null;
   const totalQuestions = questions.length;
   const progress = totalQuestions > 0 ? ((currentQuestionIndex + 1) / totalQuestions) * 100 : 0;
+  const queueProgress = queueIndexes
+    ? { position: queuePosition + 1, total: queueIndexes.length }
+    : null;
 
   const updateCurrentQuestion = (updatedQuestion: IELTSQuestion) => {
     setQuestions(prev => 
@@ -87,11 +118,14 @@ export const useIELTSQuestions = () => {
     currentQuestionIndex: currentQuestionIndex + 1,
     totalQuestions,
     progress,
+    queueProgress,
     loading,
     error,
     jumpToQuestion,
     nextQuestion,
     previousQuestion,
+    setQueue,
+    jumpToQueuePosition,
     refetch: fetchQuestions,
     updateCurrentQuestion,
     handleQuestionDeleted,
@@ -0,0 +1,221 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { saveRecording } from '../lib/recordings';
+import { getFollowUpQuestions } from '../lib/questionSets';
+import { getCurrentUserId } from '../lib/auth';
+import { IELTSQuestion, MockExamStep, MockExamAnswer } from '../types';
+
+export type MockExamPhase = 'idle' | 'transition' | 'answering' | 'finished';
+
+const PART_1_QUESTION_COUNT = 4;
+const PART_3_QUESTION_COUNT = 4;
+
+// What the examiner says before each part of the test
+export const EXAMINER_SCRIPTS: Record<1 | 2 | 3, (topic: string) => string> = {
+  1: (topic) =>
+    `Good morning. In this first part of the test, I'd like to ask you some questions about yourself. Let's talk about ${topic.toLowerCase()}.`,
+  2: () =>
+    "Now I'm going to give you a topic, and I'd like you to talk about it for one to two minutes. Before you talk, you'll have one minute to think about what you're going to say. Here is your topic.",
+  3: (topic) =>
+    `We've been talking about ${topic.toLowerCase()}, and I'd like to discuss with you one or two more general questions related to this.`,
+};
+
+export const EXAMINER_CLOSING = 'Thank you. That is the end of the speaking test.';
+
+const shuffle = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Picks a Part 1 topic set, a Part 2 cue card and Part 3 follow-ups
+ * from the question bank. Part 1 questions are taken topic by topic so
+ * the interview stays on one subject for as long as possible, and Part 3
+ * prefers the cue card's own question set, then questions sharing its
+ * category.
+ */
+export const buildMockExamPlan = (questions: IELTSQuestion[]): IELTSQuestion[] => {
+  const part1 = questions.filter(q => q.part === 1);
+  const part2 = questions.filter(q => q.part === 2);
+  const part3 = questions.filter(q => q.part === 3);
+
+  const topics = shuffle([...new Set(part1.map(q => q.category))]);
+  const part1Selection: IELTSQuestion[] = [];
+  for (const topic of topics) {
+    if (part1Selection.length >= PART_1_QUESTION_COUNT) break;
+    const topicQuestions = part1.filter(q => q.category === topic);
+    part1Selection.push(...topicQuestions.slice(0, PART_1_QUESTION_COUNT - part1Selection.length));
+  }
+
+  const cueCard = shuffle(part2)[0];
+
+  const inSet = cueCard ? getFollowUpQuestions(cueCard, questions) : [];
+  const linked = inSet.length > 0 || !cueCard
+    ? inSet
+    : part3.filter(q => q.category === cueCard.category);
+  const part3Selection = (linked.length > 0 ? linked : shuffle(part3))
+    .slice(0, PART_3_QUESTION_COUNT);
+
+  return [...part1Selection, ...(cueCard ? [cueCard] : []), ...part3Selection];
+};
+
+export const useMockExam = (questions: IELTSQuestion[]) => {
+  const [steps, setSteps] = useState<MockExamStep[]>([]);
+  const [currentStepIndex, setCurrentStepIndex] = useState(0);
+  const [phase, setPhase] = useState<MockExamPhase>('idle');
+  const [answers, setAnswers] = useState<MockExamAnswer[]>([]);
+  const [elapsed, setElapsed] = useState(0);
+  const [startedAt, setStartedAt] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [savedSessionId, setSavedSessionId] = useState<string | null>(null);
+
+  const answersRef = useRef<MockExamAnswer[]>([]);
+  answersRef.current = answers;
+
+  // Kept across failed saves so a retry reuses the session row and skips uploaded answers
+  const sessionIdRef = useRef<string | null>(null);
+  const uploadedAnswersRef = useRef(new Set<MockExamAnswer>());
+
+  // Session clock runs from the first examiner line until the closing line
+  useEffect(() => {
+    if (phase === 'idle' || phase === 'finished') return;
+
+    const interval = setInterval(() => {
+      setElapsed(prev => prev + 1);
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [phase]);
+
+  // Release the object URLs of discarded answers
+  useEffect(() => {
+    return () => {
+      answersRef.current.forEach(answer => URL.revokeObjectURL(answer.audioUrl));
+    };
+  }, []);
+
+  const startExam = useCallback(() => {
+    const plan = buildMockExamPlan(questions);
+    if (plan.length === 0) return false;
+
+    answersRef.current.forEach(answer => URL.revokeObjectURL(answer.audioUrl));
+
+    setSteps(plan.map((question, index) => ({
+      question,
+      isFirstOfPart: index === 0 || plan[index - 1].part !== question.part,
+    })));
+    setCurrentStepIndex(0);
+    setAnswers([]);
+    setElapsed(0);
+    setStartedAt(new Date().toISOString());
+    setSavedSessionId(null);
+    sessionIdRef.current = null;
+    uploadedAnswersRef.current = new Set();
+    setPhase('transition');
+    return true;
+  }, [questions]);
+
+  const beginPart = useCallback(() => {
+    setPhase('answering');
+  }, []);
+
+  const submitAnswer = useCallback((blob: Blob, duration: number, prepNotes: string | null = null) => {
+    const step = steps[currentStepIndex];
+    if (!step) return;
+
+    setAnswers(prev => [
+      ...prev,
+      { question: step.question, blob, audioUrl: URL.createObjectURL(blob), duration, prepNotes },
+    ]);
+
+    const nextIndex = currentStepIndex + 1;
+    if (nextIndex >= steps.length) {
+      setPhase('finished');
+      return;
+    }
+
+    setCurrentStepIndex(nextIndex);
+    setPhase(steps[nextIndex].isFirstOfPart ? 'transition' : 'answering');
+  }, [steps, currentStepIndex]);
+
+  const resetExam = useCallback(() => {
+    answersRef.current.forEach(answer => URL.revokeObjectURL(answer.audioUrl));
+    setSteps([]);
+    setCurrentStepIndex(0);
+    setAnswers([]);
+    setElapsed(0);
+    setStartedAt(null);
+    setSavedSessionId(null);
+    sessionIdRef.current = null;
+    uploadedAnswersRef.current = new Set();
+    setPhase('idle');
+  }, []);
+
+  const saveSession = async () => {
+    if (answers.length === 0 || savedSessionId) return;
+
+    try {
+      setIsSaving(true);
+
+      if (!sessionIdRef.current) {
+        const userId = await getCurrentUserId();
+        const { data: session, error: sessionError } = await supabase
+          .from('mock_exam_sessions')
+          .insert({
+            user_id: userId,
+            started_at: startedAt,
+            completed_at: new Date().toISOString(),
+            total_duration: elapsed,
+          })
+          .select()
+          .single();
+
+        if (sessionError) throw sessionError;
+        sessionIdRef.current = session.id;
+      }
+
+      const sessionId = sessionIdRef.current;
+      for (const answer of answers) {
+        if (uploadedAnswersRef.current.has(answer)) continue;
+
+        await saveRecording({
+          questionId: answer.question.id,
+          serialNumber: answer.question.serial_number,
+          blob: answer.blob,
+          duration: answer.duration,
+          sessionId,
+          prepNotes: answer.prepNotes,
+        });
+        uploadedAnswersRef.current.add(answer);
+      }
+
+      setSavedSessionId(sessionId);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const currentStep = steps[currentStepIndex] || null;
+  const spokenDuration = answers.reduce((sum, answer) => sum + answer.duration, 0);
+
+  return {
+    steps,
+    currentStep,
+    currentStepIndex,
+    phase,
+    answers,
+    elapsed,
+    spokenDuration,
+    isSaving,
+    savedSessionId,
+    startExam,
+    beginPart,
+    submitAnswer,
+    resetExam,
+    saveSession,
+  };
+};
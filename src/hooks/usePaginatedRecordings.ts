@@ -0,0 +1,91 @@
+import { useState, useEffect } from 'react';
+import {
+  deleteRecordings,
+  fetchRecordingPage,
+  RecordingCursor,
+  RecordingHistoryFilters,
+  RecordingSort,
+} from '../lib/recordings';
+import { UserRecording } from '../types';
+
+export const usePaginatedRecordings = (
+  userId: string | null,
+  filters: RecordingHistoryFilters,
+  sort: RecordingSort,
+) => {
+  const [recordings, setRecordings] = useState<UserRecording[]>([]);
+  const [nextCursor, setNextCursor] = useState<RecordingCursor | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Changing filters or sort order starts again from the first page
+  useEffect(() => {
+    if (!userId) {
+      setRecordings([]);
+      setNextCursor(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadFirstPage = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const page = await fetchRecordingPage(userId, filters, sort);
+        if (!cancelled) {
+          setRecordings(page.recordings);
+          setNextCursor(page.nextCursor);
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to fetch recordings');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadFirstPage();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, filters, sort]);
+
+  const loadMore = async () => {
+    if (!userId || !nextCursor || loadingMore) return;
+
+    try {
+      setLoadingMore(true);
+      setError(null);
+      const page = await fetchRecordingPage(userId, filters, sort, nextCursor);
+      setRecordings(prev => [...prev, ...page.recordings]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch recordings');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const removeRecordings = async (ids: string[]) => {
+    const selected = recordings.filter(recording => ids.includes(recording.id));
+    await deleteRecordings(selected);
+    setRecordings(prev => prev.filter(recording => !ids.includes(recording.id)));
+  };
+
+  const replaceRecording = (updated: UserRecording) => {
+    setRecordings(prev => prev.map(recording => recording.id === updated.id ? updated : recording));
+  };
+
+  return {
+    recordings,
+    loading,
+    loadingMore,
+    error,
+    hasMore: nextCursor !== null,
+    loadMore,
+    removeRecordings,
+    replaceRecording,
+  };
+};
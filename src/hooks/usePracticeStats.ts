@@ -0,0 +1,38 @@
+import { useState, useEffect, useCallback } from 'react';
+import { fetchPracticeStats, QuestionPracticeStats } from '../lib/practiceSession';
+
+export const usePracticeStats = (userId: string | null, enabled = true) => {
+  const [stats, setStats] = useState<Record<string, QuestionPracticeStats>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStats = useCallback(async () => {
+    if (!userId) {
+      setStats({});
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      setStats(await fetchPracticeStats(userId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch practice history');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (enabled) {
+      fetchStats();
+    }
+  }, [enabled, fetchStats]);
+
+  return {
+    stats,
+    loading,
+    error,
+    refetch: fetchStats,
+  };
+};
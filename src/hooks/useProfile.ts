@@ -0,0 +1,48 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { Profile, UserRole } from '../types';
+
+export const useProfile = (userId: string | null) => {
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!userId) {
+      setProfile(null);
+      return;
+    }
+
+    const fetchProfile = async () => {
+      try {
+        setLoading(true);
+
+        const { data, error } = await supabase
+          .from('profiles')
+          .select('*')
+          .eq('id', userId)
+          .maybeSingle();
+
+        if (error) throw error;
+
+        setProfile(data);
+      } catch (err) {
+        console.error('Error fetching profile:', err);
+        setProfile(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchProfile();
+  }, [userId]);
+
+  // Users without a profile row are learners
+  const role: UserRole = profile?.role ?? 'learner';
+
+  return {
+    profile,
+    role,
+    loading,
+    canEditQuestions: role === 'editor' || role === 'admin',
+  };
+};
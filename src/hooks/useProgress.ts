@@ -0,0 +1,49 @@
+import { useState, useEffect, useMemo } from 'react';
+import { fetchProgressRecordings, ProgressRecording, summarizeProgress } from '../lib/progress';
+import { TimingProfiles } from '../lib/timing';
+import { IELTSQuestion } from '../types';
+
+export const useProgress = (userId: string | null, questions: IELTSQuestion[], timingProfiles: TimingProfiles) => {
+  const [recordings, setRecordings] = useState<ProgressRecording[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!userId) {
+      setRecordings([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadRecordings = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await fetchProgressRecordings(userId);
+        if (!cancelled) setRecordings(data);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to fetch progress');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadRecordings();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const summary = useMemo(
+    () => summarizeProgress(recordings, questions, timingProfiles),
+    [recordings, questions, timingProfiles]
+  );
+
+  return {
+    summary,
+    loading,
+    error,
+  };
+};
@@ -0,0 +1,61 @@
+import { useState, useEffect } from 'react';
+import {
+  createQuestionSet,
+  deleteQuestionSet,
+  fetchQuestionSets,
+  QuestionSetInput,
+  updateQuestionSet,
+} from '../lib/questionSets';
+import { QuestionSet } from '../types';
+
+export const useQuestionSets = () => {
+  const [questionSets, setQuestionSets] = useState<QuestionSet[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSets();
+  }, []);
+
+  const fetchSets = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setQuestionSets(await fetchQuestionSets());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch question sets');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const sortByTitle = (sets: QuestionSet[]) =>
+    [...sets].sort((a, b) => a.title.localeCompare(b.title));
+
+  const addQuestionSet = async (input: QuestionSetInput) => {
+    const created = await createQuestionSet(input);
+    setQuestionSets(prev => sortByTitle([...prev, created]));
+    return created;
+  };
+
+  const editQuestionSet = async (id: string, input: QuestionSetInput) => {
+    const updated = await updateQuestionSet(id, input);
+    setQuestionSets(prev => sortByTitle(prev.map(set => set.id === id ? updated : set)));
+    return updated;
+  };
+
+  const removeQuestionSet = async (id: string) => {
+    await deleteQuestionSet(id);
+    setQuestionSets(prev => prev.filter(set => set.id !== id));
+  };
+
+  return {
+    questionSets,
+    loading,
+    error,
+    refetch: fetchSets,
+    addQuestionSet,
+    editQuestionSet,
+    removeQuestionSet,
+  };
+};
@@ -0,0 +1,55 @@
+import { useState, useEffect, useRef } from 'react';
+import { createRecordingAudioUrl, getRecordingPath, SIGNED_URL_SECONDS } from '../lib/recordings';
+import { UserRecording } from '../types';
+
+// A URL this close to its expiry is treated as expired
+const EXPIRY_MARGIN_SECONDS = 60;
+
+/**
+ * A signed URL for playing a saved recording. Call `renew` when playback
+ * fails; a new URL is only issued once the current one has expired, so a
+ * missing file cannot cause a loop.
+ */
+export const useRecordingAudioUrl = (recording: UserRecording) => {
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+  const signedAtRef = useRef(0);
+  const path = getRecordingPath(recording);
+
+  useEffect(() => {
+    if (!path) {
+      setError('This recording has no stored audio');
+      return;
+    }
+
+    let cancelled = false;
+
+    const sign = async () => {
+      try {
+        const url = await createRecordingAudioUrl(path);
+        if (cancelled) return;
+        signedAtRef.current = Date.now();
+        setAudioUrl(url);
+        setError(null);
+      } catch (err) {
+        console.error('Error signing recording URL:', err);
+        if (!cancelled) setError('Could not load this recording');
+      }
+    };
+
+    sign();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [path, version]);
+
+  const renew = () => {
+    if (Date.now() - signedAtRef.current >= (SIGNED_URL_SECONDS - EXPIRY_MARGIN_SECONDS) * 1000) {
+      setVersion(v => v + 1);
+    }
+  };
+
+  return { audioUrl, error, renew };
+};
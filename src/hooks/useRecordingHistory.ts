@@ -2,16 +2,18 @@ import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import { UserRecording } from '../types';
 
-export const useRecordingHistory = (questionId: string) => {
+export const useRecordingHistory = (questionId: string, userId: string | null) => {
   const [recordings, setRecordings] = useState<UserRecording[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    if (questionId) {
+    if (questionId && userId) {
       fetchRecordings();
+    } else {
+      setRecordings([]);
     }
-  }, [questionId]);
+  }, [questionId, userId]);
 
   const fetchRecordings = async () => {
     try {
@@ -22,6 +24,7 @@ export const useRecordingHistory = (questionId: string) => {
         .from('user_recordings')
         .select('*')
         .eq('question_id', questionId)
+        .eq('user_id', userId)
         .order('created_at', { ascending: false })
         .limit(5); // Show last 5 recordings
 
@@ -39,11 +42,16 @@ export const useRecordingHistory = (questionId: string) => {
     setRecordings(prev => [recording, ...prev.slice(0, 4)]); // Keep only 5 most recent
   };
 
+  const updateRecording = (updated: UserRecording) => {
+    setRecordings(prev => prev.map(recording => recording.id === updated.id ? updated : recording));
+  };
+
   return {
     recordings,
     loading,
     error,
     refetch: fetchRecordings,
     addRecording,
+    updateRecording,
   };
 };
\ No newline at end of file
@@ -0,0 +1,154 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { saveRecording, SaveRecordingParams } from '../lib/recordings';
+import { getQueuedRecordings, putQueuedRecording, deleteQueuedRecording } from '../lib/recordingQueue';
+import { QueuedRecording, UserRecording } from '../types';
+
+const BASE_RETRY_DELAY = 5 * 1000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+const MAX_ATTEMPTS = 6;
+const CHECK_INTERVAL = 5 * 1000;
+
+// Exponential backoff: 5s, 10s, 20s, ... capped at 5 minutes
+const getRetryDelay = (attempts: number) =>
+  Math.min(BASE_RETRY_DELAY * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY);
+
+export const useRecordingQueue = (onSynced?: (recording: UserRecording) => void) => {
+  const [items, setItems] = useState<QueuedRecording[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const processingRef = useRef(false);
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+
+  const refresh = useCallback(async () => {
+    try {
+      setItems(await getQueuedRecordings());
+      setError(null);
+    } catch (err) {
+      console.error('Error reading recording queue:', err);
+      setError('Offline storage is not available in this browser');
+    }
+  }, []);
+
+  const processQueue = useCallback(async (force = false) => {
+    if (processingRef.current || !navigator.onLine) return;
+    processingRef.current = true;
+
+    try {
+      const queued = await getQueuedRecordings();
+
+      for (const item of queued) {
+        if (item.status !== 'pending' || !item.blob) continue;
+        if (!force && item.nextAttemptAt > Date.now()) continue;
+
+        try {
+          const recording = await saveRecording({
+            questionId: item.questionId,
+            serialNumber: item.serialNumber,
+            blob: item.blob,
+            duration: item.duration,
+            sessionId: item.sessionId,
+            prepNotes: item.prepNotes,
+          });
+
+          // The audio is in storage now, so only the metadata is kept for the status panel
+          await putQueuedRecording({ ...item, blob: null, status: 'synced', lastError: null });
+          onSyncedRef.current?.(recording);
+        } catch (err) {
+          const attempts = item.attempts + 1;
+          await putQueuedRecording({
+            ...item,
+            attempts,
+            status: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+            nextAttemptAt: Date.now() + getRetryDelay(attempts),
+            lastError: err instanceof Error ? err.message : 'Upload failed',
+          });
+        }
+      }
+    } catch (err) {
+      console.error('Error processing recording queue:', err);
+    } finally {
+      processingRef.current = false;
+      await refresh();
+    }
+  }, [refresh]);
+
+  useEffect(() => {
+    refresh().then(() => processQueue());
+
+    const interval = setInterval(() => processQueue(), CHECK_INTERVAL);
+    const handleOnline = () => processQueue(true);
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [refresh, processQueue]);
+
+  const enqueueRecording = useCallback(async (params: SaveRecordingParams, lastError: string | null = null) => {
+    await putQueuedRecording({
+      id: crypto.randomUUID(),
+      questionId: params.questionId,
+      serialNumber: params.serialNumber,
+      duration: params.duration,
+      blob: params.blob,
+      sessionId: params.sessionId ?? null,
+      prepNotes: params.prepNotes ?? null,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: Date.now() + BASE_RETRY_DELAY,
+      lastError,
+      createdAt: new Date().toISOString(),
+    });
+    await refresh();
+  }, [refresh]);
+
+  // The panel does not await these, so failures are reported through `error`
+  const retryRecording = async (id: string) => {
+    const item = items.find(i => i.id === id);
+    if (!item) return;
+
+    try {
+      await putQueuedRecording({ ...item, status: 'pending', attempts: 0, nextAttemptAt: Date.now() });
+      await processQueue(true);
+    } catch (err) {
+      console.error('Error retrying queued recording:', err);
+      setError('Could not retry the recording');
+    }
+  };
+
+  const discardRecording = async (id: string) => {
+    try {
+      await deleteQueuedRecording(id);
+      await refresh();
+    } catch (err) {
+      console.error('Error discarding queued recording:', err);
+      setError('Could not discard the recording');
+    }
+  };
+
+  const clearSynced = async () => {
+    try {
+      await Promise.all(
+        items.filter(i => i.status === 'synced').map(i => deleteQueuedRecording(i.id))
+      );
+      await refresh();
+    } catch (err) {
+      console.error('Error clearing synced recordings:', err);
+      setError('Could not clear synced recordings');
+    }
+  };
+
+  return {
+    items,
+    error,
+    pendingCount: items.filter(i => i.status === 'pending').length,
+    failedCount: items.filter(i => i.status === 'failed').length,
+    syncedCount: items.filter(i => i.status === 'synced').length,
+    enqueueRecording,
+    retryRecording,
+    discardRecording,
+    clearSynced,
+  };
+};
@@ -0,0 +1,71 @@
+import { useState, useEffect, useMemo } from 'react';
+import { buildDueQueue, fetchReviews, saveReview } from '../lib/srs';
+import { IELTSQuestion, QuestionReview } from '../types';
+
+const QUEUE_ENABLED_STORAGE_KEY = 'ielts-due-queue-enabled';
+
+export const useSpacedRepetition = (userId: string | null, questions: IELTSQuestion[]) => {
+  const [reviews, setReviews] = useState<Record<string, QuestionReview>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [queueEnabled, setQueueEnabledState] = useState(
+    () => localStorage.getItem(QUEUE_ENABLED_STORAGE_KEY) === 'true'
+  );
+
+  useEffect(() => {
+    if (!userId) {
+      setReviews({});
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadReviews = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await fetchReviews(userId);
+        if (!cancelled) {
+          setReviews(Object.fromEntries(data.map(review => [review.question_id, review])));
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to fetch review schedule');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadReviews();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const dueQueue = useMemo(() => buildDueQueue(questions, reviews), [questions, reviews]);
+
+  const setQueueEnabled = (enabled: boolean) => {
+    localStorage.setItem(QUEUE_ENABLED_STORAGE_KEY, String(enabled));
+    setQueueEnabledState(enabled);
+  };
+
+  const rateQuestion = async (questionId: string, quality: number) => {
+    if (!userId) {
+      throw new Error('You need to be signed in to schedule reviews');
+    }
+
+    const review = await saveReview(userId, questionId, reviews[questionId] ?? null, quality);
+    setReviews(prev => ({ ...prev, [questionId]: review }));
+    return review;
+  };
+
+  return {
+    reviews,
+    dueQueue,
+    loading,
+    error,
+    queueEnabled,
+    setQueueEnabled,
+    rateQuestion,
+  };
+};
@@ -0,0 +1,38 @@
+import { useState, useEffect } from 'react';
+import { DEFAULT_TIMING_PROFILES, fetchTimingProfiles, saveTimingProfiles, TimingProfiles } from '../lib/timing';
+
+export const useTimingProfiles = () => {
+  // Exam timings apply until the saved profiles have loaded
+  const [profiles, setProfiles] = useState<TimingProfiles>(DEFAULT_TIMING_PROFILES);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchProfiles();
+  }, []);
+
+  const fetchProfiles = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setProfiles(await fetchTimingProfiles());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch timing profiles');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateProfiles = async (next: TimingProfiles) => {
+    await saveTimingProfiles(next);
+    setProfiles(next);
+  };
+
+  return {
+    profiles,
+    loading,
+    error,
+    refetch: fetchProfiles,
+    updateProfiles,
+  };
+};
@@ -0,0 +1,53 @@
+import { useState, useEffect } from 'react';
+import { fetchTranscript, transcribeRecording } from '../lib/transcription';
+import { RecordingTranscript, UserRecording } from '../types';
+
+export const useTranscript = (recording: UserRecording) => {
+  const [transcript, setTranscript] = useState<RecordingTranscript | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadTranscript = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await fetchTranscript(recording.id);
+        if (!cancelled) setTranscript(data);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to fetch transcript');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadTranscript();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [recording.id]);
+
+  const transcribe = async () => {
+    try {
+      setIsTranscribing(true);
+      setError(null);
+      setTranscript(await transcribeRecording(recording));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to transcribe recording');
+    } finally {
+      setIsTranscribing(false);
+    }
+  };
+
+  return {
+    transcript,
+    loading,
+    isTranscribing,
+    error,
+    transcribe,
+  };
+};
@@ -0,0 +1,37 @@
+import { useState, useEffect, useCallback } from 'react';
+import { fetchVocabularyTrend, VocabularyTrendPoint } from '../lib/vocabulary';
+import { IELTSQuestion } from '../types';
+
+export const useVocabularyTrend = (question: IELTSQuestion | null, userId: string | null) => {
+  const [points, setPoints] = useState<VocabularyTrendPoint[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTrend = useCallback(async () => {
+    if (!question || !userId || question.key_vocabulary.length === 0) {
+      setPoints([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      setPoints(await fetchVocabularyTrend(question.id, userId, question.key_vocabulary));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch vocabulary trend');
+    } finally {
+      setLoading(false);
+    }
+  }, [question, userId]);
+
+  useEffect(() => {
+    fetchTrend();
+  }, [fetchTrend]);
+
+  return {
+    points,
+    loading,
+    error,
+    refetch: fetchTrend,
+  };
+};
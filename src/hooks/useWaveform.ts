@@ -0,0 +1,59 @@
+import { useState, useEffect } from 'react';
+import { decodeAudio } from '../lib/audioAnalysis';
+import { AudioSegment, findSpeechRange, getWaveformPeaks } from '../lib/waveform';
+
+/**
+ * Decodes a recording for drawing its waveform and finds the silence
+ * that could be trimmed from either end. `audio` is either the blob of a
+ * fresh take or the URL of a saved recording.
+ */
+export const useWaveform = (audio: Blob | string | null, enabled = true) => {
+  const [peaks, setPeaks] = useState<number[]>([]);
+  const [duration, setDuration] = useState(0);
+  const [speechRange, setSpeechRange] = useState<AudioSegment | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!audio || !enabled) return;
+
+    let cancelled = false;
+
+    const decode = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        setPeaks([]);
+        setSpeechRange(null);
+
+        const blob = typeof audio === 'string' ? await (await fetch(audio)).blob() : audio;
+        const audioBuffer = await decodeAudio(blob);
+
+        if (!cancelled) {
+          setPeaks(getWaveformPeaks(audioBuffer));
+          setDuration(audioBuffer.duration);
+          setSpeechRange(findSpeechRange(audioBuffer));
+        }
+      } catch (err) {
+        console.error('Error decoding recording:', err);
+        if (!cancelled) setError('Could not draw the waveform for this recording');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    decode();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [audio, enabled]);
+
+  return {
+    peaks,
+    duration,
+    speechRange,
+    loading,
+    error,
+  };
+};
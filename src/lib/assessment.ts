@@ -0,0 +1,219 @@
+import { supabase } from './supabase';
+import { matchKeyVocabulary } from './vocabulary';
+import { TimingProfile } from './timing';
+import { LONG_PAUSE_SECONDS } from './hesitation';
+import {
+  AssessmentMetrics,
+  BandAssessment,
+  CriterionScore,
+  IELTSQuestion,
+  RecordingAssessment,
+  RecordingTranscript,
+} from '../types';
+
+// Gaps between words, in seconds, that count as a pause; long pauses follow the hesitation timeline
+const PAUSE_THRESHOLD = 0.5;
+
+// Answers shorter than this are not assessed
+const MIN_WORDS = 10;
+
+const SUBORDINATORS = [
+  'because', 'although', 'though', 'which', 'who', 'whom', 'whose', 'where', 'when',
+  'while', 'whereas', 'if', 'unless', 'since', 'until', 'so that', 'even if', 'as long as',
+];
+
+const DISCOURSE_MARKERS = [
+  'however', 'moreover', 'furthermore', 'in addition', 'on the other hand', 'for example',
+  'for instance', 'as a result', 'therefore', 'firstly', 'secondly', 'finally', 'overall',
+  'in my opinion', 'personally', 'to be honest', 'what i mean is', 'in contrast', 'consequently',
+];
+
+const tokenize = (text: string) => text.toLowerCase().match(/[a-z']+/g) || [];
+
+const countPhrase = (text: string, phrase: string) =>
+  (text.match(new RegExp(`\\b${phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'g')) || []).length;
+
+// IELTS rounds averaged bands to the nearest half band, with .25 and .75 rounding up
+export const roundBand = (value: number) =>
+  Math.min(9, Math.max(1, Math.floor(value * 2 + 0.5) / 2));
+
+// Maps a value onto a band using ascending thresholds: below thresholds[0] is band 4
+const bandFromThresholds = (value: number, thresholds: number[]) => {
+  const index = thresholds.findIndex(threshold => value < threshold);
+  return 4 + (index === -1 ? thresholds.length : index);
+};
+
+// Maps a value where lower is better: at or below ceilings[0] is band 9
+const bandFromCeilings = (value: number, ceilings: number[]) => {
+  const index = ceilings.findIndex(ceiling => value <= ceiling);
+  return 9 - (index === -1 ? ceilings.length : index);
+};
+
+const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+export const measureAnswer = (
+  transcript: Pick<RecordingTranscript, 'text' | 'words'>,
+  question: IELTSQuestion,
+): AssessmentMetrics => {
+  const words = transcript.words;
+  const tokens = tokenize(transcript.text);
+  const lowerText = transcript.text.toLowerCase();
+
+  const speakingTime = words.length > 0 ? words[words.length - 1].end - words[0].start : 0;
+
+  let pauseCount = 0;
+  let longPauseCount = 0;
+  for (let i = 1; i < words.length; i++) {
+    const gap = words[i].start - words[i - 1].end;
+    if (gap >= LONG_PAUSE_SECONDS) longPauseCount++;
+    if (gap >= PAUSE_THRESHOLD) pauseCount++;
+  }
+
+  const sentences = transcript.text
+    .split(/[.!?]+/)
+    .map(s => s.trim())
+    .filter(s => tokenize(s).length > 0);
+  const complexSentences = sentences.filter(sentence => {
+    const lower = sentence.toLowerCase();
+    return SUBORDINATORS.some(word => countPhrase(lower, word) > 0);
+  });
+
+  return {
+    wordCount: tokens.length,
+    speakingTime,
+    wordsPerMinute: speakingTime > 0 ? (tokens.length / speakingTime) * 60 : 0,
+    pauseCount,
+    longPauseCount,
+    typeTokenRatio: tokens.length > 0 ? new Set(tokens).size / tokens.length : 0,
+    keyVocabularyUsed: matchKeyVocabulary(transcript.text, question.key_vocabulary).used,
+    keyVocabularyTotal: question.key_vocabulary.length,
+    sentenceCount: sentences.length,
+    averageSentenceLength: sentences.length > 0 ? tokens.length / sentences.length : 0,
+    complexSentenceRatio: sentences.length > 0 ? complexSentences.length / sentences.length : 0,
+    discourseMarkerCount: DISCOURSE_MARKERS.reduce((sum, marker) => sum + countPhrase(lowerText, marker), 0),
+  };
+};
+
+const scoreFluency = (m: AssessmentMetrics, timing: TimingProfile): CriterionScore => {
+  const minutes = Math.max(m.speakingTime / 60, 0.1);
+  const rateBand = m.wordsPerMinute > 200 ? 7 : bandFromThresholds(m.wordsPerMinute, [70, 90, 110, 130, 160]);
+  const longPausesPerMinute = m.longPauseCount / minutes;
+  const pauseBand = bandFromCeilings(longPausesPerMinute, [0, 1, 2, 3, 5]);
+  const markersPer100 = (m.discourseMarkerCount / Math.max(m.wordCount, 1)) * 100;
+  const coherenceBand = bandFromThresholds(markersPer100, [0.5, 1, 1.5, 2.5, 3.5]);
+
+  const evidence = [
+    `Speech rate of ${Math.round(m.wordsPerMinute)} words per minute`,
+    `${m.pauseCount} pauses of ${PAUSE_THRESHOLD}s or more, ${m.longPauseCount} longer than ${LONG_PAUSE_SECONDS}s`,
+    `${m.discourseMarkerCount} linking expressions used`,
+  ];
+
+  let band = average([rateBand, pauseBand, coherenceBand]);
+
+  if (m.speakingTime < timing.min) {
+    band -= 1;
+    evidence.push(`Spoke for ${Math.round(m.speakingTime)}s, short of the ${timing.min}s expected`);
+  }
+
+  return { band: roundBand(band), evidence };
+};
+
+const scoreLexical = (m: AssessmentMetrics): CriterionScore => {
+  // Root type-token ratio is less sensitive to answer length than the plain ratio
+  const rootTtr = m.typeTokenRatio * Math.sqrt(m.wordCount);
+  const varietyBand = bandFromThresholds(rootTtr, [4, 5, 6, 7, 8]);
+
+  const evidence = [
+    `Type-token ratio of ${m.typeTokenRatio.toFixed(2)} over ${m.wordCount} words`,
+  ];
+
+  let band = varietyBand;
+  if (m.keyVocabularyTotal > 0) {
+    const usage = m.keyVocabularyUsed.length / m.keyVocabularyTotal;
+    if (usage >= 0.5) band += 0.5;
+    if (usage === 0) band -= 0.5;
+    evidence.push(
+      `Used ${m.keyVocabularyUsed.length} of ${m.keyVocabularyTotal} key vocabulary items` +
+      (m.keyVocabularyUsed.length > 0 ? ` (${m.keyVocabularyUsed.join(', ')})` : '')
+    );
+  }
+
+  return { band: roundBand(band), evidence };
+};
+
+const scoreGrammar = (m: AssessmentMetrics): CriterionScore => {
+  const lengthBand = bandFromThresholds(m.averageSentenceLength, [6, 8, 12, 16, 22]);
+  const complexityBand = bandFromThresholds(m.complexSentenceRatio, [0.1, 0.2, 0.4, 0.6, 0.75]);
+
+  return {
+    band: roundBand(average([lengthBand, complexityBand])),
+    evidence: [
+      `${m.sentenceCount} sentences averaging ${m.averageSentenceLength.toFixed(1)} words`,
+      `${Math.round(m.complexSentenceRatio * 100)}% of sentences contain a subordinate clause`,
+    ],
+  };
+};
+
+const scorePronunciation = (fluency: CriterionScore, m: AssessmentMetrics): CriterionScore => ({
+  // Without acoustic scoring only delivery can be judged, so high bands are not awarded
+  band: roundBand(Math.min(fluency.band, 7)),
+  evidence: [
+    `Estimated from delivery: ${Math.round(m.wordsPerMinute)} words per minute with ${m.longPauseCount} long pauses`,
+    'Individual sounds, stress and intonation are not analysed',
+  ],
+});
+
+/**
+ * Estimates the four IELTS speaking criteria from a transcript. Returns
+ * null when the answer is too short to say anything useful. Speaking for
+ * less than the minimum of `timing` costs a fluency band.
+ */
+export const assessAnswer = (
+  transcript: Pick<RecordingTranscript, 'text' | 'words'>,
+  question: IELTSQuestion,
+  timing: TimingProfile,
+): BandAssessment | null => {
+  const metrics = measureAnswer(transcript, question);
+  if (metrics.wordCount < MIN_WORDS) return null;
+
+  const fluency = scoreFluency(metrics, timing);
+  const lexical = scoreLexical(metrics);
+  const grammar = scoreGrammar(metrics);
+  const pronunciation = scorePronunciation(fluency, metrics);
+
+  return {
+    fluency_coherence: fluency,
+    lexical_resource: lexical,
+    grammatical_range: grammar,
+    pronunciation,
+    overall: roundBand(average([fluency.band, lexical.band, grammar.band, pronunciation.band])),
+    metrics,
+  };
+};
+
+export const fetchAssessment = async (recordingId: string): Promise<RecordingAssessment | null> => {
+  const { data, error } = await supabase
+    .from('recording_assessments')
+    .select('*')
+    .eq('recording_id', recordingId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+};
+
+export const saveAssessment = async (
+  recordingId: string,
+  assessment: BandAssessment,
+): Promise<RecordingAssessment> => {
+  const { data, error } = await supabase
+    .from('recording_assessments')
+    .upsert({ recording_id: recordingId, ...assessment })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return data;
+};
@@ -0,0 +1,109 @@
+// Seconds between level readings when analysing a finished recording
+export const LEVEL_SAMPLE_INTERVAL = 0.1;
+
+// Silences shorter than this are ordinary gaps between words
+const MIN_SILENCE_SECONDS = 1;
+
+// Floor for the silence threshold so a quiet room is never treated as speech
+const MIN_SILENCE_LEVEL = 0.02;
+
+export interface SilentStretch {
+  start: number;
+  end: number;
+}
+
+/**
+ * Average frequency-bin magnitude of the analyser's current frame, in 0..1.
+ * This is the level shown by the live meter while recording.
+ */
+export const readAudioLevel = (analyser: AnalyserNode, dataArray: Uint8Array) => {
+  analyser.getByteFrequencyData(dataArray);
+  const average = dataArray.reduce((sum, value) => sum + value, 0) / dataArray.length;
+  return average / 255;
+};
+
+/**
+ * Decodes a recording into PCM samples. The context is only needed for
+ * decoding, so it is closed straight away.
+ */
+export const decodeAudio = async (audio: Blob): Promise<AudioBuffer> => {
+  const decodeContext = new AudioContext();
+  try {
+    return await decodeContext.decodeAudioData(await audio.arrayBuffer());
+  } finally {
+    decodeContext.close();
+  }
+};
+
+/**
+ * Decodes a recording and reads its level every `interval` seconds by
+ * running it through an AnalyserNode in an OfflineAudioContext.
+ */
+export const measureAudioLevels = async (
+  audio: Blob,
+  interval = LEVEL_SAMPLE_INTERVAL,
+): Promise<number[]> => {
+  const audioBuffer = await decodeAudio(audio);
+
+  const offlineContext = new OfflineAudioContext(1, audioBuffer.length, audioBuffer.sampleRate);
+  const source = offlineContext.createBufferSource();
+  source.buffer = audioBuffer;
+
+  const analyser = offlineContext.createAnalyser();
+  source.connect(analyser);
+  analyser.connect(offlineContext.destination);
+
+  const dataArray = new Uint8Array(analyser.frequencyBinCount);
+  const levels: number[] = [];
+
+  // Awaited with the rendering so a rejected suspension fails the analysis instead of going unhandled
+  const suspensions: Promise<void>[] = [];
+  for (let time = interval; time < audioBuffer.duration; time += interval) {
+    suspensions.push(offlineContext.suspend(time).then(() => {
+      levels.push(readAudioLevel(analyser, dataArray));
+      return offlineContext.resume();
+    }));
+  }
+
+  source.start();
+  await Promise.all([offlineContext.startRendering(), ...suspensions]);
+  return levels;
+};
+
+/**
+ * Finds silent stretches between the first and last spoken moment. The
+ * threshold adapts to the recording's loudness so microphone gain does
+ * not change the result.
+ */
+export const findSilentStretches = (
+  levels: number[],
+  interval = LEVEL_SAMPLE_INTERVAL,
+  minDuration = MIN_SILENCE_SECONDS,
+): SilentStretch[] => {
+  if (levels.length === 0) return [];
+
+  const sorted = [...levels].sort((a, b) => a - b);
+  const loud = sorted[Math.floor(sorted.length * 0.9)];
+  const threshold = Math.max(MIN_SILENCE_LEVEL, loud * 0.25);
+
+  const firstSpoken = levels.findIndex(level => level >= threshold);
+  if (firstSpoken === -1) return [];
+  let lastSpoken = levels.length - 1;
+  while (levels[lastSpoken] < threshold) lastSpoken--;
+
+  const stretches: SilentStretch[] = [];
+  let silenceStart: number | null = null;
+
+  for (let i = firstSpoken; i <= lastSpoken; i++) {
+    if (levels[i] < threshold) {
+      if (silenceStart === null) silenceStart = i;
+    } else if (silenceStart !== null) {
+      if ((i - silenceStart) * interval >= minDuration) {
+        stretches.push({ start: silenceStart * interval, end: i * interval });
+      }
+      silenceStart = null;
+    }
+  }
+
+  return stretches;
+};
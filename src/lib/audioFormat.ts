@@ -0,0 +1,145 @@
+import { decodeAudio } from './audioAnalysis';
+
+// Tried in order; the first one the browser's MediaRecorder supports is used
+const RECORDING_FORMATS = [
+  'audio/webm;codecs=opus',
+  'audio/ogg;codecs=opus',
+  'audio/mp4;codecs=mp4a.40.2',
+  'audio/mp4',
+  'audio/webm',
+  'audio/ogg',
+  'audio/mpeg',
+];
+
+// Requested from the recorder; plenty for speech in Opus or AAC
+export const RECORDING_BITRATE = 64000;
+
+// Formats every current browser and phone can play back; anything else is converted to WAV
+const WIDELY_PLAYABLE_FORMATS = ['audio/wav', 'audio/mp4', 'audio/mpeg'];
+
+// Converted takes are mono 16-bit WAV at a rate that suits speech
+const WAV_SAMPLE_RATE = 16000;
+const WAV_BITRATE = WAV_SAMPLE_RATE * 16;
+
+const AUDIO_FORMATS: Record<string, { extension: string; label: string }> = {
+  'audio/webm': { extension: 'webm', label: 'WebM' },
+  'audio/ogg': { extension: 'ogg', label: 'Ogg' },
+  'audio/mp4': { extension: 'm4a', label: 'AAC' },
+  'audio/mpeg': { extension: 'mp3', label: 'MP3' },
+  'audio/wav': { extension: 'wav', label: 'WAV' },
+};
+
+export interface UploadAudio {
+  blob: Blob;
+  format: string;
+  bitrate: number | null;
+}
+
+// "audio/webm;codecs=opus" -> "audio/webm"
+const baseType = (contentType: string) => contentType.split(';')[0].trim().toLowerCase();
+
+/**
+ * The MIME type to record in, or null to leave the choice to the
+ * browser when none of the preferred formats is supported.
+ */
+export const pickRecordingFormat = (): string | null => {
+  if (typeof MediaRecorder === 'undefined' || typeof MediaRecorder.isTypeSupported !== 'function') {
+    return null;
+  }
+  return RECORDING_FORMATS.find(format => MediaRecorder.isTypeSupported(format)) ?? null;
+};
+
+export const isWidelyPlayable = (format: string) => WIDELY_PLAYABLE_FORMATS.includes(baseType(format));
+
+export const getAudioExtension = (contentType: string) =>
+  AUDIO_FORMATS[baseType(contentType)]?.extension ?? 'webm';
+
+/**
+ * Short description of a stored recording's format, e.g. "WAV · 256 kbps",
+ * or null for recordings saved before the format was tracked.
+ */
+export const describeAudioFormat = (format: string | null, bitrate: number | null) => {
+  if (!format) return null;
+  const label = AUDIO_FORMATS[baseType(format)]?.label ?? baseType(format);
+  return bitrate ? `${label} · ${Math.round(bitrate / 1000)} kbps` : label;
+};
+
+// 16-bit PCM WAV of the first channel
+const encodeWav = (buffer: AudioBuffer): Blob => {
+  const samples = buffer.getChannelData(0);
+  const view = new DataView(new ArrayBuffer(44 + samples.length * 2));
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+
+  return new Blob([view], { type: 'audio/wav' });
+};
+
+// Size in bytes of `seconds` of audio once re-encoded by transcodeToWav
+export const estimateWavSize = (seconds: number) => 44 + Math.ceil(seconds * WAV_SAMPLE_RATE) * 2;
+
+/**
+ * Re-encodes a recording, or the part of it between `start` and `end`
+ * seconds, as WAV. The browser cannot write compressed formats outside
+ * of a live recording, so the audio is rendered through an
+ * OfflineAudioContext, which also mixes it down and resamples it.
+ */
+export const transcodeToWav = async (audio: Blob, start = 0, end = Infinity): Promise<Blob> => {
+  const audioBuffer = await decodeAudio(audio);
+  const duration = Math.min(end, audioBuffer.duration) - start;
+
+  const offlineContext = new OfflineAudioContext(1, Math.ceil(duration * WAV_SAMPLE_RATE), WAV_SAMPLE_RATE);
+  const source = offlineContext.createBufferSource();
+  source.buffer = audioBuffer;
+  source.connect(offlineContext.destination);
+  source.start(0, start, duration);
+
+  return encodeWav(await offlineContext.startRendering());
+};
+
+/**
+ * Converts a take to WAV unless it is already in a widely playable
+ * format, so a WebM or Ogg take from Chrome or Firefox still plays on a
+ * teacher's iPhone. `duration` is in seconds and is used to work out the
+ * average bitrate of compressed takes.
+ */
+export const prepareForUpload = async (audio: Blob, duration: number): Promise<UploadAudio> => {
+  const format = baseType(audio.type || 'audio/webm');
+  let blob = audio;
+
+  if (!isWidelyPlayable(format)) {
+    try {
+      blob = await transcodeToWav(audio);
+    } catch (error) {
+      // Uploading the original beats losing the take
+      console.error('Error converting recording to WAV:', error);
+    }
+  }
+
+  if (blob.type === 'audio/wav') {
+    return { blob, format: 'audio/wav', bitrate: WAV_BITRATE };
+  }
+  return { blob, format, bitrate: duration > 0 ? Math.round((blob.size * 8) / duration) : null };
+};
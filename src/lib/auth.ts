@@ -0,0 +1,12 @@
+import { supabase } from './supabase';
+
+// Remembers the guest account of this browser so its recordings can be claimed after signing in
+export const GUEST_USER_STORAGE_KEY = 'ielts-guest-user-id';
+
+// Secret the guest session gets from the server; claiming requires it, not just the guest's id
+export const GUEST_CLAIM_TOKEN_STORAGE_KEY = 'ielts-guest-claim-token';
+
+export const getCurrentUserId = async (): Promise<string | null> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.user.id ?? null;
+};
@@ -0,0 +1,393 @@
+import { supabase } from './supabase';
+import { getCurrentUserId } from './auth';
+import { createQuestionSet, fetchQuestionSets } from './questionSets';
+import { downloadRecordingAudio } from './recordings';
+import { normalizeQuestionText } from './importValidation';
+import { parseCueCard } from './cueCard';
+import { toCsv } from './questionImport';
+import { createZip, readZip, ZipEntryInput } from './zip';
+import { fetchAllRows } from './pagination';
+import { IELTSQuestion, QuestionSet, UserRecording } from '../types';
+
+// Bump when the archive layout changes in a way older restores can't read
+export const BACKUP_VERSION = 1;
+
+/**
+ * One entry of questions.json. The file is an array of
+ * `{"part":"1","q_a":[...]}` blocks, so it can also be pasted straight into
+ * the bulk importer; the extra fields are only used by a full restore.
+ */
+interface BackupQuestionEntry {
+  q: string;
+  a: string;
+  category: string;
+  key_vocabulary: string[];
+  time_limit: number | null;
+  // Missing from backups made before per-question timings
+  min_duration?: number | null;
+  target_duration?: number | null;
+  serial_number: number;
+  set: string | null;
+}
+
+interface BackupQuestionBlock {
+  part: string;
+  q_a: BackupQuestionEntry[];
+}
+
+export type BackupRecording = Pick<
+  UserRecording,
+  'id' | 'question_id' | 'duration' | 'prep_notes' | 'labels' | 'notes' | 'created_at'
+> & {
+  question_serial_number: number;
+  // Missing from backups made before formats were tracked
+  format?: string | null;
+  bitrate?: number | null;
+  // Path of the audio inside the archive, or null when it could not be downloaded
+  file: string | null;
+};
+
+export interface BackupManifest {
+  version: number;
+  created_at: string;
+  question_count: number;
+  question_sets: Array<Pick<QuestionSet, 'title' | 'description'>>;
+  recordings: BackupRecording[];
+}
+
+export interface RestoreSummary {
+  questionsCreated: number;
+  questionsMatched: number;
+  recordingsRestored: number;
+  recordingsSkipped: number;
+  errors: string[];
+}
+
+const AUDIO_CONTENT_TYPES: Record<string, string> = {
+  webm: 'audio/webm',
+  ogg: 'audio/ogg',
+  mp4: 'audio/mp4',
+  m4a: 'audio/mp4',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+};
+
+const fileExtension = (path: string) => {
+  const extension = path.split('?')[0].split('.').pop()?.toLowerCase();
+  return extension && extension in AUDIO_CONTENT_TYPES ? extension : 'webm';
+};
+
+/**
+ * Builds a backup archive of the whole question bank and, when a user id
+ * is given, that user's recordings:
+ *
+ *   manifest.json        version, question sets and recording metadata
+ *   questions.json       the bank in the bulk importer's JSON shape
+ *   questions.csv        the same questions as a spreadsheet
+ *   recordings/...       one audio file per recording
+ *
+ * A recording whose audio can't be downloaded is kept in the manifest
+ * with `file: null` rather than failing the whole export.
+ */
+export const createBackup = async (
+  userId: string | null,
+  onProgress?: (message: string) => void,
+): Promise<Blob> => {
+  onProgress?.('Fetching questions...');
+  const questions: IELTSQuestion[] = await fetchAllRows((from, to) => supabase
+    .from('ielts_questions')
+    .select('*')
+    .order('serial_number')
+    .order('id')
+    .range(from, to));
+  const questionSets = await fetchQuestionSets();
+  const setTitles = new Map(questionSets.map(set => [set.id, set.title]));
+
+  const blocks: BackupQuestionBlock[] = [1, 2, 3].map(part => ({
+    part: String(part),
+    q_a: questions
+      .filter(q => q.part === part)
+      .map(q => ({
+        q: q.question,
+        a: q.sample_answer,
+        category: q.category,
+        key_vocabulary: q.key_vocabulary,
+        time_limit: q.time_limit,
+        min_duration: q.min_duration,
+        target_duration: q.target_duration,
+        serial_number: q.serial_number,
+        set: q.question_set_id ? setTitles.get(q.question_set_id) ?? null : null,
+      })),
+  }));
+
+  const csv = toCsv([
+    ['serial number', 'part', 'question', 'sample answer', 'category', 'vocabulary', 'time limit'],
+    ...questions.map(q => [
+      String(q.serial_number),
+      String(q.part),
+      q.question,
+      q.sample_answer,
+      q.category,
+      q.key_vocabulary.join('; '),
+      q.time_limit === null ? '' : String(q.time_limit),
+    ]),
+  ]);
+
+  let recordings: UserRecording[] = [];
+  if (userId) {
+    onProgress?.('Fetching recordings...');
+    recordings = await fetchAllRows((from, to) => supabase
+      .from('user_recordings')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at')
+      .order('id')
+      .range(from, to));
+  }
+
+  const serialNumbers = new Map(questions.map(q => [q.id, q.serial_number]));
+  const audioEntries: ZipEntryInput[] = [];
+  const manifestRecordings: BackupRecording[] = [];
+
+  for (const [index, recording] of recordings.entries()) {
+    onProgress?.(`Downloading recording ${index + 1} of ${recordings.length}...`);
+    const serialNumber = serialNumbers.get(recording.question_id) ?? 0;
+    const extension = fileExtension(recording.storage_path ?? recording.audio_url ?? '');
+    const timestamp = recording.created_at.replace(/[:.]/g, '-');
+    let file: string | null = `recordings/${serialNumber}-${timestamp}-${recording.id.slice(0, 8)}.${extension}`;
+
+    try {
+      const audio = await downloadRecordingAudio(recording);
+      audioEntries.push({
+        name: file,
+        data: new Uint8Array(await audio.arrayBuffer()),
+        modified: new Date(recording.created_at),
+      });
+    } catch (error) {
+      console.error(`Error downloading recording ${recording.id}:`, error);
+      file = null;
+    }
+
+    manifestRecordings.push({
+      id: recording.id,
+      question_id: recording.question_id,
+      question_serial_number: serialNumber,
+      duration: recording.duration,
+      prep_notes: recording.prep_notes,
+      labels: recording.labels ?? [],
+      notes: recording.notes,
+      created_at: recording.created_at,
+      format: recording.format,
+      bitrate: recording.bitrate,
+      file,
+    });
+  }
+
+  const manifest: BackupManifest = {
+    version: BACKUP_VERSION,
+    created_at: new Date().toISOString(),
+    question_count: questions.length,
+    question_sets: questionSets.map(({ title, description }) => ({ title, description })),
+    recordings: manifestRecordings,
+  };
+
+  onProgress?.('Creating archive...');
+  return createZip([
+    { name: 'manifest.json', data: JSON.stringify(manifest, null, 2) },
+    { name: 'questions.json', data: JSON.stringify(blocks, null, 2) },
+    { name: 'questions.csv', data: csv },
+    ...audioEntries,
+  ]);
+};
+
+const readJsonEntry = <T>(files: Map<string, Uint8Array>, name: string): T => {
+  const data = files.get(name);
+  if (!data) throw new Error(`The backup is missing ${name}`);
+  return JSON.parse(new TextDecoder().decode(data));
+};
+
+/**
+ * Restores a backup made by `createBackup` into the current project for the
+ * signed-in user. Questions already in the bank (same part and text) are
+ * reused; the rest are inserted, keeping their serial numbers where those
+ * are free. Recordings that were restored before are skipped, so running
+ * the same restore twice is harmless. Individual recording failures are
+ * reported in the summary instead of stopping the restore.
+ */
+export const restoreBackup = async (
+  file: Blob,
+  canEditQuestions: boolean,
+  onProgress?: (message: string) => void,
+): Promise<RestoreSummary> => {
+  onProgress?.('Reading archive...');
+  const files = await readZip(file);
+  const manifest = readJsonEntry<BackupManifest>(files, 'manifest.json');
+  if (!manifest.version || manifest.version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of the app');
+  }
+  const blocks = readJsonEntry<BackupQuestionBlock[]>(files, 'questions.json');
+
+  const summary: RestoreSummary = {
+    questionsCreated: 0,
+    questionsMatched: 0,
+    recordingsRestored: 0,
+    recordingsSkipped: 0,
+    errors: [],
+  };
+
+  onProgress?.('Matching questions...');
+  // Every question must be seen, or those past the server's row limit would be inserted again
+  const existing = await fetchAllRows((from, to) => supabase
+    .from('ielts_questions')
+    .select('id, serial_number, part, question')
+    .order('id')
+    .range(from, to));
+  const existingByText = new Map(existing.map(q => [`${q.part}:${normalizeQuestionText(q.question)}`, q.id]));
+  const takenSerials = new Set(existing.map(q => q.serial_number));
+  let nextSerial = Math.max(0, ...takenSerials) + 1;
+
+  // Maps the serial number a question had when it was exported to its id here
+  const questionIds = new Map<number, string>();
+  const missing: Array<{ part: number; entry: BackupQuestionEntry }> = [];
+
+  for (const block of blocks) {
+    const part = Number(block.part);
+    for (const entry of block.q_a) {
+      const id = existingByText.get(`${part}:${normalizeQuestionText(entry.q)}`);
+      if (id) {
+        questionIds.set(entry.serial_number, id);
+        summary.questionsMatched++;
+      } else {
+        missing.push({ part, entry });
+      }
+    }
+  }
+
+  if (missing.length > 0 && !canEditQuestions) {
+    summary.errors.push(
+      `${missing.length} question${missing.length === 1 ? ' is' : 's are'} not in this project. Sign in as an editor to restore them.`
+    );
+  } else if (missing.length > 0) {
+    onProgress?.(`Restoring ${missing.length} questions...`);
+    const setIds = new Map((await fetchQuestionSets()).map(set => [set.title, set.id]));
+    for (const set of manifest.question_sets ?? []) {
+      if (!setIds.has(set.title)) {
+        const created = await createQuestionSet(set);
+        setIds.set(created.title, created.id);
+      }
+    }
+
+    const rows = missing.map(({ part, entry }) => {
+      const serialNumber = takenSerials.has(entry.serial_number) ? nextSerial++ : entry.serial_number;
+      takenSerials.add(serialNumber);
+      const cueCard = part === 2 ? parseCueCard(entry.q) : null;
+      return {
+        serial_number: serialNumber,
+        part,
+        category: entry.category,
+        question: entry.q,
+        sample_answer: entry.a,
+        key_vocabulary: entry.key_vocabulary,
+        time_limit: entry.time_limit,
+        min_duration: entry.min_duration ?? null,
+        target_duration: entry.target_duration ?? null,
+        question_set_id: entry.set ? setIds.get(entry.set) ?? null : null,
+        cue_card_topic: cueCard?.topic ?? null,
+        cue_card_prompts: cueCard?.prompts ?? [],
+      };
+    });
+
+    const { data: inserted, error: insertError } = await supabase
+      .from('ielts_questions')
+      .insert(rows)
+      .select('id, serial_number');
+
+    if (insertError) throw insertError;
+
+    const exportedSerials = new Map(rows.map((row, index) => [row.serial_number, missing[index].entry.serial_number]));
+    for (const question of inserted || []) {
+      const exportedSerial = exportedSerials.get(question.serial_number);
+      if (exportedSerial !== undefined) questionIds.set(exportedSerial, question.id);
+    }
+    summary.questionsCreated = inserted?.length ?? 0;
+  }
+
+  const recordings = manifest.recordings ?? [];
+  if (recordings.length === 0) return summary;
+
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    summary.errors.push('Sign in to restore recordings.');
+    summary.recordingsSkipped = recordings.length;
+    return summary;
+  }
+
+  const ownRecordings = await fetchAllRows((from, to) => supabase
+    .from('user_recordings')
+    .select('question_id, created_at')
+    .eq('user_id', userId)
+    .order('id')
+    .range(from, to));
+
+  const alreadyRestored = new Set(
+    ownRecordings.map(r => `${r.question_id}:${new Date(r.created_at).getTime()}`)
+  );
+
+  for (const [index, recording] of recordings.entries()) {
+    onProgress?.(`Restoring recording ${index + 1} of ${recordings.length}...`);
+    const questionId = questionIds.get(recording.question_serial_number);
+    const audio = recording.file ? files.get(recording.file) : undefined;
+
+    if (!questionId || !audio) {
+      summary.recordingsSkipped++;
+      summary.errors.push(`Recording from ${new Date(recording.created_at).toLocaleString()}: ${
+        !questionId ? 'its question is not in this project' : 'the audio file is missing from the backup'
+      }`);
+      continue;
+    }
+
+    if (alreadyRestored.has(`${questionId}:${new Date(recording.created_at).getTime()}`)) {
+      summary.recordingsSkipped++;
+      continue;
+    }
+
+    try {
+      const extension = fileExtension(recording.file ?? '');
+      const timestamp = recording.created_at.replace(/[:.]/g, '-');
+      const { data: uploadData, error: uploadError } = await supabase.storage
+        .from('recordings')
+        .upload(`${userId}/recording-${recording.question_serial_number}-${timestamp}.${extension}`, new Blob([audio]), {
+          contentType: AUDIO_CONTENT_TYPES[extension],
+        });
+
+      if (uploadError) throw uploadError;
+
+      const { error: insertError } = await supabase
+        .from('user_recordings')
+        .insert({
+          user_id: userId,
+          question_id: questionId,
+          storage_path: uploadData.path,
+          duration: recording.duration,
+          prep_notes: recording.prep_notes,
+          labels: recording.labels ?? [],
+          notes: recording.notes,
+          created_at: recording.created_at,
+          format: recording.format ?? AUDIO_CONTENT_TYPES[extension],
+          bitrate: recording.bitrate ?? null,
+        });
+
+      if (insertError) throw insertError;
+
+      summary.recordingsRestored++;
+    } catch (error) {
+      console.error(`Error restoring recording ${recording.id}:`, error);
+      summary.recordingsSkipped++;
+      summary.errors.push(`Recording from ${new Date(recording.created_at).toLocaleString()}: ${
+        error instanceof Error ? error.message : 'Unknown error occurred'
+      }`);
+    }
+  }
+
+  return summary;
+};
@@ -0,0 +1,171 @@
+import { supabase } from './supabase';
+import { stemWord } from './vocabulary';
+import { IELTSQuestion, QuestionCategory } from '../types';
+
+export type CategoryInput = Pick<QuestionCategory, 'name' | 'keywords' | 'synonyms'>;
+
+export interface CategoryMatch {
+  category: string;
+  score: number;
+  // Keywords and synonyms that were found, for showing why a category won
+  terms: string[];
+}
+
+export interface CategoryChange {
+  question: IELTSQuestion;
+  match: CategoryMatch;
+}
+
+// Given to questions that no category scores high enough for
+export const FALLBACK_CATEGORY = 'General';
+
+const KEYWORD_WEIGHT = 2;
+const SYNONYM_WEIGHT = 1;
+// Sample answers drift off topic, so a term found only there counts for much less
+const ANSWER_WEIGHT = 0.25;
+// A keyword or two synonyms in the question itself
+const MIN_CATEGORY_SCORE = 2;
+
+export const fetchCategories = async (): Promise<QuestionCategory[]> => {
+  const { data, error } = await supabase
+    .from('categories')
+    .select('*')
+    .order('name');
+
+  if (error) throw error;
+
+  return data || [];
+};
+
+export const createCategory = async (input: CategoryInput): Promise<QuestionCategory> => {
+  const { data, error } = await supabase
+    .from('categories')
+    .insert(input)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return data;
+};
+
+export const updateCategory = async (id: string, input: CategoryInput): Promise<QuestionCategory> => {
+  const { data, error } = await supabase
+    .from('categories')
+    .update(input)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return data;
+};
+
+// Questions keep the deleted category's name until they are re-classified
+export const deleteCategory = async (id: string) => {
+  const { error } = await supabase
+    .from('categories')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+// Questions store the category by name, so a rename has to follow through to them
+export const renameQuestionCategory = async (from: string, to: string) => {
+  const { error } = await supabase
+    .from('ielts_questions')
+    .update({ category: to })
+    .eq('category', from);
+
+  if (error) throw error;
+};
+
+/**
+ * Writes new categories for many questions, one request per category.
+ */
+export const applyCategoryChanges = async (changes: Array<{ id: string; category: string }>) => {
+  const idsByCategory = new Map<string, string[]>();
+  for (const { id, category } of changes) {
+    idsByCategory.set(category, [...(idsByCategory.get(category) ?? []), id]);
+  }
+
+  for (const [category, ids] of idsByCategory) {
+    const { error } = await supabase
+      .from('ielts_questions')
+      .update({ category })
+      .in('id', ids);
+
+    if (error) throw error;
+  }
+};
+
+// Sample answers may be rich text
+const toStems = (text: string) =>
+  (text.replace(/<[^>]+>/g, ' ').toLowerCase().match(/[a-z]+(?:'[a-z]+)?/g) || []).map(stemWord);
+
+const containsPhrase = (stems: string[], phrase: string[]) =>
+  stems.some((_, i) => phrase.every((stem, j) => stems[i + j] === stem));
+
+// The category's own name counts as keywords: "Family & Friends" adds "family" and "friends"
+const categoryTerms = (category: QuestionCategory): Array<[string, number]> => [
+  ...category.name.split(/\s*(?:&|\/|,|\band\b)\s*/i).map((term): [string, number] => [term, KEYWORD_WEIGHT]),
+  ...category.keywords.map((term): [string, number] => [term, KEYWORD_WEIGHT]),
+  ...category.synonyms.map((term): [string, number] => [term, SYNONYM_WEIGHT]),
+];
+
+/**
+ * Picks the category whose keywords and synonyms best match a question,
+ * for any part. Terms match whole words by stem, so "travelling" counts
+ * for "travel" and "free time" only matches the phrase, which outweighs
+ * a single word. Matches in the sample answer help decide close calls.
+ * Questions that match nothing convincingly fall back to
+ * {@link FALLBACK_CATEGORY}.
+ */
+export const classifyQuestion = (
+  question: string,
+  categories: QuestionCategory[],
+  sampleAnswer = '',
+): CategoryMatch => {
+  const questionStems = toStems(question);
+  const answerStems = toStems(sampleAnswer);
+  let best: CategoryMatch | null = null;
+
+  for (const category of categories) {
+    let score = 0;
+    const terms: string[] = [];
+    const seen = new Set<string>();
+
+    for (const [term, weight] of categoryTerms(category)) {
+      const stems = toStems(term);
+      const key = stems.join(' ');
+      if (stems.length === 0 || seen.has(key)) continue;
+      seen.add(key);
+
+      // Phrases are more specific than single words, so every word in one counts
+      if (containsPhrase(questionStems, stems)) {
+        score += weight * stems.length;
+      } else if (containsPhrase(answerStems, stems)) {
+        score += weight * stems.length * ANSWER_WEIGHT;
+      } else {
+        continue;
+      }
+      terms.push(term.trim().toLowerCase());
+    }
+
+    if (score >= MIN_CATEGORY_SCORE && (!best || score > best.score)) {
+      best = { category: category.name, score, terms };
+    }
+  }
+
+  return best ?? { category: FALLBACK_CATEGORY, score: 0, terms: [] };
+};
+
+/**
+ * The questions whose classification differs from their stored category.
+ */
+export const findCategoryChanges = (questions: IELTSQuestion[], categories: QuestionCategory[]): CategoryChange[] =>
+  questions
+    .map(question => ({ question, match: classifyQuestion(question.question, categories, question.sample_answer) }))
+    .filter(({ question, match }) => match.category !== question.category);
@@ -0,0 +1,43 @@
+import { IELTSQuestion } from '../types';
+
+export interface CueCard {
+  topic: string;
+  prompts: string[];
+}
+
+// A comma, semicolon or line break that starts a new "You should say" prompt
+const PROMPT_BOUNDARY = /\s*(?:\n|;|,\s*(?=(?:and\s+)?(?:what|who|where|when|why|how|which|whether|if|explain)\b))\s*/i;
+
+/**
+ * Splits a run-on Part 2 question ("Describe ... You should say: what ...,
+ * why ..., and explain ...") into its topic line and bullet prompts.
+ * Mirrors the parsing done by the structured cue card migration.
+ */
+export const parseCueCard = (question: string): CueCard => {
+  const match = question.match(/^([\s\S]*?)\s*you should say\s*:?\s*([\s\S]*)$/i);
+  if (!match) {
+    return { topic: question.trim(), prompts: [] };
+  }
+
+  const prompts = match[2]
+    .split(PROMPT_BOUNDARY)
+    .map(prompt => prompt
+      .replace(/^\s*(?:[-*•]\s*)?(?:and\s+)?/i, '')
+      .replace(/[\s.;,]+$/, '')
+      .trim())
+    .filter(Boolean);
+
+  return { topic: match[1].replace(/[\s.:]+$/, '').trim(), prompts };
+};
+
+/**
+ * The cue card for a Part 2 question, preferring the stored structure and
+ * falling back to parsing the question text for rows saved before it existed.
+ */
+export const getCueCard = (question: IELTSQuestion): CueCard | null => {
+  if (question.part !== 2) return null;
+  if (question.cue_card_topic) {
+    return { topic: question.cue_card_topic, prompts: question.cue_card_prompts ?? [] };
+  }
+  return parseCueCard(question.question);
+};
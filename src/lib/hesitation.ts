@@ -0,0 +1,67 @@
+import { SilentStretch } from './audioAnalysis';
+import { TranscriptWord } from '../types';
+
+export interface HesitationEvent {
+  type: 'pause' | 'filler';
+  start: number;
+  end: number;
+  label: string;
+}
+
+// Pauses at least this long are flagged as long pauses, here and in the band estimate
+export const LONG_PAUSE_SECONDS = 2;
+
+const SINGLE_WORD_FILLERS = ['um', 'umm', 'uh', 'uhh', 'er', 'erm', 'ah', 'hmm', 'mm'];
+const MULTI_WORD_FILLERS = [['you', 'know'], ['i', 'mean']];
+
+// "like" is only a filler when it is not the verb ("I like", "would like") or a preposition before "to"
+const LIKE_AS_VERB_PRECEDERS = [
+  'i', 'you', 'we', 'they', 'he', 'she', 'would', "i'd", "you'd", "we'd", "they'd",
+  "don't", "didn't", "doesn't", 'really', 'also', 'do', 'does', 'did', 'not', 'just', 'feel', 'looks', 'look',
+];
+
+const normalise = (word: string) => word.toLowerCase().replace(/[^a-z']/g, '');
+
+export const findFillers = (words: TranscriptWord[]): HesitationEvent[] => {
+  const events: HesitationEvent[] = [];
+  const tokens = words.map(w => normalise(w.text));
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (SINGLE_WORD_FILLERS.includes(token)) {
+      events.push({ type: 'filler', start: words[i].start, end: words[i].end, label: token });
+      continue;
+    }
+
+    if (token === 'like') {
+      const previous = tokens[i - 1];
+      const next = tokens[i + 1];
+      if (!LIKE_AS_VERB_PRECEDERS.includes(previous) && next !== 'to') {
+        events.push({ type: 'filler', start: words[i].start, end: words[i].end, label: 'like' });
+      }
+      continue;
+    }
+
+    const phrase = MULTI_WORD_FILLERS.find(([first, second]) => token === first && tokens[i + 1] === second);
+    if (phrase) {
+      events.push({ type: 'filler', start: words[i].start, end: words[i + 1].end, label: phrase.join(' ') });
+      i++;
+    }
+  }
+
+  return events;
+};
+
+export const buildHesitationTimeline = (
+  silences: SilentStretch[],
+  words: TranscriptWord[] = [],
+): HesitationEvent[] => [
+  ...silences.map(silence => ({
+    type: 'pause' as const,
+    start: silence.start,
+    end: silence.end,
+    label: `${(silence.end - silence.start).toFixed(1)}s pause`,
+  })),
+  ...findFillers(words),
+].sort((a, b) => a.start - b.start);
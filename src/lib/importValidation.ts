@@ -0,0 +1,122 @@
+import { supabase } from './supabase';
+import { ImportRow, validateImportRow } from './questionImport';
+import { IELTSQuestion } from '../types';
+
+// Questions at least this similar are flagged as near-duplicates
+export const DUPLICATE_SIMILARITY = 0.85;
+
+export type ExistingQuestion = Pick<IELTSQuestion, 'id' | 'serial_number' | 'part' | 'question' | 'question_set_id'>;
+
+export type ImportResolution = 'insert' | 'overwrite' | 'skip';
+
+/**
+ * The dry-run verdict for one import row: what stops it from being
+ * imported, and what it might duplicate.
+ */
+export interface ImportCheck {
+  row: ImportRow;
+  problems: string[];
+  duplicate: { question: ExistingQuestion; similarity: number } | null;
+  // An earlier row of the same import with (nearly) the same question
+  duplicateOfLine: number | null;
+}
+
+export interface ImportRowResult {
+  line: number;
+  question: string;
+  status: 'inserted' | 'updated' | 'skipped' | 'failed';
+  serialNumber: number | null;
+  message: string | null;
+}
+
+export const fetchExistingQuestions = async (): Promise<ExistingQuestion[]> => {
+  const { data, error } = await supabase
+    .from('ielts_questions')
+    .select('id, serial_number, part, question, question_set_id');
+
+  if (error) throw error;
+
+  return data || [];
+};
+
+export const normalizeQuestionText = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const bigramCounts = (text: string) => {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const bigram = text.slice(i, i + 2);
+    counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+  }
+  return counts;
+};
+
+const diceCoefficient = (a: Map<string, number>, b: Map<string, number>) => {
+  let sizeA = 0;
+  let sizeB = 0;
+  let shared = 0;
+  a.forEach(count => { sizeA += count; });
+  b.forEach((count, bigram) => {
+    sizeB += count;
+    shared += Math.min(count, a.get(bigram) ?? 0);
+  });
+  return sizeA + sizeB === 0 ? 0 : (2 * shared) / (sizeA + sizeB);
+};
+
+/**
+ * Similarity of two questions between 0 and 1, using the Dice coefficient
+ * of character pairs after normalizing case, punctuation and spacing. It
+ * tolerates small rewordings and typos that exact matching would miss.
+ */
+export const questionSimilarity = (a: string, b: string) => {
+  const normalizedA = normalizeQuestionText(a);
+  const normalizedB = normalizeQuestionText(b);
+  if (normalizedA === normalizedB) return 1;
+  return diceCoefficient(bigramCounts(normalizedA), bigramCounts(normalizedB));
+};
+
+/**
+ * Dry-runs an import: validates every row and looks for near-duplicates
+ * among existing questions and earlier rows of the same import.
+ */
+export const checkImportRows = (rows: ImportRow[], existing: ExistingQuestion[]): ImportCheck[] => {
+  const existingBigrams = existing.map(question => ({
+    question,
+    normalized: normalizeQuestionText(question.question),
+    bigrams: bigramCounts(normalizeQuestionText(question.question)),
+  }));
+  const seen: Array<{ line: number; normalized: string; bigrams: Map<string, number> }> = [];
+
+  return rows.map(row => {
+    const problems = validateImportRow(row);
+    if (!row.question) {
+      return { row, problems, duplicate: null, duplicateOfLine: null };
+    }
+
+    const normalized = normalizeQuestionText(row.question);
+    const bigrams = bigramCounts(normalized);
+    const similarityTo = (other: { normalized: string; bigrams: Map<string, number> }) =>
+      other.normalized === normalized ? 1 : diceCoefficient(bigrams, other.bigrams);
+
+    let duplicate: ImportCheck['duplicate'] = null;
+    for (const candidate of existingBigrams) {
+      const similarity = similarityTo(candidate);
+      if (similarity >= DUPLICATE_SIMILARITY && (!duplicate || similarity > duplicate.similarity)) {
+        duplicate = { question: candidate.question, similarity };
+      }
+    }
+
+    const earlier = seen.find(other => similarityTo(other) >= DUPLICATE_SIMILARITY);
+    seen.push({ line: row.line, normalized, bigrams });
+
+    return { row, problems, duplicate, duplicateOfLine: earlier?.line ?? null };
+  });
+};
+
+// Rows that cannot be imported or repeat a question are skipped until the editor decides otherwise
+export const defaultResolution = (check: ImportCheck): ImportResolution =>
+  check.problems.length > 0 || check.duplicate || check.duplicateOfLine !== null ? 'skip' : 'insert';
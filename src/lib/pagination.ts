@@ -0,0 +1,23 @@
+import { PostgrestError } from '@supabase/supabase-js';
+
+// PostgREST's default cap on the rows one request returns
+const PAGE_SIZE = 1000;
+
+/**
+ * Runs a query page by page so results are not cut off at the server's
+ * row limit. `fetchPage` must apply `.range(from, to)` to a query with a
+ * stable order, e.g. ending in `.order('id')`. Pages are read until one
+ * comes back empty, so a server capped below `PAGE_SIZE` loses nothing.
+ */
+export const fetchAllRows = async <T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>,
+): Promise<T[]> => {
+  const rows: T[] = [];
+
+  for (;;) {
+    const { data, error } = await fetchPage(rows.length, rows.length + PAGE_SIZE - 1);
+    if (error) throw error;
+    if (!data || data.length === 0) return rows;
+    rows.push(...data);
+  }
+};
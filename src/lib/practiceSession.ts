@@ -0,0 +1,109 @@
+import { supabase } from './supabase';
+import { fetchAllRows } from './pagination';
+import { IELTSQuestion, QuestionReview } from '../types';
+
+// Attempts whose latest band estimate is below this count as weak
+export const WEAK_BAND = 6;
+
+// Without a band estimate, a self-rating below "Good" counts as weak
+const WEAK_QUALITY = 4;
+
+export type PracticeStatusFilter = 'all' | 'never-attempted' | 'weak';
+
+export interface PracticeSessionFilters {
+  parts: Array<1 | 2 | 3>;
+  categories: string[];
+  status: PracticeStatusFilter;
+  createdAfter: string | null;
+  shuffle: boolean;
+}
+
+export interface QuestionPracticeStats {
+  attempts: number;
+  lastAttemptAt: string;
+  latestBand: number | null;
+}
+
+export const DEFAULT_SESSION_FILTERS: PracticeSessionFilters = {
+  parts: [1, 2, 3],
+  categories: [],
+  status: 'all',
+  createdAfter: null,
+  shuffle: false,
+};
+
+/**
+ * Attempt counts and the latest band estimate of every question the user
+ * has recorded, keyed by question id.
+ */
+export const fetchPracticeStats = async (userId: string): Promise<Record<string, QuestionPracticeStats>> => {
+  const data = await fetchAllRows((from, to) => supabase
+    .from('user_recordings')
+    .select('question_id, created_at, recording_assessments(overall)')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .order('id')
+    .range(from, to));
+
+  const stats: Record<string, QuestionPracticeStats> = {};
+  for (const recording of data) {
+    const assessments = [recording.recording_assessments].flat().filter(Boolean) as { overall: number }[];
+    const existing = stats[recording.question_id];
+
+    if (existing) {
+      existing.attempts += 1;
+      // Rows arrive newest first, so keep the first band found
+      if (existing.latestBand === null) {
+        existing.latestBand = assessments[0]?.overall ?? null;
+      }
+    } else {
+      stats[recording.question_id] = {
+        attempts: 1,
+        lastAttemptAt: recording.created_at,
+        latestBand: assessments[0]?.overall ?? null,
+      };
+    }
+  }
+
+  return stats;
+};
+
+export const isWeakQuestion = (stats: QuestionPracticeStats | undefined, review: QuestionReview | undefined) => {
+  if (!stats) return false;
+  if (stats.latestBand !== null) return stats.latestBand < WEAK_BAND;
+  return review?.last_quality != null && review.last_quality < WEAK_QUALITY;
+};
+
+const shuffle = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Ids of the questions matching the filters, in bank order unless
+ * shuffled. An empty category list means every category.
+ */
+export const buildPracticeSession = (
+  questions: IELTSQuestion[],
+  filters: PracticeSessionFilters,
+  stats: Record<string, QuestionPracticeStats>,
+  reviews: Record<string, QuestionReview>,
+): string[] => {
+  const createdAfter = filters.createdAfter ? new Date(filters.createdAfter).getTime() : null;
+
+  const matching = questions.filter(q => {
+    if (!filters.parts.includes(q.part)) return false;
+    if (filters.categories.length > 0 && !filters.categories.includes(q.category)) return false;
+    if (createdAfter !== null && new Date(q.created_at).getTime() < createdAfter) return false;
+    if (filters.status === 'never-attempted') return !stats[q.id];
+    if (filters.status === 'weak') return isWeakQuestion(stats[q.id], reviews[q.id]);
+    return true;
+  });
+
+  const ids = matching.map(q => q.id);
+  return filters.shuffle ? shuffle(ids) : ids;
+};
@@ -0,0 +1,155 @@
+import { supabase } from './supabase';
+import { fetchAllRows } from './pagination';
+import { getQuestionTiming, TimingProfiles } from './timing';
+import { IELTSQuestion, UserRecording } from '../types';
+
+export type ProgressRecording = Pick<UserRecording, 'question_id' | 'duration' | 'created_at'>;
+
+export interface DailyActivity {
+  date: string;
+  attempts: number;
+  seconds: number;
+}
+
+export interface PartTiming {
+  part: 1 | 2 | 3;
+  attempts: number;
+  averageDuration: number;
+  averageTarget: number;
+}
+
+export interface ProgressSummary {
+  totalAttempts: number;
+  totalSeconds: number;
+  currentStreak: number;
+  longestStreak: number;
+  daily: DailyActivity[];
+  attemptsByPart: Record<1 | 2 | 3, number>;
+  attemptsByCategory: Array<{ category: string; attempts: number }>;
+  attemptedCount: number;
+  neverAttempted: IELTSQuestion[];
+  timingByPart: PartTiming[];
+}
+
+// Days shown in the activity chart
+export const ACTIVITY_DAYS = 30;
+
+// Local calendar day, so a streak follows the learner's own midnight
+const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const addDays = (date: Date, days: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+/**
+ * Consecutive practice days ending today. A streak is still current
+ * when the learner practised yesterday but not yet today.
+ */
+const measureStreaks = (days: Set<string>, now: Date) => {
+  let cursor = days.has(dayKey(now)) ? now : addDays(now, -1);
+  let currentStreak = 0;
+  while (days.has(dayKey(cursor))) {
+    currentStreak++;
+    cursor = addDays(cursor, -1);
+  }
+
+  let longestStreak = 0;
+  for (const day of days) {
+    const [year, month, date] = day.split('-').map(Number);
+    const start = new Date(year, month - 1, date);
+    // Only count runs from their first day
+    if (days.has(dayKey(addDays(start, -1)))) continue;
+
+    let length = 1;
+    while (days.has(dayKey(addDays(start, length)))) length++;
+    longestStreak = Math.max(longestStreak, length);
+  }
+
+  return { currentStreak, longestStreak };
+};
+
+export const fetchProgressRecordings = async (userId: string): Promise<ProgressRecording[]> => {
+  return fetchAllRows((from, to) => supabase
+    .from('user_recordings')
+    .select('question_id, duration, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true })
+    .order('id')
+    .range(from, to));
+};
+
+/**
+ * Aggregates every recording of a learner into the figures shown on the
+ * progress dashboard. Recordings of deleted questions still count towards
+ * streaks and time spoken but not towards per-part figures.
+ */
+export const summarizeProgress = (
+  recordings: ProgressRecording[],
+  questions: IELTSQuestion[],
+  timingProfiles: TimingProfiles,
+  now = new Date(),
+): ProgressSummary => {
+  const questionsById = new Map(questions.map(q => [q.id, q]));
+
+  const dailyByKey = new Map<string, DailyActivity>();
+  for (let offset = ACTIVITY_DAYS - 1; offset >= 0; offset--) {
+    const date = dayKey(addDays(now, -offset));
+    dailyByKey.set(date, { date, attempts: 0, seconds: 0 });
+  }
+
+  const practisedDays = new Set<string>();
+  const attemptsByPart: Record<1 | 2 | 3, number> = { 1: 0, 2: 0, 3: 0 };
+  const attemptsByCategory = new Map<string, number>();
+  const attemptedIds = new Set<string>();
+  const timing = new Map<1 | 2 | 3, { attempts: number; duration: number; target: number }>();
+  let totalSeconds = 0;
+
+  for (const recording of recordings) {
+    const day = dayKey(new Date(recording.created_at));
+    practisedDays.add(day);
+    totalSeconds += recording.duration;
+
+    const activity = dailyByKey.get(day);
+    if (activity) {
+      activity.attempts++;
+      activity.seconds += recording.duration;
+    }
+
+    const question = questionsById.get(recording.question_id);
+    if (!question) continue;
+
+    attemptedIds.add(question.id);
+    attemptsByPart[question.part]++;
+    attemptsByCategory.set(question.category, (attemptsByCategory.get(question.category) ?? 0) + 1);
+
+    const partTiming = timing.get(question.part) ?? { attempts: 0, duration: 0, target: 0 };
+    partTiming.attempts++;
+    partTiming.duration += recording.duration;
+    partTiming.target += getQuestionTiming(question, timingProfiles).target;
+    timing.set(question.part, partTiming);
+  }
+
+  return {
+    totalAttempts: recordings.length,
+    totalSeconds,
+    ...measureStreaks(practisedDays, now),
+    daily: [...dailyByKey.values()],
+    attemptsByPart,
+    attemptsByCategory: [...attemptsByCategory.entries()]
+      .map(([category, attempts]) => ({ category, attempts }))
+      .sort((a, b) => b.attempts - a.attempts),
+    attemptedCount: attemptedIds.size,
+    neverAttempted: questions.filter(q => !attemptedIds.has(q.id)),
+    timingByPart: [...timing.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([part, { attempts, duration, target }]) => ({
+        part,
+        attempts,
+        averageDuration: duration / attempts,
+        averageTarget: target / attempts,
+      })),
+  };
+};
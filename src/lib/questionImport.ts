@@ -0,0 +1,330 @@
+export type ImportFormat = 'json' | 'csv' | 'tsv' | 'markdown';
+
+export type ImportField = 'part' | 'question' | 'answer' | 'category' | 'key_vocabulary' | 'time_limit';
+
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export const IMPORT_FORMATS: Array<{ format: ImportFormat; label: string }> = [
+  { format: 'json', label: 'JSON' },
+  { format: 'csv', label: 'CSV' },
+  { format: 'tsv', label: 'TSV (spreadsheet)' },
+  { format: 'markdown', label: 'Markdown' },
+];
+
+export const IMPORT_FIELDS: Array<{ field: ImportField; label: string; required: boolean }> = [
+  { field: 'part', label: 'Part', required: false },
+  { field: 'question', label: 'Question', required: true },
+  { field: 'answer', label: 'Sample answer', required: true },
+  { field: 'category', label: 'Category', required: false },
+  { field: 'key_vocabulary', label: 'Key vocabulary', required: false },
+  { field: 'time_limit', label: 'Time limit', required: false },
+];
+
+/**
+ * One question read from an import file. Optional fields are null when the
+ * source does not provide them, so the importer can fill in its defaults.
+ */
+export interface ImportRow {
+  // Line (Markdown, JSON entry) or row (CSV/TSV) number in the source, starting at 1
+  line: number;
+  part: number | null;
+  question: string;
+  answer: string;
+  category: string | null;
+  keyVocabulary: string[] | null;
+  timeLimit: number | null;
+}
+
+export interface ParsedImport {
+  rows: ImportRow[];
+  // Present when a JSON question set was pasted; its questions are linked together
+  set: { title: string; description: string | null } | null;
+}
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  part: ['part', 'ielts part', 'section'],
+  question: ['question', 'q', 'prompt', 'cue card'],
+  answer: ['answer', 'a', 'sample answer', 'model answer'],
+  category: ['category', 'topic', 'theme'],
+  key_vocabulary: ['key vocabulary', 'vocabulary', 'vocab', 'keywords', 'key words'],
+  time_limit: ['time limit', 'time', 'seconds', 'duration'],
+};
+
+export const detectImportFormat = (text: string, fileName?: string | null): ImportFormat => {
+  const extension = fileName?.toLowerCase().split('.').pop();
+  if (extension === 'json') return 'json';
+  if (extension === 'csv') return 'csv';
+  if (extension === 'tsv' || extension === 'tab') return 'tsv';
+  if (extension === 'md' || extension === 'markdown') return 'markdown';
+
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) return 'json';
+  if (/^#{1,6}\s+\S/m.test(trimmed)) return 'markdown';
+
+  // Spreadsheets copy cells as tab-separated text
+  const firstLine = trimmed.split('\n', 1)[0] ?? '';
+  return firstLine.includes('\t') ? 'tsv' : 'csv';
+};
+
+/**
+ * Splits CSV or TSV text into cells, honouring double-quoted cells that
+ * contain delimiters, line breaks or escaped ("") quotes. Blank lines are
+ * dropped.
+ */
+export const parseDelimited = (text: string, delimiter: ',' | '\t'): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === '') {
+      cell = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char !== '\r') {
+      cell += char;
+    }
+  }
+  endRow();
+
+  return rows;
+};
+
+const escapeCsvCell = (value: string) =>
+  /[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (rows: string[][]) =>
+  rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n');
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as ColumnMapping;
+  for (const { field } of IMPORT_FIELDS) {
+    const index = normalized.findIndex(header => HEADER_ALIASES[field].includes(header));
+    mapping[field] = index >= 0 ? index : null;
+  }
+  return mapping;
+};
+
+// Accepts "2", "Part 2" or "P2"
+export const parsePart = (value: string | number | null | undefined): number | null => {
+  if (value === null || value === undefined) return null;
+  const match = String(value).match(/[123]/);
+  return match ? Number(match[0]) : null;
+};
+
+// Accepts seconds ("120") or minutes and seconds ("2:00")
+export const parseTimeLimit = (value: string | number | null | undefined): number | null => {
+  if (value === null || value === undefined || String(value).trim() === '') return null;
+  const text = String(value).trim();
+  const clock = text.match(/^(\d+):(\d{1,2})$/);
+  if (clock) return Number(clock[1]) * 60 + Number(clock[2]);
+  const seconds = parseInt(text, 10);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : null;
+};
+
+// Terms may be separated by semicolons, pipes or commas
+export const parseVocabulary = (value: string | string[] | null | undefined): string[] | null => {
+  if (value === null || value === undefined) return null;
+  const terms = (Array.isArray(value) ? value : value.split(/[;|,]/))
+    .map(term => term.trim())
+    .filter(Boolean);
+  return terms.length > 0 ? terms : null;
+};
+
+// Non-string values (a number or object in a JSON entry) count as missing
+const cleanText = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+export const rowsFromTable = (table: string[][], mapping: ColumnMapping, hasHeader: boolean): ImportRow[] => {
+  const cell = (cells: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index === null ? null : cells[index] ?? null;
+  };
+
+  return table.slice(hasHeader ? 1 : 0).map((cells, index) => ({
+    line: index + (hasHeader ? 2 : 1),
+    part: parsePart(cell(cells, 'part')),
+    question: cleanText(cell(cells, 'question')),
+    answer: cleanText(cell(cells, 'answer')),
+    category: cleanText(cell(cells, 'category')) || null,
+    keyVocabulary: parseVocabulary(cell(cells, 'key_vocabulary')),
+    timeLimit: parseTimeLimit(cell(cells, 'time_limit')),
+  }));
+};
+
+interface JsonQuestion {
+  q: unknown;
+  a: unknown;
+  part?: string | number;
+  category?: string;
+  key_vocabulary?: string[] | string;
+  vocabulary?: string[] | string;
+  time_limit?: string | number | null;
+}
+
+interface JsonPart {
+  part: string;
+  q_a: JsonQuestion[];
+}
+
+/**
+ * Reads the `{"part":"1","q_a":[...]}` format, an array of such blocks
+ * (as written by the backup export), or a question set
+ * `{"set":{...},"parts":[...]}`. Entries may override part, category,
+ * vocabulary and time limit individually.
+ */
+export const parseJsonImport = (text: string): ParsedImport => {
+  const data = JSON.parse(text);
+  const isSet = data && typeof data === 'object' && 'parts' in data;
+
+  if (isSet && (!data.set?.title?.trim() || !Array.isArray(data.parts))) {
+    throw new Error('Invalid question set format. Expected format: {"set":{"title":"theme"}, "parts":[{"part":"2", "q_a":[...]}]}');
+  }
+  const blocks: JsonPart[] = isSet ? data.parts : Array.isArray(data) ? data : [data];
+
+  const rows: ImportRow[] = [];
+  for (const block of blocks) {
+    if (!block || !block.q_a || !Array.isArray(block.q_a)) {
+      throw new Error('Invalid JSON format. Expected format: {"part":"1", "q_a":[{"q":"question", "a":"answer"}]}');
+    }
+
+    for (const entry of block.q_a) {
+      // A malformed entry becomes an invalid row instead of failing the whole import
+      const qa: JsonQuestion = entry && typeof entry === 'object' ? entry : { q: '', a: '' };
+      rows.push({
+        line: rows.length + 1,
+        part: parsePart(qa.part ?? block.part),
+        question: cleanText(qa.q),
+        answer: cleanText(qa.a),
+        category: cleanText(qa.category) || null,
+        keyVocabulary: parseVocabulary(qa.key_vocabulary ?? qa.vocabulary),
+        timeLimit: parseTimeLimit(qa.time_limit),
+      });
+    }
+  }
+
+  return {
+    rows,
+    set: isSet ? { title: data.set.title.trim(), description: data.set.description?.trim() || null } : null,
+  };
+};
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const METADATA_LINE = /^[*_]*(part|category|topic|key vocabulary|vocabulary|time limit|time)[*_]*\s*:[*_]*\s*(.*)$/i;
+
+/**
+ * Reads questions from Markdown sections. "Part N" headings set the part
+ * and "Category: X" headings the category for the questions below them;
+ * any other heading is a question whose body is the sample answer.
+ * "Category:", "Vocabulary:", "Time limit:" and "Part:" lines inside a
+ * question override its fields. A heading with no body that is followed
+ * by a deeper heading is treated as a category, so
+ * "# Part 1 / ## Hometown / ### Where do you live?" works too.
+ */
+export const parseMarkdownImport = (text: string): ImportRow[] => {
+  const rows: ImportRow[] = [];
+  let part: number | null = null;
+  let category: string | null = null;
+  let current: { row: ImportRow; level: number; body: string[] } | null = null;
+
+  const finishQuestion = () => {
+    if (!current) return;
+    const answer = current.body.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+    rows.push({ ...current.row, answer });
+    current = null;
+  };
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const heading = line.match(HEADING);
+    if (heading) {
+      const level = heading[1].length;
+      const title = heading[2].trim();
+
+      if (current && current.body.every(bodyLine => !bodyLine.trim()) && level > current.level) {
+        category = current.row.question;
+        current = null;
+      }
+      finishQuestion();
+
+      const partHeading = title.match(/^part\s*([123])\b\s*[-–—:]?\s*(.*)$/i);
+      const categoryHeading = title.match(/^(?:category|topic)\s*:\s*(.+)$/i);
+      if (partHeading) {
+        part = Number(partHeading[1]);
+        category = partHeading[2].trim() || null;
+      } else if (categoryHeading) {
+        category = categoryHeading[1].trim();
+      } else {
+        current = {
+          level,
+          body: [],
+          row: {
+            line: index + 1,
+            part,
+            question: title,
+            answer: '',
+            category,
+            keyVocabulary: null,
+            timeLimit: null,
+          },
+        };
+      }
+      return;
+    }
+
+    if (!current) return;
+
+    const metadata = line.trim().match(METADATA_LINE);
+    if (metadata) {
+      const key = metadata[1].toLowerCase();
+      const value = metadata[2].replace(/[*_]+$/, '').trim();
+      const row = current.row;
+      if (key === 'part') row.part = parsePart(value);
+      else if (key === 'category' || key === 'topic') row.category = value || null;
+      else if (key.endsWith('vocabulary')) row.keyVocabulary = parseVocabulary(value);
+      else row.timeLimit = parseTimeLimit(value);
+      return;
+    }
+
+    current.body.push(line);
+  });
+  finishQuestion();
+
+  return rows;
+};
+
+/**
+ * Problems that stop a row from being imported.
+ */
+export const validateImportRow = (row: ImportRow): string[] => {
+  const problems: string[] = [];
+  if (row.part === null) problems.push('Missing part');
+  if (!row.question) problems.push('Missing question');
+  if (!row.answer) problems.push('Missing answer');
+  return problems;
+};
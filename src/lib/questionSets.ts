@@ -0,0 +1,82 @@
+import { supabase } from './supabase';
+import { IELTSQuestion, QuestionSet } from '../types';
+
+export type QuestionSetInput = Pick<QuestionSet, 'title' | 'description'>;
+
+export const fetchQuestionSets = async (): Promise<QuestionSet[]> => {
+  const { data, error } = await supabase
+    .from('question_sets')
+    .select('*')
+    .order('title');
+
+  if (error) throw error;
+
+  return data || [];
+};
+
+export const createQuestionSet = async (input: QuestionSetInput): Promise<QuestionSet> => {
+  const { data, error } = await supabase
+    .from('question_sets')
+    .insert(input)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return data;
+};
+
+export const updateQuestionSet = async (id: string, input: QuestionSetInput): Promise<QuestionSet> => {
+  const { data, error } = await supabase
+    .from('question_sets')
+    .update(input)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return data;
+};
+
+// Member questions are kept; the foreign key clears their link
+export const deleteQuestionSet = async (id: string) => {
+  const { error } = await supabase
+    .from('question_sets')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+/**
+ * Makes exactly `questionIds` the members of a set. Questions can belong
+ * to one set only, so adding a question moves it out of any other set.
+ */
+export const setQuestionSetMembers = async (setId: string, questionIds: string[]) => {
+  let removeQuery = supabase
+    .from('ielts_questions')
+    .update({ question_set_id: null })
+    .eq('question_set_id', setId);
+  if (questionIds.length > 0) {
+    removeQuery = removeQuery.not('id', 'in', `(${questionIds.join(',')})`);
+  }
+  const { error: removeError } = await removeQuery;
+  if (removeError) throw removeError;
+
+  if (questionIds.length === 0) return;
+
+  const { error: addError } = await supabase
+    .from('ielts_questions')
+    .update({ question_set_id: setId })
+    .in('id', questionIds);
+  if (addError) throw addError;
+};
+
+/**
+ * The Part 3 questions that follow a cue card in the exam, in bank order.
+ */
+export const getFollowUpQuestions = (cueCard: IELTSQuestion, questions: IELTSQuestion[]) =>
+  cueCard.question_set_id
+    ? questions.filter(q => q.part === 3 && q.question_set_id === cueCard.question_set_id)
+    : [];
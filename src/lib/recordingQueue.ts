@@ -0,0 +1,57 @@
+import { QueuedRecording } from '../types';
+
+const DB_NAME = 'ielts-recording-queue';
+const DB_VERSION = 1;
+const STORE_NAME = 'recordings';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    // Quota errors abort the transaction without an error event on the request
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const getQueuedRecordings = async (): Promise<QueuedRecording[]> => {
+  const items = await runRequest<QueuedRecording[]>('readonly', store => store.getAll());
+  return items.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const putQueuedRecording = async (item: QueuedRecording): Promise<void> => {
+  await runRequest('readwrite', store => store.put(item));
+};
+
+export const deleteQueuedRecording = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+};
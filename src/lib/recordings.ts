@@ -0,0 +1,230 @@
+import { supabase } from './supabase';
+import { getCurrentUserId } from './auth';
+import { getAudioExtension, prepareForUpload } from './audioFormat';
+import { UserRecording } from '../types';
+
+// Lifetime of the signed URLs recordings are played from
+export const SIGNED_URL_SECONDS = 60 * 60;
+
+export interface SaveRecordingParams {
+  questionId: string;
+  serialNumber: number;
+  blob: Blob;
+  duration: number;
+  sessionId?: string | null;
+  prepNotes?: string | null;
+}
+
+/**
+ * Uploads an audio blob to the current user's folder in the recordings
+ * bucket and stores its metadata in `user_recordings`. Takes that are not
+ * in a widely playable format (WebM and Ogg) are converted to WAV first.
+ * Throws when there is no session, and on any storage or database error.
+ */
+export const saveRecording = async ({
+  questionId,
+  serialNumber,
+  blob,
+  duration,
+  sessionId = null,
+  prepNotes = null,
+}: SaveRecordingParams): Promise<UserRecording> => {
+  const userId = await getCurrentUserId();
+  if (!userId) throw new Error('You need to be signed in to save recordings');
+
+  const upload = await prepareForUpload(blob, duration);
+
+  // Generate unique filename, namespaced by user so storage policies can scope access
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const filename = `${userId}/recording-${serialNumber}-${timestamp}.${getAudioExtension(upload.format)}`;
+
+  // Upload to Supabase Storage
+  const { data: uploadData, error: uploadError } = await supabase.storage
+    .from('recordings')
+    .upload(filename, upload.blob, {
+      contentType: upload.format,
+    });
+
+  if (uploadError) throw uploadError;
+
+  // Save recording metadata to database
+  const { data, error: dbError } = await supabase
+    .from('user_recordings')
+    .insert({
+      user_id: userId,
+      question_id: questionId,
+      storage_path: uploadData.path,
+      duration,
+      session_id: sessionId,
+      prep_notes: prepNotes,
+      format: upload.format,
+      bitrate: upload.bitrate,
+    })
+    .select()
+    .single();
+
+  if (dbError) {
+    // Without its row the object would be orphaned, and a retry uploads it again under a new name
+    const { error: removeError } = await supabase.storage.from('recordings').remove([uploadData.path]);
+    if (removeError) console.error('Error removing orphaned recording:', removeError);
+    throw dbError;
+  }
+
+  return data;
+};
+
+export type RecordingSortField = 'created_at' | 'duration';
+
+export interface RecordingSort {
+  field: RecordingSortField;
+  ascending: boolean;
+}
+
+export interface RecordingHistoryFilters {
+  questionId: string | null;
+  part: 1 | 2 | 3 | null;
+  // Inclusive calendar days, as YYYY-MM-DD
+  from: string | null;
+  to: string | null;
+}
+
+// Sort value and id of the last row on a page; the next page starts after it
+export interface RecordingCursor {
+  value: string | number;
+  id: string;
+}
+
+export interface RecordingPage {
+  recordings: UserRecording[];
+  nextCursor: RecordingCursor | null;
+}
+
+export const RECORDINGS_PAGE_SIZE = 20;
+
+const startOfLocalDay = (date: string, offsetDays = 0) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day + offsetDays).toISOString();
+};
+
+/**
+ * Fetches one page of the user's recordings using keyset pagination on
+ * the sort column, with the id as a tie-breaker so equal durations or
+ * timestamps are neither skipped nor repeated.
+ */
+export const fetchRecordingPage = async (
+  userId: string,
+  filters: RecordingHistoryFilters,
+  sort: RecordingSort,
+  cursor: RecordingCursor | null = null,
+  pageSize = RECORDINGS_PAGE_SIZE,
+): Promise<RecordingPage> => {
+  // Recordings are deleted with their question, so the inner join only filters by part
+  let query = supabase
+    .from('user_recordings')
+    .select('*, ielts_questions!inner(part)')
+    .eq('user_id', userId);
+
+  if (filters.questionId) query = query.eq('question_id', filters.questionId);
+  if (filters.part) query = query.eq('ielts_questions.part', filters.part);
+  if (filters.from) query = query.gte('created_at', startOfLocalDay(filters.from));
+  if (filters.to) query = query.lt('created_at', startOfLocalDay(filters.to, 1));
+
+  if (cursor) {
+    const op = sort.ascending ? 'gt' : 'lt';
+    const value = typeof cursor.value === 'string' ? `"${cursor.value}"` : cursor.value;
+    query = query.or(`${sort.field}.${op}.${value},and(${sort.field}.eq.${value},id.${op}.${cursor.id})`);
+  }
+
+  const { data, error } = await query
+    .order(sort.field, { ascending: sort.ascending })
+    .order('id', { ascending: sort.ascending })
+    .limit(pageSize + 1);
+
+  if (error) throw error;
+
+  const rows = (data || []) as unknown as UserRecording[];
+  const recordings = rows.slice(0, pageSize);
+  const last = recordings[recordings.length - 1];
+
+  return {
+    recordings,
+    nextCursor: rows.length > pageSize && last ? { value: last[sort.field], id: last.id } : null,
+  };
+};
+
+// Rows saved before `storage_path` existed only have the public URL
+export const storagePathFromUrl = (audioUrl: string) => {
+  const marker = '/object/public/recordings/';
+  const index = audioUrl.indexOf(marker);
+  return index === -1 ? null : decodeURIComponent(audioUrl.slice(index + marker.length));
+};
+
+export const getRecordingPath = (recording: UserRecording) =>
+  recording.storage_path ?? (recording.audio_url ? storagePathFromUrl(recording.audio_url) : null);
+
+/**
+ * A temporary URL for playing the audio at `path`. The bucket is
+ * private, so the URL is signed under the caller's storage policies and
+ * expires after `expiresIn` seconds.
+ */
+export const createRecordingAudioUrl = async (path: string, expiresIn = SIGNED_URL_SECONDS) => {
+  const { data, error } = await supabase.storage
+    .from('recordings')
+    .createSignedUrl(path, expiresIn);
+
+  if (error) throw error;
+
+  return data.signedUrl;
+};
+
+export const downloadRecordingAudio = async (recording: UserRecording): Promise<Blob> => {
+  const path = getRecordingPath(recording);
+  if (!path) throw new Error('This recording has no stored audio');
+
+  const { data, error } = await supabase.storage
+    .from('recordings')
+    .download(path);
+
+  if (error) throw error;
+
+  return data;
+};
+
+/**
+ * Deletes recordings together with their audio files. Storage objects go
+ * first: the delete policy can match a claimed guest file only while its
+ * row still exists.
+ */
+export const deleteRecordings = async (recordings: UserRecording[]) => {
+  const paths = recordings
+    .map(getRecordingPath)
+    .filter((path): path is string => !!path);
+
+  if (paths.length > 0) {
+    const { error: storageError } = await supabase.storage.from('recordings').remove(paths);
+    if (storageError) throw storageError;
+  }
+
+  const { error } = await supabase
+    .from('user_recordings')
+    .delete()
+    .in('id', recordings.map(recording => recording.id));
+
+  if (error) throw error;
+};
+
+export const updateRecordingDetails = async (
+  recordingId: string,
+  details: Pick<UserRecording, 'labels' | 'notes'>,
+): Promise<UserRecording> => {
+  const { data, error } = await supabase
+    .from('user_recordings')
+    .update(details)
+    .eq('id', recordingId)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return data;
+};
@@ -0,0 +1,53 @@
+export const isSpeechSynthesisSupported = () =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+/**
+ * Turns a rich-text sample answer into plain sentences. Block elements
+ * and line breaks also end a sentence so headings and list items without
+ * punctuation are not run together.
+ */
+export const splitIntoSentences = (html: string): string[] => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll('br, p, li, h1, h2, h3, h4, div').forEach(element => {
+    element.append('\n');
+  });
+
+  return (doc.body.textContent || '')
+    .split('\n')
+    .flatMap(block => block.match(/[^.!?]+[.!?]+["')\]]*|[^.!?]+$/g) || [])
+    .map(sentence => sentence.replace(/\s+/g, ' ').trim())
+    .filter(sentence => /[a-z]/i.test(sentence));
+};
+
+/**
+ * Reads text aloud with the browser's English voice. Resolves to true when
+ * the utterance finishes and to false when it is cancelled part way.
+ */
+export const speak = (text: string, rate = 1): Promise<boolean> =>
+  new Promise((resolve, reject) => {
+    if (!isSpeechSynthesisSupported()) {
+      reject(new Error('Speech synthesis is not supported in this browser'));
+      return;
+    }
+
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = 'en-GB';
+    utterance.rate = rate;
+    utterance.onend = () => resolve(true);
+    utterance.onerror = (event) => {
+      if (event.error === 'canceled' || event.error === 'interrupted') {
+        resolve(false);
+      } else {
+        reject(new Error(`Speech synthesis failed: ${event.error}`));
+      }
+    };
+
+    window.speechSynthesis.cancel();
+    window.speechSynthesis.speak(utterance);
+  });
+
+export const stopSpeaking = () => {
+  if (isSpeechSynthesisSupported()) {
+    window.speechSynthesis.cancel();
+  }
+};
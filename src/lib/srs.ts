@@ -0,0 +1,150 @@
+import { supabase } from './supabase';
+import { fetchAllRows } from './pagination';
+import { IELTSQuestion, QuestionReview } from '../types';
+
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Never-practised questions added to the due queue each day, so a new bank is not all due at once
+export const NEW_QUESTIONS_PER_QUEUE = 10;
+
+export interface SelfRating {
+  label: string;
+  quality: number;
+  description: string;
+}
+
+// SM-2 grades answers 0-5; learners pick from four plainer options
+export const SELF_RATINGS: SelfRating[] = [
+  { label: 'Again', quality: 1, description: 'I struggled to answer' },
+  { label: 'Hard', quality: 3, description: 'I answered with long pauses' },
+  { label: 'Good', quality: 4, description: 'I answered with some hesitation' },
+  { label: 'Easy', quality: 5, description: 'I answered fluently' },
+];
+
+export type ReviewSchedule = Pick<QuestionReview, 'ease_factor' | 'interval_days' | 'repetitions' | 'due_at'>;
+
+/**
+ * Converts an estimated band into an SM-2 quality grade. Band 6.5 and
+ * above counts as a confident answer.
+ */
+export const qualityFromBand = (band: number) => {
+  if (band >= 7.5) return 5;
+  if (band >= 6.5) return 4;
+  if (band >= 5.5) return 3;
+  if (band >= 4.5) return 2;
+  return 1;
+};
+
+/**
+ * SM-2: a failed answer (quality below 3) starts the question over at a
+ * one-day interval; a passed one waits 1, then 6, then interval × ease days.
+ */
+export const scheduleReview = (
+  previous: ReviewSchedule | null,
+  quality: number,
+  now = new Date(),
+): ReviewSchedule => {
+  const ease = previous?.ease_factor ?? DEFAULT_EASE;
+  let repetitions = previous?.repetitions ?? 0;
+  let intervalDays: number;
+
+  if (quality < 3) {
+    repetitions = 0;
+    intervalDays = 1;
+  } else {
+    repetitions += 1;
+    if (repetitions === 1) intervalDays = 1;
+    else if (repetitions === 2) intervalDays = 6;
+    else intervalDays = Math.round((previous?.interval_days ?? 6) * ease);
+  }
+
+  const penalty = 5 - quality;
+  const nextEase = Math.max(MIN_EASE, ease + 0.1 - penalty * (0.08 + penalty * 0.02));
+
+  return {
+    ease_factor: Math.round(nextEase * 100) / 100,
+    interval_days: intervalDays,
+    repetitions,
+    due_at: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+  };
+};
+
+const startOfDay = (date: Date) => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+};
+
+const endOfDay = (date: Date) => {
+  const end = new Date(date);
+  end.setHours(23, 59, 59, 999);
+  return end;
+};
+
+export const isDueToday = (review: Pick<QuestionReview, 'due_at'>, now = new Date()) =>
+  new Date(review.due_at) <= endOfDay(now);
+
+/**
+ * Question ids to practise today: reviews that have fallen due, most
+ * overdue first, followed by never-practised questions. Questions first
+ * practised today count against the day's `NEW_QUESTIONS_PER_QUEUE`, so
+ * rating one does not pull another unseen question into the queue.
+ */
+export const buildDueQueue = (
+  questions: IELTSQuestion[],
+  reviews: Record<string, QuestionReview>,
+  now = new Date(),
+): string[] => {
+  const due = questions
+    .filter(q => reviews[q.id] && isDueToday(reviews[q.id], now))
+    .sort((a, b) => new Date(reviews[a.id].due_at).getTime() - new Date(reviews[b.id].due_at).getTime());
+
+  const startedToday = Object.values(reviews)
+    .filter(review => new Date(review.created_at) >= startOfDay(now))
+    .length;
+
+  const unseen = questions
+    .filter(q => !reviews[q.id])
+    .slice(0, Math.max(0, NEW_QUESTIONS_PER_QUEUE - startedToday));
+
+  return [...due, ...unseen].map(q => q.id);
+};
+
+export const fetchReviews = async (userId: string): Promise<QuestionReview[]> => {
+  return fetchAllRows((from, to) => supabase
+    .from('question_reviews')
+    .select('*')
+    .eq('user_id', userId)
+    .order('question_id')
+    .range(from, to));
+};
+
+/**
+ * Records an attempt at a question and moves its next review date.
+ */
+export const saveReview = async (
+  userId: string,
+  questionId: string,
+  previous: QuestionReview | null,
+  quality: number,
+): Promise<QuestionReview> => {
+  const now = new Date();
+
+  const { data, error } = await supabase
+    .from('question_reviews')
+    .upsert({
+      user_id: userId,
+      question_id: questionId,
+      ...scheduleReview(previous, quality, now),
+      last_quality: quality,
+      last_reviewed_at: now.toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return data;
+};
@@ -0,0 +1,90 @@
+import { supabase } from './supabase';
+import { IELTSQuestion } from '../types';
+
+export interface TimingProfile {
+  // Seconds; answers shorter than `min` are too short, longer than `max` run over time
+  min: number;
+  target: number;
+  max: number;
+}
+
+export type TimingProfiles = Record<1 | 2 | 3, TimingProfile>;
+
+export type TimingStatus = 'under-minimum' | 'on-track' | 'past-target' | 'over-time';
+
+/**
+ * Timings that follow the exam: Part 1 answers are a few sentences, the
+ * Part 2 long turn runs one to two minutes and is stopped at two, and
+ * Part 3 answers are developed but shorter than the long turn.
+ */
+export const DEFAULT_TIMING_PROFILES: TimingProfiles = {
+  1: { min: 10, target: 25, max: 45 },
+  2: { min: 60, target: 105, max: 120 },
+  3: { min: 30, target: 60, max: 90 },
+};
+
+const TIMING_SETTINGS_KEY = 'timing_profiles';
+
+/**
+ * Returns a message describing what is wrong with a timing, or null when
+ * it is usable.
+ */
+export const validateTimingProfile = ({ min, target, max }: TimingProfile): string | null => {
+  if (![min, target, max].every(value => Number.isInteger(value) && value > 0)) {
+    return 'Times must be whole numbers of seconds above zero';
+  }
+  if (min > target || target > max) {
+    return 'Minimum, target and maximum must be in increasing order';
+  }
+  return null;
+};
+
+// Saved settings may be missing a part or predate a field
+const mergeWithDefaults = (saved: Partial<Record<string, Partial<TimingProfile>>> | null): TimingProfiles => {
+  const merged = { ...DEFAULT_TIMING_PROFILES };
+  for (const part of [1, 2, 3] as const) {
+    const profile = { ...DEFAULT_TIMING_PROFILES[part], ...saved?.[part] };
+    merged[part] = validateTimingProfile(profile) ? DEFAULT_TIMING_PROFILES[part] : profile;
+  }
+  return merged;
+};
+
+export const fetchTimingProfiles = async (): Promise<TimingProfiles> => {
+  const { data, error } = await supabase
+    .from('app_settings')
+    .select('value')
+    .eq('key', TIMING_SETTINGS_KEY)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return mergeWithDefaults(data?.value ?? null);
+};
+
+export const saveTimingProfiles = async (profiles: TimingProfiles) => {
+  const { error } = await supabase
+    .from('app_settings')
+    .upsert({ key: TIMING_SETTINGS_KEY, value: profiles, updated_at: new Date().toISOString() });
+
+  if (error) throw error;
+};
+
+/**
+ * The timing for one question: its own overrides where it has them, the
+ * profile of its part otherwise. Overrides are clamped so the result
+ * stays in order even when only some of them are set.
+ */
+export const getQuestionTiming = (question: IELTSQuestion, profiles: TimingProfiles): TimingProfile => {
+  const profile = profiles[question.part];
+  const max = question.time_limit ?? profile.max;
+  const min = Math.min(question.min_duration ?? profile.min, max);
+  const target = Math.min(Math.max(question.target_duration ?? profile.target, min), max);
+  return { min, target, max };
+};
+
+export const getTimingStatus = (duration: number, timing: TimingProfile): TimingStatus => {
+  if (duration < timing.min) return 'under-minimum';
+  if (duration > timing.max) return 'over-time';
+  if (duration > timing.target) return 'past-target';
+  return 'on-track';
+};
@@ -0,0 +1,162 @@
+import { supabase } from './supabase';
+import { getAudioExtension } from './audioFormat';
+import { downloadRecordingAudio } from './recordings';
+import { RecordingTranscript, TranscriptionResult, TranscriptWord, UserRecording } from '../types';
+
+/**
+ * A speech-to-text engine. Providers receive the raw recording and must
+ * return word-level timestamps in seconds.
+ */
+export interface TranscriptionProvider {
+  name: string;
+  transcribe: (audio: Blob) => Promise<TranscriptionResult>;
+}
+
+interface WhisperWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+interface WhisperSegment {
+  text: string;
+  start: number;
+  end: number;
+  words?: WhisperWord[];
+}
+
+interface WhisperResponse {
+  text: string;
+  language?: string;
+  words?: WhisperWord[];
+  segments?: WhisperSegment[];
+}
+
+// Spreads a segment's words evenly over its time span when the server gives no word timings
+const estimateWordTimings = (segment: WhisperSegment): TranscriptWord[] => {
+  const words = segment.text.trim().split(/\s+/).filter(Boolean);
+  const step = (segment.end - segment.start) / Math.max(words.length, 1);
+  return words.map((text, index) => ({
+    text,
+    start: segment.start + index * step,
+    end: segment.start + (index + 1) * step,
+  }));
+};
+
+const toTranscriptWords = (response: WhisperResponse): TranscriptWord[] => {
+  if (response.words?.length) {
+    return response.words.map(w => ({ text: w.word.trim(), start: w.start, end: w.end }));
+  }
+
+  return (response.segments || []).flatMap(segment =>
+    segment.words?.length
+      ? segment.words.map(w => ({ text: w.word.trim(), start: w.start, end: w.end }))
+      : estimateWordTimings(segment)
+  );
+};
+
+/**
+ * Talks to any server implementing the OpenAI `/v1/audio/transcriptions`
+ * API, such as a locally hosted faster-whisper or whisper.cpp server.
+ */
+export const createWhisperHttpProvider = (
+  baseUrl: string,
+  model = 'whisper-1',
+): TranscriptionProvider => ({
+  name: 'whisper-http',
+  transcribe: async (audio) => {
+    const formData = new FormData();
+    formData.append('file', audio, `recording.${getAudioExtension(audio.type)}`);
+    formData.append('model', model);
+    formData.append('response_format', 'verbose_json');
+    formData.append('timestamp_granularities[]', 'word');
+    formData.append('timestamp_granularities[]', 'segment');
+
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/v1/audio/transcriptions`, {
+      method: 'POST',
+      body: formData,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Transcription server responded with ${response.status}`);
+    }
+
+    const data: WhisperResponse = await response.json();
+    return {
+      text: data.text.trim(),
+      language: data.language ?? null,
+      words: toTranscriptWords(data).filter(w => w.text),
+    };
+  },
+});
+
+const providers = new Map<string, TranscriptionProvider>();
+
+export const registerTranscriptionProvider = (provider: TranscriptionProvider) => {
+  providers.set(provider.name, provider);
+};
+
+registerTranscriptionProvider(
+  createWhisperHttpProvider(
+    import.meta.env.VITE_TRANSCRIPTION_URL || 'http://localhost:9000',
+    import.meta.env.VITE_TRANSCRIPTION_MODEL || 'whisper-1',
+  )
+);
+
+export const getTranscriptionProvider = (
+  name: string = import.meta.env.VITE_TRANSCRIPTION_PROVIDER || 'whisper-http',
+): TranscriptionProvider => {
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new Error(`Unknown transcription provider "${name}"`);
+  }
+  return provider;
+};
+
+export const fetchTranscript = async (recordingId: string): Promise<RecordingTranscript | null> => {
+  const { data, error } = await supabase
+    .from('recording_transcripts')
+    .select('*')
+    .eq('recording_id', recordingId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+};
+
+/**
+ * Transcribes a saved recording with the configured provider and stores
+ * the result, replacing any earlier transcript of the same recording.
+ * The band estimate was scored from the old transcript, so it is removed
+ * and gets recomputed from the new one.
+ */
+export const transcribeRecording = async (
+  recording: UserRecording,
+  provider: TranscriptionProvider = getTranscriptionProvider(),
+): Promise<RecordingTranscript> => {
+  const result = await provider.transcribe(await downloadRecordingAudio(recording));
+
+  const { data, error } = await supabase
+    .from('recording_transcripts')
+    .upsert({
+      recording_id: recording.id,
+      provider: provider.name,
+      language: result.language,
+      text: result.text,
+      words: result.words,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  const { error: assessmentError } = await supabase
+    .from('recording_assessments')
+    .delete()
+    .eq('recording_id', recording.id);
+
+  if (assessmentError) throw assessmentError;
+
+  return data;
+};
@@ -0,0 +1,114 @@
+import { supabase } from './supabase';
+import { fetchAllRows } from './pagination';
+
+export interface VocabularyMatch {
+  used: string[];
+  unused: string[];
+  coverage: number;
+}
+
+// Longest suffixes first so "ies" wins over "s"
+const SUFFIXES: Array<[string, string]> = [
+  ['ingly', ''], ['edly', ''], ['ings', ''], ['ies', 'y'], ['ied', 'y'],
+  ['ing', ''], ['ed', ''], ['ly', ''], ['es', ''], ['s', ''],
+];
+
+const MIN_STEM_LENGTH = 3;
+
+/**
+ * Reduces a word to a rough stem so inflected forms compare equal:
+ * "unwinding" and "unwind", "connected" and "connect", "studies" and
+ * "study". Both sides of a comparison must go through this function.
+ */
+export const stemWord = (word: string): string => {
+  let stem = word.toLowerCase().replace(/[^a-z]/g, '');
+
+  for (const [suffix, replacement] of SUFFIXES) {
+    if (stem.endsWith(suffix) && !stem.endsWith('ss') && stem.length - suffix.length >= MIN_STEM_LENGTH) {
+      stem = stem.slice(0, -suffix.length) + replacement;
+      break;
+    }
+  }
+
+  // "stopped" -> "stopp" -> "stop"; "scroll" -> "scrol" keeps both forms aligned
+  if (/([b-df-hj-np-tv-z])\1$/.test(stem)) {
+    stem = stem.slice(0, -1);
+  }
+
+  // "evoke"/"evoked" and "revolutionize"/"revolutionized" differ only by a final "e"
+  if (stem.endsWith('e') && stem.length > MIN_STEM_LENGTH) {
+    stem = stem.slice(0, -1);
+  }
+
+  return stem;
+};
+
+const stemText = (text: string) =>
+  (text.toLowerCase().match(/[a-z']+/g) || []).map(stemWord);
+
+const containsSequence = (haystack: string[], needle: string[]) => {
+  if (needle.length === 0) return false;
+  for (let i = 0; i <= haystack.length - needle.length; i++) {
+    if (needle.every((word, j) => haystack[i + j] === word)) return true;
+  }
+  return false;
+};
+
+/**
+ * Checks which key vocabulary terms appear in a transcript, in any
+ * inflected form. Multi-word terms must appear as a consecutive phrase.
+ */
+export const matchKeyVocabulary = (text: string, terms: string[]): VocabularyMatch => {
+  const stems = stemText(text);
+  const used: string[] = [];
+  const unused: string[] = [];
+
+  for (const term of terms) {
+    if (containsSequence(stems, stemText(term))) {
+      used.push(term);
+    } else {
+      unused.push(term);
+    }
+  }
+
+  return {
+    used,
+    unused,
+    coverage: terms.length > 0 ? used.length / terms.length : 0,
+  };
+};
+
+export interface VocabularyTrendPoint extends VocabularyMatch {
+  recordingId: string;
+  createdAt: string;
+}
+
+/**
+ * Key vocabulary coverage of every transcribed attempt at a question,
+ * oldest first. Attempts without a transcript are left out.
+ */
+export const fetchVocabularyTrend = async (
+  questionId: string,
+  userId: string,
+  terms: string[],
+): Promise<VocabularyTrendPoint[]> => {
+  const data = await fetchAllRows((from, to) => supabase
+    .from('user_recordings')
+    .select('id, created_at, recording_transcripts(text)')
+    .eq('question_id', questionId)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true })
+    .order('id')
+    .range(from, to));
+
+  return data.flatMap(recording => {
+    // One-to-one embeds come back as an object, but older clients return an array
+    const transcripts = [recording.recording_transcripts].flat().filter(Boolean) as { text: string }[];
+    if (transcripts.length === 0) return [];
+    return [{
+      recordingId: recording.id,
+      createdAt: recording.created_at,
+      ...matchKeyVocabulary(transcripts[0].text, terms),
+    }];
+  });
+};
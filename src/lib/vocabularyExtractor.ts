@@ -0,0 +1,208 @@
+import { stemWord } from './vocabulary';
+import { COMMON_ENGLISH_WORDS } from './wordFrequency';
+
+export type VocabularySuggestionKind = 'word' | 'collocation' | 'phrasal-verb';
+
+export interface VocabularySuggestion {
+  term: string;
+  kind: VocabularySuggestionKind;
+  score: number;
+}
+
+// How many of the top suggestions are accepted until the editor says otherwise
+export const DEFAULT_ACCEPTED_VOCABULARY = 8;
+export const MAX_VOCABULARY_SUGGESTIONS = 15;
+
+// Function words, auxiliaries and the fillers that pad spoken answers
+const STOP_WORDS = new Set(`
+a an the and or but nor so yet if then than because as while when where whether which who whom whose what why how
+i me my mine myself we us our ours ourselves you your yours yourself yourselves he him his himself she her hers herself
+it its itself they them their theirs themselves this that these those there here
+am is are was were be been being have has had having do does did doing done will would shall should can could may might must
+i'm i've i'd i'll it's that's there's they're we're you're he's she's let's isn't aren't wasn't weren't don't doesn't
+didn't haven't hasn't hadn't won't wouldn't can't couldn't shouldn't
+of in on at by for with about against between into through during before after above below to from up down out off
+over under again further once than too very just also only even still really actually basically literally definitely
+probably maybe perhaps honestly quite pretty rather almost always never sometimes often usually generally especially
+particularly certainly simply mostly mainly truly totally fairly somewhat anyway though although however
+thing things stuff lot lots kind sort way ways bit like well yes yeah okay ok oh um uh er hmm
+some any all both each every few many much more most other others such same own several enough
+one two three four five six seven eight nine ten first second third last next
+get got gets getting go goes going went gone make makes made making say says said saying tell told
+know knew known think thought feel felt want wanted see saw seen seem seems seemed
+something anything everything nothing someone anyone everyone somebody anybody everybody
+`.trim().split(/\s+/));
+
+// Verbs that commonly combine with a particle into a phrasal verb
+const PHRASAL_BASES = new Set(`
+get give take put come go look make turn set bring carry figure pick break run keep hang catch end work cut show
+stay grow settle wind chill cheer calm sort point find fill hold let pay stand check log sign opt back call fall pass
+pull shut slow speed throw try wake wear move open play eat dress clean tidy lock switch zone burn stress freak
+drop head hand fit fix give look mess miss note pop pull reach rule send shop sit sleep slip stick stir take talk
+think touch track warm wash write
+`.trim().split(/\s+/));
+
+const PARTICLES = new Set(['up', 'out', 'off', 'down', 'over', 'away', 'back', 'through', 'around', 'along', 'apart', 'ahead', 'on']);
+
+// Short objects that can sit between a verb and its particle: "cheers me up"
+const OBJECT_PRONOUNS = new Set(['me', 'you', 'him', 'her', 'it', 'us', 'them']);
+
+// A phrase ending in one of these is usually a verb or adverb plus an adjective ("combines technical")
+const ADJECTIVE_ENDING = /(al|ful|ive|ous|ic|ible|able|less|ish|ly)$/;
+
+// Irregular past forms stemWord can't bring back to their base verb
+const IRREGULAR_VERBS: Record<string, string> = {
+  got: 'get', gotten: 'get', gave: 'give', given: 'give', took: 'take', taken: 'take', came: 'come', went: 'go',
+  gone: 'go', made: 'make', brought: 'bring', broke: 'break', broken: 'break', ran: 'run', kept: 'keep', hung: 'hang',
+  caught: 'catch', found: 'find', held: 'hold', paid: 'pay', stood: 'stand', fell: 'fall', fallen: 'fall',
+  threw: 'throw', thrown: 'throw', woke: 'wake', woken: 'wake', wore: 'wear', worn: 'wear', ate: 'eat', eaten: 'eat',
+  sent: 'send', sat: 'sit', slept: 'sleep', stuck: 'stick', wrote: 'write', written: 'write', thought: 'think',
+  wound: 'wind', cut: 'cut', put: 'put', set: 'set', shut: 'shut', let: 'let',
+};
+
+// Frequency rank of each stem, most common first
+const FREQUENCY_RANKS = (() => {
+  const ranks = new Map<string, number>();
+  COMMON_ENGLISH_WORDS.forEach((word, index) => {
+    const stem = stemWord(word);
+    if (!ranks.has(stem)) ranks.set(stem, index);
+  });
+  return ranks;
+})();
+
+// Words missing from the frequency list are rarer than anything on it
+const UNLISTED_RARITY = 1.5;
+// Listed words less rare than this only count as part of a phrase
+const MIN_WORD_RARITY = 0.45;
+const PHRASE_BONUS = 0.3;
+const PHRASAL_VERB_SCORE = 1.7;
+// Adverbs are rarely the vocabulary worth learning from an answer
+const ADVERB_PENALTY = 0.4;
+
+/**
+ * How uncommon a word is: 0 for the most frequent English words, up to 1
+ * for the end of the frequency list, and above 1 for words not on it.
+ */
+export const wordRarity = (word: string) => {
+  const rank = FREQUENCY_RANKS.get(stemWord(word));
+  return rank === undefined ? UNLISTED_RARITY : rank / COMMON_ENGLISH_WORDS.length;
+};
+
+const isContentWord = (word: string) =>
+  word.length >= 3 && !STOP_WORDS.has(word) && !/^\d/.test(word);
+
+const baseVerb = (word: string) => {
+  if (IRREGULAR_VERBS[word]) return IRREGULAR_VERBS[word];
+  if (PHRASAL_BASES.has(word)) return word;
+  const stem = stemWord(word);
+  for (const base of [stem, `${stem}e`]) {
+    if (PHRASAL_BASES.has(base)) return base;
+  }
+  return null;
+};
+
+// Phrases never span punctuation, so "I love it. Endless ..." doesn't pair "it" with "endless"
+const toClauses = (text: string) =>
+  text
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&[a-z]+;/gi, ' ')
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .split(/[.!?,;:()"\n–—]+/)
+    .map(clause => clause.match(/[a-z]+(?:['-][a-z]+)*/g) || [])
+    .filter(words => words.length > 0);
+
+/**
+ * Ranks the words and phrases of a sample answer that are worth learning.
+ * Single words score by how rare they are in general English, with a
+ * small bonus for length and repetition. Adjacent content words form
+ * collocations ("endless scrolling"), and a common verb followed by a
+ * particle forms a phrasal verb ("wind down", "cheers me up"). A single
+ * word that is part of a suggested phrase is left out.
+ */
+export const suggestKeyVocabulary = (answer: string, limit = MAX_VOCABULARY_SUGGESTIONS): VocabularySuggestion[] => {
+  const candidates = new Map<string, VocabularySuggestion>();
+
+  // Each repetition in the answer adds a little weight
+  const addCandidate = (term: string, kind: VocabularySuggestionKind, score: number) => {
+    const existing = candidates.get(term);
+    if (existing) {
+      existing.score += 0.1;
+    } else {
+      candidates.set(term, { term, kind, score });
+    }
+  };
+
+  for (const words of toClauses(answer)) {
+    // Verbs and particles already used by a phrasal verb
+    const phrasalIndexes = new Set<number>();
+
+    words.forEach((word, i) => {
+      const gap = OBJECT_PRONOUNS.has(words[i + 1]) ? 1 : 0;
+      const particle = words[i + 1 + gap];
+      const base = particle && PARTICLES.has(particle) ? baseVerb(word) : null;
+      if (base) {
+        addCandidate(`${base} ${particle}`, 'phrasal-verb', PHRASAL_VERB_SCORE);
+        phrasalIndexes.add(i);
+        phrasalIndexes.add(i + 1 + gap);
+      }
+    });
+
+    words.forEach((word, i) => {
+      if (!isContentWord(word) || phrasalIndexes.has(i)) return;
+      const rarity = wordRarity(word);
+
+      if (rarity >= MIN_WORD_RARITY) {
+        const lengthBonus = Math.min(word.length, 12) / 40;
+        const adverbPenalty = word.endsWith('ly') ? ADVERB_PENALTY : 0;
+        addCandidate(word, 'word', rarity + lengthBonus - adverbPenalty + (word.includes('-') ? 0.2 : 0));
+      }
+
+      for (const size of [2, 3]) {
+        const phrase = words.slice(i, i + size);
+        if (phrase.length < size || !phrase.every(isContentWord)) continue;
+        if (phrase.some((_, j) => phrasalIndexes.has(i + j)) || ADJECTIVE_ENDING.test(phrase[size - 1])) continue;
+
+        const rarities = phrase.map(wordRarity);
+        // At least one word has to be uncommon, or every pair of everyday words would qualify
+        if (Math.max(...rarities) < 1) continue;
+
+        const average = rarities.reduce((sum, value) => sum + value, 0) / size;
+        addCandidate(phrase.join(' '), 'collocation', average + PHRASE_BONUS);
+      }
+    });
+  }
+
+  const ranked = [...candidates.values()].sort((a, b) => b.score - a.score);
+  const phrases: VocabularySuggestion[] = [];
+
+  for (const { term, kind, score } of ranked) {
+    if (kind === 'word') continue;
+    const words = term.split(' ');
+    // Overlapping collocations ("endless scrolling" and "endless scrolling apps") keep the better one
+    if (kind === 'collocation' && phrases.some(p => p.kind === 'collocation' && p.term.split(' ').some(w => words.includes(w)))) continue;
+    phrases.push({ term, kind, score });
+  }
+
+  // A word is left out when a phrase already teaches it: "connected" inside "stay connected"
+  const phraseStems = new Set(phrases.flatMap(p => p.term.split(' ').map(stemWord)));
+  const words = ranked
+    .filter(candidate => candidate.kind === 'word' && !phraseStems.has(stemWord(candidate.term)));
+
+  return [...phrases, ...words]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(suggestion => ({ ...suggestion, score: Math.round(suggestion.score * 100) / 100 }));
+};
+
+/**
+ * The suggestions an editor has accepted. Terms without an explicit
+ * decision are accepted if they are among the top suggestions.
+ */
+export const acceptedVocabulary = (
+  suggestions: VocabularySuggestion[],
+  decisions: Record<string, boolean>,
+): string[] =>
+  suggestions
+    .filter((suggestion, index) => decisions[suggestion.term] ?? index < DEFAULT_ACCEPTED_VOCABULARY)
+    .map(suggestion => suggestion.term);
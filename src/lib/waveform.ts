@@ -0,0 +1,95 @@
+// Number of bars drawn across the waveform, whatever the recording's length
+export const WAVEFORM_BARS = 200;
+
+// Length of the frames loudness is measured over when looking for speech
+const SPEECH_FRAME_SECONDS = 0.02;
+
+// Floor for the speech threshold so room noise is never treated as speech
+const MIN_SPEECH_RMS = 0.01;
+
+// Silence kept either side of the speech so words are not clipped
+const TRIM_PADDING_SECONDS = 0.25;
+
+// Trimming less than this is not worth re-encoding the take for
+const MIN_TRIM_SECONDS = 0.5;
+
+export interface AudioSegment {
+  start: number;
+  end: number;
+}
+
+// Averages the channels so stereo and mono takes are measured alike
+const mixToMono = (buffer: AudioBuffer): Float32Array => {
+  if (buffer.numberOfChannels === 1) return buffer.getChannelData(0);
+
+  const mixed = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      mixed[i] += data[i] / buffer.numberOfChannels;
+    }
+  }
+  return mixed;
+};
+
+/**
+ * Peak amplitude of each of `bars` equal slices of the recording, scaled
+ * so the loudest slice is 1.
+ */
+export const getWaveformPeaks = (buffer: AudioBuffer, bars = WAVEFORM_BARS): number[] => {
+  const samples = mixToMono(buffer);
+  const samplesPerBar = Math.max(1, Math.floor(samples.length / bars));
+  const peaks: number[] = [];
+
+  for (let bar = 0; bar < bars && bar * samplesPerBar < samples.length; bar++) {
+    let peak = 0;
+    const end = Math.min(samples.length, (bar + 1) * samplesPerBar);
+    for (let i = bar * samplesPerBar; i < end; i++) {
+      peak = Math.max(peak, Math.abs(samples[i]));
+    }
+    peaks.push(peak);
+  }
+
+  const loudest = Math.max(...peaks, 0);
+  return loudest > 0 ? peaks.map(peak => peak / loudest) : peaks;
+};
+
+/**
+ * The part of the recording between the first and last spoken moment,
+ * padded slightly, or null when there is no speech or too little silence
+ * around it to be worth trimming. Like the pause detection, the threshold
+ * adapts to the recording's loudness.
+ */
+export const findSpeechRange = (buffer: AudioBuffer): AudioSegment | null => {
+  const samples = mixToMono(buffer);
+  const frameLength = Math.max(1, Math.round(SPEECH_FRAME_SECONDS * buffer.sampleRate));
+  const levels: number[] = [];
+
+  for (let start = 0; start < samples.length; start += frameLength) {
+    const end = Math.min(samples.length, start + frameLength);
+    let sumOfSquares = 0;
+    for (let i = start; i < end; i++) {
+      sumOfSquares += samples[i] * samples[i];
+    }
+    levels.push(Math.sqrt(sumOfSquares / (end - start)));
+  }
+
+  if (levels.length === 0) return null;
+
+  const sorted = [...levels].sort((a, b) => a - b);
+  const loud = sorted[Math.floor(sorted.length * 0.9)];
+  const threshold = Math.max(MIN_SPEECH_RMS, loud * 0.15);
+
+  const firstSpoken = levels.findIndex(level => level >= threshold);
+  if (firstSpoken === -1) return null;
+  let lastSpoken = levels.length - 1;
+  while (levels[lastSpoken] < threshold) lastSpoken--;
+
+  const frameSeconds = frameLength / buffer.sampleRate;
+  const start = Math.max(0, firstSpoken * frameSeconds - TRIM_PADDING_SECONDS);
+  const end = Math.min(buffer.duration, (lastSpoken + 1) * frameSeconds + TRIM_PADDING_SECONDS);
+
+  if (buffer.duration - (end - start) < MIN_TRIM_SECONDS) return null;
+
+  return { start, end };
+};
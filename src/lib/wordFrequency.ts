@@ -0,0 +1,80 @@
+/**
+ * About 1,200 of the most frequent words of general English, most frequent
+ * first, followed by everyday words the common IELTS topics (hometown,
+ * food, hobbies, travel) use constantly. Used to judge how ordinary a word
+ * is: anything missing from the list is treated as rarer than everything
+ * on it.
+ */
+export const COMMON_ENGLISH_WORDS = `
+the be and of a in to have it i that for you he with on do say this they at but we his from not by she or as what go
+their can who get if would her all my make about know will up one time there year so think when which them some me
+people take out into just see him your come could now than like other how then its our two more these want way look
+first also new because day use no man find here thing give many well only those tell very even back any good woman
+through us life child work down may after should call world over school still try last ask need too feel three state
+never become between high really something most another much family own leave put old while mean keep student why
+let great same big group begin seem country help talk where turn problem every start hand might american show part
+against place such again few case week company system each right program hear question during play government run
+small number off always move night live point believe hold today bring happen next without before large million must
+home under water room write mother area national money story young fact month different lot study book eye job word
+though business issue side kind four head far black long both little house yes since provide service around friend
+important father sit away until power hour game often yet line political end among ever stand bad lose however member
+pay law meet car city almost include continue set later community much name five once white least president learn
+real change team minute best several idea kid body information nothing ago lead social understand whether watch
+together follow parent stop face anything create public already speak others read level allow add office spend door
+health person art sure war history party within grow result open morning walk reason low win research girl guy early
+food moment himself air teacher force offer enough education across although remember foot second boy maybe toward
+able age policy everything love process music including consider appear actually buy probably human wait serve market
+die send expect sense build stay fall oh nation plan cut college interest death course someone experience behind reach
+local kill six remain effect yeah suggest class control raise care perhaps late hard field else pass former sell major
+sometimes require along development themselves report role better economic effort decide rate strong possible heart
+drug show leader light voice wife whole police mind finally pull return free military price less according decision
+explain son hope develop view relationship carry town road drive arm true federal break difference thank receive value
+international action full model join season society tax director position player agree especially record pick wear
+paper special space ground form support event official whose matter everyone center couple site project hit base
+activity star table need court produce eat american teach oil half situation easy cost industry figure street image
+itself phone either data cover quite picture clear practice piece land recent describe product doctor wall patient
+worker news test movie certain north personal simply third technology catch step baby computer type attention draw
+film tree source red nearly organization choose cause hair century evidence window difficult listen soon culture
+billion chance brother energy period summer realize hundred available plant likely opportunity term short letter
+condition choice single rule daughter administration south husband floor campaign material population economy medical
+hospital church close thousand risk current fire future wrong involve defense anyone increase security bank myself
+certainly west sport board seek per subject officer private rest behavior deal performance fight throw top quickly past
+goal bed order author fill represent focus foreign drop blood upon agency push nature color recently store reduce sound
+note fine near movement page enter share than common poor natural race concern series significant similar hot language
+each usually response dead rise animal factor decade article shoot east save seven artist away scene stock career
+despite central eight thus treatment beyond happy exactly protect approach lie size dog fund serious occur media ready
+sign thought list individual simple quality pressure accept answer resource identify left meeting determine prepare
+disease whatever success argue cup particularly amount ability staff recognize indicate character growth loss degree
+wonder attack herself region television box training pretty trade election everybody physical lay general feeling
+standard bill message fail outside arrive analysis benefit sex forward lawyer present section environmental glass skill
+sister professor operation financial crime stage ok compare authority miss design sort act ten knowledge gun station
+blue state strategy clearly discuss indeed truth song example democratic check environment leg dark various rather
+laugh guess executive prove hang entire rock forget claim remove manager enjoy network legal religious cold final main
+science green memory card above seat cell establish nice trial expert spring firm radio visit management avoid imagine
+tonight huge ball finish yourself theory impact respond statement maintain charge popular traditional onto reveal
+direction weapon employee cultural contain peace pain apply play measure wide shake fly interview manage chair fish
+particular camera structure politics perform bit weight suddenly discover candidate production treat trip evening
+affect inside conference unit style adult worry range mention deep edge specific writer trouble necessary throughout
+challenge fear shoulder institution middle sea dream bar beautiful property instead improve stuff detail method
+somebody magazine hotel soldier reflect heavy sexual bag heat marriage tough sing surface purpose exist pattern whom
+skin agent owner machine gas ahead generation commercial address cancer item reality coach yard beat violence total
+tend investment discussion finger garden notice collection modern task partner positive civil kitchen consumer shot
+budget wish painting scientist safe agreement capital mouth nor victim newspaper threat responsibility smile attorney
+score account interesting audience rich dinner vote western relate travel debate prevent citizen majority none front
+born admit senior assume wind key professional mission fast alone customer suffer speech successful option participant
+southern fresh eventually forest video global senate reform access restaurant judge publish relation release own bird
+opinion credit critical corner concerned recall version stare safety effective neighborhood original troop income
+directly hurt species immediately track basic strike sky freedom absolutely plane nobody achieve object attitude labor
+refer concept client powerful perfect nine therefore conduct announce conversation examine touch please attend
+completely variety sleep involved investigation nuclear researcher press conflict spirit replace british encourage
+argument once camp brain feature afternoon weekend dozen possibility insurance department battle beginning date
+generally african sorry complete crisis stick fan afraid loan visitor nurse sleep cook mistake shop weather dance
+holiday friendly birthday cheap kid wonderful lucky busy boring tired angry funny favourite favorite hobby hometown
+neighbour neighbor apartment flat village capital bus train drive ride bike bicycle beach mountain river lake island
+park museum library shopping clothes shoe hat breakfast lunch meal cook coffee tea milk fruit vegetable meat chicken
+rice bread cake chocolate sweet healthy exercise gym swim swimming football basketball tennis internet online website
+email mobile smartphone app social video photo camera guitar piano instrument concert festival celebrate gift present
+weekend vacation journey tourist trip hotel flight airport ticket passport holiday abroad foreign language english
+chinese university course subject exam homework lesson classmate teacher uncle aunt cousin grandmother grandfather
+grandparent husband wife boyfriend girlfriend pet cat dog
+`.trim().split(/\s+/);
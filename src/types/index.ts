@@ -6,7 +6,29 @@ export interface IELTSQuestion {
   question: string;
   sample_answer: string;
   key_vocabulary: string[];
-  time_limit: number;
+  // Timing overrides in seconds; null follows the timing profile of the part
+  min_duration: number | null;
+  target_duration: number | null;
+  time_limit: number | null;
+  question_set_id: string | null;
+  // Part 2 only: the topic line and "You should say" bullet prompts
+  cue_card_topic: string | null;
+  cue_card_prompts: string[];
+  created_at: string;
+}
+
+export interface QuestionSet {
+  id: string;
+  title: string;
+  description: string | null;
+  created_at: string;
+}
+
+export interface QuestionCategory {
+  id: string;
+  name: string;
+  keywords: string[];
+  synonyms: string[];
   created_at: string;
 }
 
@@ -14,8 +36,17 @@ export interface UserRecording {
   id: string;
   user_id: string;
   question_id: string;
-  audio_url: string;
+  // Public URL of recordings saved before the bucket became private
+  audio_url: string | null;
+  storage_path: string | null;
   duration: number;
+  session_id: string | null;
+  prep_notes: string | null;
+  // MIME type and average bits per second of the stored audio; null on older recordings
+  format: string | null;
+  bitrate: number | null;
+  labels: string[];
+  notes: string | null;
   created_at: string;
 }
 
@@ -25,4 +56,115 @@ export interface RecordingState {
   duration: number;
   audioUrl: string | null;
   isUploading: boolean;
-}
\ No newline at end of file
+}
+
+export interface MockExamSession {
+  id: string;
+  user_id: string | null;
+  started_at: string;
+  completed_at: string;
+  total_duration: number;
+  created_at: string;
+}
+
+export interface MockExamStep {
+  question: IELTSQuestion;
+  isFirstOfPart: boolean;
+}
+
+export interface MockExamAnswer {
+  question: IELTSQuestion;
+  blob: Blob;
+  audioUrl: string;
+  duration: number;
+  prepNotes: string | null;
+}
+
+export type QueuedRecordingStatus = 'pending' | 'failed' | 'synced';
+
+export interface QueuedRecording {
+  id: string;
+  questionId: string;
+  serialNumber: number;
+  duration: number;
+  blob: Blob | null;
+  sessionId: string | null;
+  prepNotes: string | null;
+  status: QueuedRecordingStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+  createdAt: string;
+}
+
+export type UserRole = 'learner' | 'editor' | 'admin';
+
+export interface Profile {
+  id: string;
+  role: UserRole;
+  created_at: string;
+}
+
+export interface TranscriptWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  language: string | null;
+  words: TranscriptWord[];
+}
+
+export interface RecordingTranscript extends TranscriptionResult {
+  recording_id: string;
+  provider: string;
+  created_at: string;
+}
+
+export interface AssessmentMetrics {
+  wordCount: number;
+  speakingTime: number;
+  wordsPerMinute: number;
+  pauseCount: number;
+  longPauseCount: number;
+  typeTokenRatio: number;
+  keyVocabularyUsed: string[];
+  keyVocabularyTotal: number;
+  sentenceCount: number;
+  averageSentenceLength: number;
+  complexSentenceRatio: number;
+  discourseMarkerCount: number;
+}
+
+export interface CriterionScore {
+  band: number;
+  evidence: string[];
+}
+
+export interface BandAssessment {
+  fluency_coherence: CriterionScore;
+  lexical_resource: CriterionScore;
+  grammatical_range: CriterionScore;
+  pronunciation: CriterionScore;
+  overall: number;
+  metrics: AssessmentMetrics;
+}
+
+export interface RecordingAssessment extends BandAssessment {
+  recording_id: string;
+  created_at: string;
+}
+
+export interface QuestionReview {
+  user_id: string;
+  question_id: string;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  last_quality: number | null;
+  last_reviewed_at: string | null;
+  due_at: string;
+  created_at: string;
+}
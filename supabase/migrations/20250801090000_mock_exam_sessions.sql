@@ -0,0 +1,43 @@
+/*
+  # Mock exam sessions
+
+  1. New Tables
+    - `mock_exam_sessions`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `started_at` (timestamp, when the first examiner line was shown)
+      - `completed_at` (timestamp, when the closing line was shown)
+      - `total_duration` (integer, session length in seconds)
+      - `created_at` (timestamp)
+
+  2. Changes Made
+    - Add `session_id` to `user_recordings` so the answers of one mock exam
+      can be played back together
+
+  3. Security
+    - Enable RLS on `mock_exam_sessions`
+    - Same anonymous access as `user_recordings`
+*/
+
+CREATE TABLE IF NOT EXISTS mock_exam_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id),
+  started_at timestamptz NOT NULL,
+  completed_at timestamptz NOT NULL,
+  total_duration integer NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE user_recordings
+  ADD COLUMN IF NOT EXISTS session_id uuid REFERENCES mock_exam_sessions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS user_recordings_session_id_idx ON user_recordings (session_id);
+
+ALTER TABLE mock_exam_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow anonymous mock exam session operations"
+  ON mock_exam_sessions
+  FOR ALL
+  TO anon, authenticated
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,10 @@
+/*
+  # Part 2 preparation notes
+
+  1. Changes Made
+    - Add `prep_notes` to `user_recordings` so the notes taken during the
+      one-minute Part 2 preparation can be reviewed next to the audio
+*/
+
+ALTER TABLE user_recordings
+  ADD COLUMN IF NOT EXISTS prep_notes text;
@@ -0,0 +1,183 @@
+/*
+  # Per-user recording ownership
+
+  Every visitor now has an auth session: guests practise under a Supabase
+  anonymous sign-in (enable "Allow anonymous sign-ins" in the Auth
+  settings), and learners can sign in with a password or a magic link.
+
+  1. Changes Made
+    - Add `storage_path` to `user_recordings` so storage objects can be
+      matched to their owner, filled in from the public URL for existing
+      rows; `audio_url` is no longer written and becomes nullable
+    - New table `guest_claim_tokens` holds one secret token per guest
+      account, created by `create_guest_claim_token` from the guest session
+      itself
+    - New function `claim_anonymous_recordings` moves a guest account's
+      recordings and mock exam sessions to the signed-in user when given
+      that guest's claim token; each token works once
+
+  2. Security
+    - Replace the open `anon` policies on `user_recordings` and
+      `mock_exam_sessions` with policies scoped to `auth.uid()`
+    - The `recordings` bucket is made private, so audio is only served
+      through signed URLs issued under the policies below
+    - Uploads to the `recordings` bucket must go into the uploader's own
+      folder (`<user id>/...`); reading, listing and deleting is limited to
+      the owner's folder or to objects referenced by the owner's recordings
+    - Recordings saved before this migration (`user_id` is null) are no
+      longer visible to anyone
+    - Enable RLS on `guest_claim_tokens` without policies; tokens are only
+      read and written by the two functions, so knowing a guest's user id
+      is not enough to claim their recordings
+*/
+
+ALTER TABLE user_recordings
+  ADD COLUMN IF NOT EXISTS storage_path text,
+  ALTER COLUMN audio_url DROP NOT NULL;
+
+-- Public URLs stop working once the bucket is private, so rows are found by path instead
+UPDATE user_recordings
+SET storage_path = substring(audio_url FROM '/object/public/recordings/(.+)$')
+WHERE storage_path IS NULL AND audio_url IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS user_recordings_user_id_idx ON user_recordings (user_id);
+
+-- Recordings
+DROP POLICY IF EXISTS "Allow anonymous recording operations" ON user_recordings;
+
+CREATE POLICY "Users can manage own recordings"
+  ON user_recordings
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Mock exam sessions
+DROP POLICY IF EXISTS "Allow anonymous mock exam session operations" ON mock_exam_sessions;
+
+CREATE POLICY "Users can manage own mock exam sessions"
+  ON mock_exam_sessions
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Storage
+UPDATE storage.buckets SET public = false WHERE id = 'recordings';
+
+DROP POLICY IF EXISTS "Allow anonymous uploads to recordings bucket" ON storage.objects;
+DROP POLICY IF EXISTS "Allow anonymous reads from recordings bucket" ON storage.objects;
+DROP POLICY IF EXISTS "Allow anonymous deletes from recordings bucket" ON storage.objects;
+
+CREATE POLICY "Users can upload to own recordings folder"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'recordings'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can read own recordings"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'recordings'
+    AND (
+      (storage.foldername(name))[1] = auth.uid()::text
+      OR EXISTS (
+        SELECT 1 FROM public.user_recordings r
+        WHERE r.storage_path = name AND r.user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can delete own recordings"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'recordings'
+    AND (
+      (storage.foldername(name))[1] = auth.uid()::text
+      OR EXISTS (
+        SELECT 1 FROM public.user_recordings r
+        WHERE r.storage_path = name AND r.user_id = auth.uid()
+      )
+    )
+  );
+
+-- Claiming guest recordings after signing in
+CREATE TABLE IF NOT EXISTS guest_claim_tokens (
+  token uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  anonymous_user_id uuid NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE guest_claim_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION create_guest_claim_token()
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_token uuid;
+BEGIN
+  IF auth.uid() IS NULL OR NOT coalesce((auth.jwt() ->> 'is_anonymous')::boolean, false) THEN
+    RAISE EXCEPTION 'Only a guest session can create a claim token';
+  END IF;
+
+  INSERT INTO guest_claim_tokens (anonymous_user_id)
+    VALUES (auth.uid())
+    ON CONFLICT (anonymous_user_id)
+    DO UPDATE SET token = gen_random_uuid(), created_at = now()
+    RETURNING token INTO new_token;
+
+  RETURN new_token;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION create_guest_claim_token() FROM public, anon;
+GRANT EXECUTE ON FUNCTION create_guest_claim_token() TO authenticated;
+
+CREATE OR REPLACE FUNCTION claim_anonymous_recordings(claim_token uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  claimed integer;
+  anonymous_user_id uuid;
+BEGIN
+  IF auth.uid() IS NULL OR coalesce((auth.jwt() ->> 'is_anonymous')::boolean, false) THEN
+    RAISE EXCEPTION 'Sign in before claiming guest recordings';
+  END IF;
+
+  -- Only the guest session could have created the token, and it is used up here
+  DELETE FROM guest_claim_tokens t
+    WHERE t.token = claim_token
+    RETURNING t.anonymous_user_id INTO anonymous_user_id;
+
+  IF anonymous_user_id IS NULL OR anonymous_user_id = auth.uid() THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE user_recordings
+    SET user_id = auth.uid()
+    WHERE user_id = anonymous_user_id;
+  GET DIAGNOSTICS claimed = ROW_COUNT;
+
+  UPDATE mock_exam_sessions
+    SET user_id = auth.uid()
+    WHERE user_id = anonymous_user_id;
+
+  RETURN claimed;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION claim_anonymous_recordings(uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION claim_anonymous_recordings(uuid) TO authenticated;
@@ -0,0 +1,75 @@
+/*
+  # Question editor roles
+
+  1. New Tables
+    - `profiles`
+      - `id` (uuid, primary key, references auth.users)
+      - `role` (text, one of learner, editor, admin)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `profiles`; users can read their own profile and
+      admins can read and change everyone's role
+    - Only editors and admins can insert, update or delete
+      `ielts_questions`; questions stay publicly readable
+    - Users without a profile row are treated as learners
+
+  3. Granting a role
+    - INSERT INTO profiles (id, role) VALUES ('<user id>', 'admin')
+      ON CONFLICT (id) DO UPDATE SET role = excluded.role;
+*/
+
+CREATE TABLE IF NOT EXISTS profiles (
+  id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'learner' CHECK (role IN ('learner', 'editor', 'admin')),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+
+-- Role checks run as the table owner so they can be used inside other policies
+CREATE OR REPLACE FUNCTION has_role(allowed_roles text[])
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid() AND role = ANY (allowed_roles)
+  );
+$$;
+
+CREATE POLICY "Users can read own profile"
+  ON profiles
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = id OR has_role(ARRAY['admin']));
+
+CREATE POLICY "Admins can manage profiles"
+  ON profiles
+  FOR ALL
+  TO authenticated
+  USING (has_role(ARRAY['admin']))
+  WITH CHECK (has_role(ARRAY['admin']));
+
+-- Question editing
+CREATE POLICY "Editors can insert questions"
+  ON ielts_questions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role(ARRAY['editor', 'admin']));
+
+CREATE POLICY "Editors can update questions"
+  ON ielts_questions
+  FOR UPDATE
+  TO authenticated
+  USING (has_role(ARRAY['editor', 'admin']))
+  WITH CHECK (has_role(ARRAY['editor', 'admin']));
+
+CREATE POLICY "Editors can delete questions"
+  ON ielts_questions
+  FOR DELETE
+  TO authenticated
+  USING (has_role(ARRAY['editor', 'admin']));
@@ -0,0 +1,44 @@
+/*
+  # Recording transcripts
+
+  1. New Tables
+    - `recording_transcripts`
+      - `recording_id` (uuid, primary key, references user_recordings)
+      - `provider` (text, name of the transcription provider used)
+      - `language` (text, detected language)
+      - `text` (text, full transcript)
+      - `words` (jsonb, array of { text, start, end } in seconds)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `recording_transcripts`
+    - Users can manage transcripts of their own recordings
+*/
+
+CREATE TABLE IF NOT EXISTS recording_transcripts (
+  recording_id uuid PRIMARY KEY REFERENCES user_recordings(id) ON DELETE CASCADE,
+  provider text NOT NULL,
+  language text,
+  text text NOT NULL,
+  words jsonb NOT NULL DEFAULT '[]',
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE recording_transcripts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage transcripts of own recordings"
+  ON recording_transcripts
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_recordings r
+      WHERE r.id = recording_id AND r.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_recordings r
+      WHERE r.id = recording_id AND r.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,48 @@
+/*
+  # Recording band-score estimates
+
+  1. New Tables
+    - `recording_assessments`
+      - `recording_id` (uuid, primary key, references user_recordings)
+      - `fluency_coherence` (jsonb, { band, evidence })
+      - `lexical_resource` (jsonb, { band, evidence })
+      - `grammatical_range` (jsonb, { band, evidence })
+      - `pronunciation` (jsonb, { band, evidence })
+      - `overall` (numeric, overall band rounded to the nearest half)
+      - `metrics` (jsonb, speech rate, pauses, type-token ratio, etc.)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `recording_assessments`
+    - Users can manage assessments of their own recordings
+*/
+
+CREATE TABLE IF NOT EXISTS recording_assessments (
+  recording_id uuid PRIMARY KEY REFERENCES user_recordings(id) ON DELETE CASCADE,
+  fluency_coherence jsonb NOT NULL,
+  lexical_resource jsonb NOT NULL,
+  grammatical_range jsonb NOT NULL,
+  pronunciation jsonb NOT NULL,
+  overall numeric(2, 1) NOT NULL CHECK (overall BETWEEN 0 AND 9),
+  metrics jsonb NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE recording_assessments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage assessments of own recordings"
+  ON recording_assessments
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_recordings r
+      WHERE r.id = recording_id AND r.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_recordings r
+      WHERE r.id = recording_id AND r.user_id = auth.uid()
+    )
+  );
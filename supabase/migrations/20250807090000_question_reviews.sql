@@ -0,0 +1,96 @@
+/*
+  # Spaced-repetition review schedule
+
+  1. New Tables
+    - `question_reviews`
+      - `user_id` (uuid, references auth.users)
+      - `question_id` (uuid, references ielts_questions)
+      - `ease_factor` (numeric, SM-2 ease, never below 1.3)
+      - `interval_days` (integer, days between the last review and `due_at`)
+      - `repetitions` (integer, successful reviews in a row)
+      - `last_quality` (smallint, 0-5 rating of the last attempt)
+      - `last_reviewed_at` (timestamp)
+      - `due_at` (timestamp, when the question should be practised again)
+      - `created_at` (timestamp, when the question was first practised)
+      - Primary key on (`user_id`, `question_id`)
+
+  2. Changes Made
+    - `claim_anonymous_recordings` also moves the guest's review schedule,
+      keeping the signed-in user's own schedule where both exist; it still
+      requires the guest's one-time claim token
+
+  3. Security
+    - Enable RLS on `question_reviews`
+    - Users can manage their own review schedule
+*/
+
+CREATE TABLE IF NOT EXISTS question_reviews (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  question_id uuid NOT NULL REFERENCES ielts_questions(id) ON DELETE CASCADE,
+  ease_factor numeric(4, 2) NOT NULL DEFAULT 2.5 CHECK (ease_factor >= 1.3),
+  interval_days integer NOT NULL DEFAULT 0 CHECK (interval_days >= 0),
+  repetitions integer NOT NULL DEFAULT 0 CHECK (repetitions >= 0),
+  last_quality smallint CHECK (last_quality BETWEEN 0 AND 5),
+  last_reviewed_at timestamptz,
+  due_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, question_id)
+);
+
+CREATE INDEX IF NOT EXISTS question_reviews_due_idx ON question_reviews (user_id, due_at);
+
+ALTER TABLE question_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own review schedule"
+  ON question_reviews
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Claiming guest recordings after signing in
+CREATE OR REPLACE FUNCTION claim_anonymous_recordings(claim_token uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  claimed integer;
+  anonymous_user_id uuid;
+BEGIN
+  IF auth.uid() IS NULL OR coalesce((auth.jwt() ->> 'is_anonymous')::boolean, false) THEN
+    RAISE EXCEPTION 'Sign in before claiming guest recordings';
+  END IF;
+
+  -- Only the guest session could have created the token, and it is used up here
+  DELETE FROM guest_claim_tokens t
+    WHERE t.token = claim_token
+    RETURNING t.anonymous_user_id INTO anonymous_user_id;
+
+  IF anonymous_user_id IS NULL OR anonymous_user_id = auth.uid() THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE user_recordings
+    SET user_id = auth.uid()
+    WHERE user_id = anonymous_user_id;
+  GET DIAGNOSTICS claimed = ROW_COUNT;
+
+  UPDATE mock_exam_sessions
+    SET user_id = auth.uid()
+    WHERE user_id = anonymous_user_id;
+
+  UPDATE question_reviews guest
+    SET user_id = auth.uid()
+    WHERE guest.user_id = anonymous_user_id
+      AND NOT EXISTS (
+        SELECT 1 FROM question_reviews own
+        WHERE own.user_id = auth.uid() AND own.question_id = guest.question_id
+      );
+
+  DELETE FROM question_reviews WHERE user_id = anonymous_user_id;
+
+  RETURN claimed;
+END;
+$$;
@@ -0,0 +1,19 @@
+/*
+  # Recording labels and notes
+
+  1. Changes Made
+    - Add `labels` to `user_recordings` for short tags such as "best take"
+    - Add `notes` to `user_recordings` for the learner's own comments
+    - Index `user_recordings` on (`user_id`, `created_at`) and
+      (`user_id`, `duration`) for the paginated history view
+*/
+
+ALTER TABLE user_recordings
+  ADD COLUMN IF NOT EXISTS labels text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS notes text;
+
+CREATE INDEX IF NOT EXISTS user_recordings_user_created_idx
+  ON user_recordings (user_id, created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS user_recordings_user_duration_idx
+  ON user_recordings (user_id, duration DESC, id DESC);
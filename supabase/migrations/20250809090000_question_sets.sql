@@ -0,0 +1,61 @@
+/*
+  # Question sets
+
+  A question set groups a Part 2 cue card with the Part 3 discussion
+  questions that follow it in the exam, and optionally Part 1 questions
+  on the same theme.
+
+  1. New Tables
+    - `question_sets`
+      - `id` (uuid, primary key)
+      - `title` (text, the shared theme, e.g. "A journey you remember")
+      - `description` (text, optional notes for editors)
+      - `created_at` (timestamp)
+
+  2. Changes Made
+    - Add `question_set_id` to `ielts_questions`; deleting a set keeps its
+      questions and only removes the link
+
+  3. Security
+    - Enable RLS on `question_sets`; sets are publicly readable like
+      questions, and only editors and admins can change them
+*/
+
+CREATE TABLE IF NOT EXISTS question_sets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  title text NOT NULL,
+  description text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE ielts_questions
+  ADD COLUMN IF NOT EXISTS question_set_id uuid REFERENCES question_sets(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS ielts_questions_question_set_id_idx ON ielts_questions (question_set_id);
+
+ALTER TABLE question_sets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read question sets"
+  ON question_sets
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Editors can insert question sets"
+  ON question_sets
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role(ARRAY['editor', 'admin']));
+
+CREATE POLICY "Editors can update question sets"
+  ON question_sets
+  FOR UPDATE
+  TO authenticated
+  USING (has_role(ARRAY['editor', 'admin']))
+  WITH CHECK (has_role(ARRAY['editor', 'admin']));
+
+CREATE POLICY "Editors can delete question sets"
+  ON question_sets
+  FOR DELETE
+  TO authenticated
+  USING (has_role(ARRAY['editor', 'admin']));
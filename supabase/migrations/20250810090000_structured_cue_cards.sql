@@ -0,0 +1,55 @@
+/*
+  # Structured Part 2 cue cards
+
+  1. Changes Made
+    - Add `cue_card_topic` to `ielts_questions` for the "Describe ..." line
+    - Add `cue_card_prompts` to `ielts_questions` for the "You should say"
+      bullet points, in order
+    - Parse existing Part 2 questions into the new columns. The run-on
+      text is split at "You should say", then at commas or semicolons that
+      start a new prompt ("what ...", "why ...", "and explain ...").
+      Cue cards without a "You should say" section keep the whole question
+      as their topic and no prompts.
+    - `question` is left untouched so search and history keep working
+*/
+
+ALTER TABLE ielts_questions
+  ADD COLUMN IF NOT EXISTS cue_card_topic text,
+  ADD COLUMN IF NOT EXISTS cue_card_prompts text[] NOT NULL DEFAULT '{}';
+
+CREATE OR REPLACE FUNCTION pg_temp.split_cue_card_prompts(prompts text)
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(cleaned ORDER BY position), '{}')
+  FROM (
+    SELECT
+      position,
+      btrim(regexp_replace(regexp_replace(prompt, '^\s*(?:[-*•]\s*)?(?:and\s+)?', '', 'i'), '[\s.;,]+$', '')) AS cleaned
+    FROM regexp_split_to_table(
+      prompts,
+      '\s*(?:\n|;|,\s*(?=(?:and\s+)?(?:what|who|where|when|why|how|which|whether|if|explain)\M))\s*',
+      'i'
+    ) WITH ORDINALITY AS parts(prompt, position)
+  ) split
+  WHERE cleaned <> '';
+$$;
+
+UPDATE ielts_questions
+SET
+  cue_card_topic = btrim(regexp_replace(parsed[1], '[\s.:]+$', '')),
+  cue_card_prompts = pg_temp.split_cue_card_prompts(parsed[2])
+FROM (
+  SELECT id AS parsed_id, regexp_match(question, '^(.*?)\s*you should say\s*:?\s*(.*)$', 'i') AS parsed
+  FROM ielts_questions
+  WHERE part = 2
+) matches
+WHERE ielts_questions.id = matches.parsed_id
+  AND matches.parsed IS NOT NULL
+  AND ielts_questions.cue_card_topic IS NULL;
+
+UPDATE ielts_questions
+SET cue_card_topic = btrim(question)
+WHERE part = 2
+  AND cue_card_topic IS NULL;
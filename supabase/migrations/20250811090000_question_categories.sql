@@ -0,0 +1,116 @@
+/*
+  # Question categories
+
+  A managed taxonomy of question topics. Each category lists keywords and
+  looser synonyms; the app scores a question against them to pick its
+  category, for all three parts, instead of the old hard-coded rules.
+
+  1. New Tables
+    - `categories`
+      - `id` (uuid, primary key)
+      - `name` (text, unique, stored in `ielts_questions.category`)
+      - `keywords` (text[], words and phrases that clearly mark the topic)
+      - `synonyms` (text[], related words that count for less)
+      - `created_at` (timestamp)
+
+  2. Changes Made
+    - Seed a starting taxonomy of common IELTS speaking topics
+    - Existing questions keep their category until an editor re-classifies
+      them from the categories screen
+
+  3. Security
+    - Enable RLS on `categories`; categories are publicly readable like
+      questions, and only editors and admins can change them
+*/
+
+CREATE TABLE IF NOT EXISTS categories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  keywords text[] NOT NULL DEFAULT '{}',
+  synonyms text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read categories"
+  ON categories
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Editors can insert categories"
+  ON categories
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role(ARRAY['editor', 'admin']));
+
+CREATE POLICY "Editors can update categories"
+  ON categories
+  FOR UPDATE
+  TO authenticated
+  USING (has_role(ARRAY['editor', 'admin']))
+  WITH CHECK (has_role(ARRAY['editor', 'admin']));
+
+CREATE POLICY "Editors can delete categories"
+  ON categories
+  FOR DELETE
+  TO authenticated
+  USING (has_role(ARRAY['editor', 'admin']));
+
+INSERT INTO categories (name, keywords, synonyms) VALUES
+  ('Hometown',
+    ARRAY['hometown', 'home town', 'where you grew up', 'city you live in', 'town', 'village'],
+    ARRAY['neighbourhood', 'neighborhood', 'local', 'area', 'city', 'grew up', 'born']),
+  ('Accommodation',
+    ARRAY['accommodation', 'house', 'apartment', 'flat', 'home', 'room'],
+    ARRAY['live in', 'bedroom', 'furniture', 'neighbour', 'neighbor', 'decorate', 'rent']),
+  ('Work',
+    ARRAY['work', 'job', 'career', 'company', 'profession'],
+    ARRAY['office', 'colleague', 'boss', 'employer', 'employee', 'salary', 'occupation', 'workplace', 'business', 'retire']),
+  ('Study',
+    ARRAY['study', 'student', 'school', 'university', 'education', 'subject'],
+    ARRAY['teacher', 'class', 'lesson', 'exam', 'learn', 'course', 'degree', 'college', 'homework', 'classmate', 'skill']),
+  ('Family & Friends',
+    ARRAY['family', 'friend', 'friendship', 'parent', 'relative'],
+    ARRAY['mother', 'father', 'brother', 'sister', 'child', 'grandparent', 'sibling', 'neighbour', 'relationship', 'get along']),
+  ('Hobbies & Free Time',
+    ARRAY['hobby', 'free time', 'spare time', 'leisure', 'weekend'],
+    ARRAY['relax', 'enjoy doing', 'pastime', 'interest', 'collect', 'game', 'reading', 'painting', 'dance']),
+  ('Food',
+    ARRAY['food', 'cook', 'meal', 'restaurant', 'eat'],
+    ARRAY['dish', 'recipe', 'breakfast', 'lunch', 'dinner', 'snack', 'diet', 'fruit', 'vegetable', 'cuisine', 'drink']),
+  ('Travel & Tourism',
+    ARRAY['travel', 'trip', 'journey', 'holiday', 'vacation', 'tourist', 'tourism'],
+    ARRAY['visit', 'abroad', 'foreign country', 'destination', 'sightseeing', 'hotel', 'luggage', 'flight']),
+  ('Transport',
+    ARRAY['transport', 'transportation', 'traffic', 'commute'],
+    ARRAY['car', 'bus', 'train', 'bicycle', 'bike', 'drive', 'public transport', 'road', 'subway', 'taxi']),
+  ('Technology',
+    ARRAY['technology', 'internet', 'computer', 'smartphone', 'phone', 'app', 'online', 'social media'],
+    ARRAY['website', 'device', 'gadget', 'artificial intelligence', 'robot', 'digital', 'software', 'email', 'screen']),
+  ('Media & Entertainment',
+    ARRAY['film', 'movie', 'television', 'tv', 'music', 'book', 'news', 'newspaper', 'advertisement'],
+    ARRAY['song', 'singer', 'actor', 'celebrity', 'magazine', 'programme', 'program', 'radio', 'concert', 'entertainment', 'media']),
+  ('Art & Culture',
+    ARRAY['art', 'culture', 'museum', 'tradition', 'festival', 'history'],
+    ARRAY['painting', 'gallery', 'artist', 'historical', 'heritage', 'custom', 'celebrate', 'celebration', 'building', 'architecture']),
+  ('Health & Sport',
+    ARRAY['health', 'sport', 'exercise', 'fitness', 'healthy'],
+    ARRAY['gym', 'team', 'football', 'swimming', 'run', 'doctor', 'illness', 'sleep', 'stress', 'outdoor activity']),
+  ('Shopping & Money',
+    ARRAY['shopping', 'shop', 'money', 'buy', 'spend'],
+    ARRAY['store', 'market', 'price', 'expensive', 'cheap', 'save money', 'advertisement', 'brand', 'clothes', 'gift']),
+  ('Environment',
+    ARRAY['environment', 'environmental', 'pollution', 'climate', 'recycle', 'recycling'],
+    ARRAY['plastic', 'waste', 'energy', 'nature', 'green', 'global warming', 'protect', 'rubbish', 'litter']),
+  ('Nature & Weather',
+    ARRAY['nature', 'weather', 'season', 'animal', 'plant'],
+    ARRAY['rain', 'sun', 'sunny', 'park', 'garden', 'tree', 'flower', 'pet', 'wildlife', 'mountain', 'river', 'sea', 'beach']),
+  ('People',
+    ARRAY['person', 'someone you admire', 'someone you know'],
+    ARRAY['character', 'personality', 'famous', 'role model', 'admire', 'elderly', 'young people', 'children']),
+  ('Society & Government',
+    ARRAY['society', 'government', 'law', 'community', 'city council'],
+    ARRAY['crime', 'rule', 'policy', 'public', 'citizen', 'population', 'social', 'responsibility', 'volunteer'])
+ON CONFLICT (name) DO NOTHING;
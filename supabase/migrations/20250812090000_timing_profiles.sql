@@ -0,0 +1,71 @@
+/*
+  # Timing profiles
+
+  Answers are timed against a minimum, a target and a maximum instead of
+  a single hard limit. Each part has a profile stored in settings, and a
+  question can override any of the three values.
+
+  1. New Tables
+    - `app_settings`
+      - `key` (text, primary key)
+      - `value` (jsonb)
+      - `updated_at` (timestamp)
+
+  2. Changes Made
+    - Add `min_duration` and `target_duration` to `ielts_questions`; null
+      follows the profile of the question's part
+    - `time_limit` becomes the question's maximum and may be null to follow
+      the profile as well
+    - Clear `time_limit` where it holds the old automatic value for its
+      part (90, 120 or 150 seconds), so those questions pick up the profile;
+      limits an editor set by hand are kept
+    - Seed the `timing_profiles` setting with exam timings
+
+  3. Security
+    - Enable RLS on `app_settings`; settings are publicly readable, and only
+      editors and admins can change them
+*/
+
+CREATE TABLE IF NOT EXISTS app_settings (
+  key text PRIMARY KEY,
+  value jsonb NOT NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read settings"
+  ON app_settings
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Editors can insert settings"
+  ON app_settings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role(ARRAY['editor', 'admin']));
+
+CREATE POLICY "Editors can update settings"
+  ON app_settings
+  FOR UPDATE
+  TO authenticated
+  USING (has_role(ARRAY['editor', 'admin']))
+  WITH CHECK (has_role(ARRAY['editor', 'admin']));
+
+ALTER TABLE ielts_questions
+  ADD COLUMN IF NOT EXISTS min_duration integer CHECK (min_duration > 0),
+  ADD COLUMN IF NOT EXISTS target_duration integer CHECK (target_duration > 0),
+  ALTER COLUMN time_limit DROP NOT NULL;
+
+UPDATE ielts_questions
+SET time_limit = NULL
+WHERE time_limit = CASE part WHEN 1 THEN 90 WHEN 2 THEN 120 WHEN 3 THEN 150 END;
+
+INSERT INTO app_settings (key, value) VALUES
+  ('timing_profiles', '{
+    "1": { "min": 10, "target": 25, "max": 45 },
+    "2": { "min": 60, "target": 105, "max": 120 },
+    "3": { "min": 30, "target": 60, "max": 90 }
+  }')
+ON CONFLICT (key) DO NOTHING;
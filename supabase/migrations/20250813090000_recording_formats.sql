@@ -0,0 +1,26 @@
+/*
+  # Recording formats
+
+  1. Changes Made
+    - Add `format` (MIME type, e.g. `audio/webm` or `audio/mp4`) and
+      `bitrate` (average bits per second) to `user_recordings`, since takes
+      are no longer always uploaded as WebM
+    - Fill in `format` for existing recordings from the extension of their
+      storage path, which covers WebM takes, trimmed WAV takes and restored
+      backups; their bitrate is unknown and stays null
+*/
+
+ALTER TABLE user_recordings
+  ADD COLUMN IF NOT EXISTS format text,
+  ADD COLUMN IF NOT EXISTS bitrate integer CHECK (bitrate > 0);
+
+UPDATE user_recordings
+SET format = CASE lower(substring(storage_path FROM '\.([A-Za-z0-9]+)$'))
+  WHEN 'webm' THEN 'audio/webm'
+  WHEN 'ogg' THEN 'audio/ogg'
+  WHEN 'mp4' THEN 'audio/mp4'
+  WHEN 'm4a' THEN 'audio/mp4'
+  WHEN 'mp3' THEN 'audio/mpeg'
+  WHEN 'wav' THEN 'audio/wav'
+END
+WHERE format IS NULL AND storage_path IS NOT NULL;